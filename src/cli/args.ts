@@ -0,0 +1,204 @@
+/**
+ * Argument parsing for the `pixeloe` command-line tool. Every numeric,
+ * choice and boolean option of {@link PixelOEOptions} gets a kebab-case
+ * flag (`pixelSize` -> `--pixel-size`, `--no-color-matching` to negate).
+ */
+
+import type { PixelOEOptions } from '../pixeloe'
+import { BOOLEAN_OPTIONS, OPTION_CHOICES, OPTION_RANGES } from '../core/options'
+
+export interface CliSettings {
+  inputs: string[]
+  /** Output directory; defaults to each input's own directory */
+  out?: string
+  /** Output file name template, see {@link formatOutputName} */
+  name?: string
+  config?: string
+  preset?: string
+  palette?: string
+  concurrency?: number
+  recursive?: boolean
+  metadata?: boolean
+  verbose: boolean
+  help: boolean
+  version: boolean
+  /** Options given as flags; they override the preset and config file */
+  options: Partial<PixelOEOptions>
+}
+
+/** Bad flags or values; the CLI prints the message with a usage hint. */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CliUsageError'
+  }
+}
+
+export const DEFAULT_NAME_TEMPLATE = '{name}.pixel.png'
+
+type ValueFlag = 'out' | 'name' | 'config' | 'preset' | 'palette' | 'concurrency'
+type SwitchFlag = 'recursive' | 'metadata' | 'verbose' | 'help' | 'version'
+
+const VALUE_FLAGS: Record<string, ValueFlag> = {
+  out: 'out',
+  o: 'out',
+  name: 'name',
+  n: 'name',
+  config: 'config',
+  c: 'config',
+  preset: 'preset',
+  p: 'preset',
+  palette: 'palette',
+  concurrency: 'concurrency',
+  j: 'concurrency',
+}
+
+const SWITCH_FLAGS: Record<string, SwitchFlag> = {
+  recursive: 'recursive',
+  r: 'recursive',
+  metadata: 'metadata',
+  verbose: 'verbose',
+  help: 'help',
+  h: 'help',
+  version: 'version',
+  v: 'version',
+}
+
+// `silent` is driven by --verbose
+const CLI_BOOLEAN_OPTIONS = new Set<string>(BOOLEAN_OPTIONS.filter(option => option !== 'silent'))
+
+export function kebabCase(name: string): string {
+  return name.replaceAll(/[A-Z]+/g, match => `-${match.toLowerCase()}`)
+}
+
+const OPTION_FLAGS = new Map<string, keyof PixelOEOptions>(
+  [...Object.keys(OPTION_RANGES), ...Object.keys(OPTION_CHOICES), ...CLI_BOOLEAN_OPTIONS]
+    .map(option => [kebabCase(option), option as keyof PixelOEOptions]),
+)
+
+function parseOptionValue(option: keyof PixelOEOptions, raw: string): unknown {
+  if (option in OPTION_RANGES) {
+    const value = Number(raw)
+    if (raw.trim() === '' || !Number.isFinite(value)) {
+      throw new CliUsageError(`--${kebabCase(option)} expects a number, got "${raw}"`)
+    }
+    return value
+  }
+  if (option in OPTION_CHOICES) {
+    const choices: readonly string[] = OPTION_CHOICES[option as keyof typeof OPTION_CHOICES]
+    if (!choices.includes(raw)) {
+      throw new CliUsageError(`--${kebabCase(option)} must be one of ${choices.join(', ')}`)
+    }
+    return raw
+  }
+  if (raw !== 'true' && raw !== 'false') {
+    throw new CliUsageError(`--${kebabCase(option)} expects true or false, got "${raw}"`)
+  }
+  return raw === 'true'
+}
+
+function parseSettingValue(flag: ValueFlag, raw: string): string | number {
+  if (flag !== 'concurrency') {
+    return raw
+  }
+  const value = Number(raw)
+  if (!Number.isInteger(value) || value < 1) {
+    throw new CliUsageError(`--concurrency expects a positive integer, got "${raw}"`)
+  }
+  return value
+}
+
+/** Parse `argv` (without the node and script paths). Throws {@link CliUsageError}. */
+export function parseCliArgs(argv: string[]): CliSettings {
+  const settings: CliSettings = { inputs: [], verbose: false, help: false, version: false, options: {} }
+  const options = settings.options as Record<string, unknown>
+  const record = settings as unknown as Record<string, unknown>
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (arg === '--') {
+      settings.inputs.push(...argv.slice(i + 1))
+      break
+    }
+    if (!arg.startsWith('-') || arg === '-') {
+      settings.inputs.push(arg)
+      continue
+    }
+
+    const body = arg.replace(/^--?/, '')
+    const eq = body.indexOf('=')
+    const flag = eq === -1 ? body : body.slice(0, eq)
+    const inline = eq === -1 ? undefined : body.slice(eq + 1)
+    const takeValue = (): string => {
+      if (inline !== undefined) {
+        return inline
+      }
+      if (i + 1 >= argv.length) {
+        throw new CliUsageError(`${arg} expects a value`)
+      }
+      return argv[++i]
+    }
+
+    if (flag in VALUE_FLAGS) {
+      record[VALUE_FLAGS[flag]] = parseSettingValue(VALUE_FLAGS[flag], takeValue())
+      continue
+    }
+    if (flag in SWITCH_FLAGS && inline === undefined) {
+      record[SWITCH_FLAGS[flag]] = true
+      continue
+    }
+    if (flag === 'no-metadata' || flag === 'no-recursive') {
+      record[flag.slice(3)] = false
+      continue
+    }
+
+    const option = OPTION_FLAGS.get(flag)
+    if (option) {
+      options[option] = CLI_BOOLEAN_OPTIONS.has(option) && inline === undefined
+        ? true
+        : parseOptionValue(option, takeValue())
+      continue
+    }
+    const negated = flag.startsWith('no-') ? OPTION_FLAGS.get(flag.slice(3)) : undefined
+    if (negated && CLI_BOOLEAN_OPTIONS.has(negated) && inline === undefined) {
+      options[negated] = false
+      continue
+    }
+    throw new CliUsageError(`Unknown option ${arg}`)
+  }
+
+  return settings
+}
+
+export function helpText(): string {
+  const numeric = Object.entries(OPTION_RANGES)
+    .map(([option, { min, max }]) => `${`  --${kebabCase(option)} <n>`.padEnd(34)}${min}-${max}`)
+  const choices = Object.entries(OPTION_CHOICES)
+    .map(([option, values]) => `  --${kebabCase(option)} <value>`.padEnd(34) + values.join(' | '))
+  const switches = [...CLI_BOOLEAN_OPTIONS].map(option => `  --[no-]${kebabCase(option)}`)
+
+  return [
+    'Usage: pixeloe [flags] <file or directory...>',
+    '',
+    'Pixelizes PNG and JPEG images and writes PNG files.',
+    '',
+    'Flags:',
+    '  -o, --out <dir>                 Output directory (default: next to each input)',
+    `  -n, --name <template>           Output file name (default: ${DEFAULT_NAME_TEMPLATE})`,
+    '                                  {name} {ext} {index} {preset} and any option, e.g. {pixelSize}',
+    '  -c, --config <file.json>        Options and flags from a JSON file',
+    '  -p, --preset <id>               Start from a preset',
+    '      --palette <name>            Map colors to a predefined palette',
+    '  -j, --concurrency <n>           Images processed in parallel (default: CPU count)',
+    '  -r, --recursive                 Include subdirectories of directory inputs',
+    '      --no-metadata               Do not embed the settings in the output PNG',
+    '      --verbose                   Log pipeline stage timings',
+    '  -h, --help                      Show this help',
+    '  -v, --version                   Show the version',
+    '',
+    'Options (override the preset and config file):',
+    ...numeric,
+    ...choices,
+    ...switches,
+  ].join('\n')
+}
@@ -0,0 +1,18 @@
+/**
+ * Entry point of the `pixeloe` command-line tool. The same module runs the
+ * worker threads that process images in parallel.
+ */
+
+import process from 'node:process'
+import { isMainThread, parentPort, workerData } from 'node:worker_threads'
+import { runCli, serveJobs } from './run'
+
+if (isMainThread) {
+  process.exitCode = await runCli(process.argv.slice(2), {
+    out: line => process.stdout.write(`${line}\n`),
+    err: line => process.stderr.write(`${line}\n`),
+  }, new URL(import.meta.url))
+}
+else if (parentPort) {
+  serveJobs(parentPort, workerData)
+}
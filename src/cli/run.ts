@@ -0,0 +1,369 @@
+/**
+ * Batch processing for the `pixeloe` command-line tool: config and preset
+ * resolution, input discovery, output naming and a concurrency-limited run
+ * over worker threads.
+ */
+
+import type { MessagePort } from 'node:worker_threads'
+import type { PixelOEOptions } from '../pixeloe'
+import type { CliSettings } from './args'
+import { mkdir, readdir, readFile, stat, writeFile } from 'node:fs/promises'
+import { availableParallelism } from 'node:os'
+import path from 'node:path'
+import { Worker } from 'node:worker_threads'
+import { decodeImage } from '../core/decode'
+import { embedPngMetadata, hashImage } from '../core/metadata'
+import { deserializeOptions, OPTION_RANGES, serializeOptions, unknownOptionKeys, validateOptions } from '../core/options'
+import { getPaletteByName, PREDEFINED_PALETTES } from '../core/palettes'
+import { BASE_OPTIONS, PRESETS } from '../core/presets'
+import { PixelOE } from '../pixeloe'
+import { VERSION } from '../version'
+import { CliUsageError, DEFAULT_NAME_TEMPLATE, helpText, parseCliArgs } from './args'
+
+/** Settings a config file may carry next to the options. */
+const CONFIG_SETTINGS = ['out', 'name', 'preset', 'palette', 'concurrency', 'recursive', 'metadata'] as const
+
+type ConfigSettings = Partial<Pick<CliSettings, typeof CONFIG_SETTINGS[number]>>
+
+export interface CliConfig {
+  settings: ConfigSettings
+  options: Partial<PixelOEOptions>
+}
+
+export interface CliJob {
+  input: string
+  output: string
+}
+
+export interface CliIO {
+  out: (line: string) => void
+  err: (line: string) => void
+}
+
+const IMAGE_EXTENSIONS = new Set(['.png', '.jpg', '.jpeg'])
+
+/**
+ * Read a JSON config file: CLI settings (`out`, `name`, `preset`, ...) plus
+ * any {@link SerializedOptions} keys, e.g. a `serializeOptions` dump.
+ * `out` is resolved against the config file's directory; other keys are
+ * usage errors.
+ */
+export async function loadConfig(file: string): Promise<CliConfig> {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(await readFile(file, 'utf8'))
+  }
+  catch (error) {
+    throw new CliUsageError(`Cannot read config ${file}: ${(error as Error).message}`)
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new CliUsageError(`Config ${file} must contain a JSON object`)
+  }
+
+  const { ...rest } = parsed as Record<string, unknown>
+  const settings: Record<string, unknown> = {}
+  for (const key of CONFIG_SETTINGS) {
+    if (rest[key] !== undefined) {
+      settings[key] = rest[key]
+      delete rest[key]
+    }
+  }
+  const unknown = unknownOptionKeys(rest)
+  if (unknown.length > 0) {
+    throw new CliUsageError(`Unknown ${unknown.length === 1 ? 'key' : 'keys'} in config ${file}: ${unknown.join(', ')}`)
+  }
+  if (typeof settings.out === 'string') {
+    settings.out = path.resolve(path.dirname(file), settings.out)
+  }
+
+  try {
+    return { settings: settings as ConfigSettings, options: deserializeOptions(rest) }
+  }
+  catch (error) {
+    throw new CliUsageError(`Invalid options in ${file}: ${(error as Error).message}`)
+  }
+}
+
+/**
+ * Final options: {@link BASE_OPTIONS}, then the preset, the config file
+ * options, the palette and finally the option flags. Throws on invalid
+ * values; out-of-range values are kept and reported as warnings.
+ */
+export function resolveOptions(
+  settings: CliSettings,
+  config?: CliConfig,
+): { options: PixelOEOptions, presetId?: string, warnings: string[] } {
+  const presetId = settings.preset ?? config?.settings.preset
+  const preset = presetId === undefined ? undefined : PRESETS.find(p => p.id === presetId)
+  if (presetId !== undefined && !preset) {
+    throw new CliUsageError(`Unknown preset "${presetId}" (available: ${PRESETS.map(p => p.id).join(', ')})`)
+  }
+  const paletteName = settings.palette ?? config?.settings.palette
+  const palette = paletteName === undefined ? undefined : getPaletteByName(paletteName)
+  if (paletteName !== undefined && !palette) {
+    throw new CliUsageError(`Unknown palette "${paletteName}" (available: ${PREDEFINED_PALETTES.map(p => p.name).join(', ')})`)
+  }
+
+  const merged: Partial<PixelOEOptions> = {
+    ...BASE_OPTIONS,
+    ...preset?.options,
+    ...config?.options,
+    ...(palette ? { usePalette: true, selectedPalette: palette } : {}),
+    ...settings.options,
+    // --verbose logs to the console
+    logger: console,
+    silent: !settings.verbose,
+  }
+  const validation = validateOptions(merged)
+  if (!validation.valid) {
+    throw new CliUsageError(validation.errors.map(e => `${e.option} ${e.message}`).join('; '))
+  }
+  // Out-of-range values are used as given, only rounded where integers are expected
+  const options: Record<string, unknown> = { ...validation.options }
+  for (const { option, value } of validation.warnings) {
+    const range = OPTION_RANGES[option as keyof typeof OPTION_RANGES]
+    options[option] = 'integer' in range ? Math.round(value as number) : value
+  }
+  return {
+    options: options as unknown as PixelOEOptions,
+    presetId,
+    warnings: validation.warnings.map(w => `${w.option} ${w.message} (got ${String(w.value)})`),
+  }
+}
+
+/**
+ * Fill `{key}` placeholders in an output name template. Throws on unknown
+ * keys.
+ */
+export function formatOutputName(template: string, vars: Record<string, string | number>): string {
+  return template.replaceAll(/\{(\w+)\}/g, (_, key: string) => {
+    if (!(key in vars)) {
+      throw new CliUsageError(`Unknown placeholder {${key}} in name template`)
+    }
+    return String(vars[key])
+  })
+}
+
+async function walk(dir: string, recursive: boolean): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true })
+  const files: string[] = []
+  for (const entry of entries.toSorted((a, b) => a.name.localeCompare(b.name))) {
+    const file = path.join(dir, entry.name)
+    if (entry.isDirectory() && recursive) {
+      files.push(...await walk(file, recursive))
+    }
+    else if (entry.isFile() && IMAGE_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+      files.push(file)
+    }
+  }
+  return files
+}
+
+/**
+ * Expand the inputs into image files. Directory contents keep their path
+ * relative to the directory so outputs can mirror the layout.
+ */
+export async function collectInputs(inputs: string[], recursive: boolean): Promise<{ file: string, relativeDir: string }[]> {
+  const found: { file: string, relativeDir: string }[] = []
+  for (const input of inputs) {
+    const info = await stat(input).catch(() => {})
+    if (!info) {
+      throw new CliUsageError(`No such file or directory: ${input}`)
+    }
+    if (!info.isDirectory()) {
+      found.push({ file: input, relativeDir: '' })
+      continue
+    }
+    for (const file of await walk(input, recursive)) {
+      found.push({ file, relativeDir: path.relative(input, path.dirname(file)) })
+    }
+  }
+  return found
+}
+
+/** Output paths for every input; throws when two jobs would write the same file. */
+export function planJobs(
+  files: { file: string, relativeDir: string }[],
+  { out, name = DEFAULT_NAME_TEMPLATE }: { out?: string, name?: string },
+  options: PixelOEOptions,
+  presetId?: string,
+): CliJob[] {
+  const optionVars: Record<string, string | number> = {}
+  for (const [key, value] of Object.entries(options)) {
+    if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') {
+      optionVars[key] = String(value)
+    }
+  }
+  const seen = new Map<string, string>()
+  return files.map(({ file, relativeDir }, index) => {
+    const ext = path.extname(file)
+    const fileName = formatOutputName(name, {
+      ...optionVars,
+      name: path.basename(file, ext),
+      ext: ext.slice(1),
+      index: index + 1,
+      preset: presetId ?? 'custom',
+      palette: options.usePalette ? options.selectedPalette?.name ?? '' : '',
+    })
+    const output = path.join(out === undefined ? path.dirname(file) : path.join(out, relativeDir), fileName)
+    if (path.resolve(output) === path.resolve(file)) {
+      throw new CliUsageError(`Output would overwrite its input: ${file}`)
+    }
+    const previous = seen.get(path.resolve(output))
+    if (previous) {
+      throw new CliUsageError(`${previous} and ${file} would both be written to ${output}`)
+    }
+    seen.set(path.resolve(output), file)
+    return { input: file, output }
+  })
+}
+
+/** Decode, pixelize and write one image as PNG. */
+export async function processImageFile(job: CliJob, options: PixelOEOptions, metadata: boolean): Promise<void> {
+  const image = decodeImage(new Uint8Array(await readFile(job.input)))
+  const pixelOE = new PixelOE(options)
+  let png = pixelOE.toPng(pixelOE.pixelize(image).result)
+  if (metadata) {
+    png = embedPngMetadata(png, { options, sourceHash: await hashImage(image) })
+  }
+  await mkdir(path.dirname(job.output), { recursive: true })
+  await writeFile(job.output, png)
+}
+
+interface WorkerSetup {
+  options: ReturnType<typeof serializeOptions>
+  metadata: boolean
+}
+
+type JobReply = { ok: true } | { ok: false, error: string }
+
+/** Worker-thread side: process the jobs posted by {@link runCli}. */
+export function serveJobs(port: MessagePort, { options, metadata }: WorkerSetup): void {
+  // Loggers don't cross threads; `silent` still carries --verbose
+  const resolved = { ...deserializeOptions(options), logger: console } as PixelOEOptions
+  port.on('message', async (job: CliJob) => {
+    let reply: JobReply = { ok: true }
+    try {
+      await processImageFile(job, resolved, metadata)
+    }
+    catch (error) {
+      reply = { ok: false, error: (error as Error).message }
+    }
+    port.postMessage(reply)
+  })
+}
+
+/**
+ * A job runner bound to one worker thread. A worker that crashes or exits
+ * rejects the job it was running and is respawned for the next one.
+ */
+function threadRunner(workerUrl: URL, setup: WorkerSetup): { run: (job: CliJob) => Promise<void>, close: () => Promise<number> } {
+  let worker: Worker | undefined
+  const spawn = (): Worker => {
+    const spawned = new Worker(workerUrl, { workerData: setup })
+    // Crashed or gone: the next job gets a fresh worker
+    const retire = (): void => {
+      if (worker === spawned) {
+        worker = undefined
+      }
+    }
+    spawned.on('error', retire).once('exit', retire)
+    return spawned
+  }
+  return {
+    run: job => new Promise((resolve, reject) => {
+      const current = worker ??= spawn()
+      const onMessage = (reply: JobReply): void => settle(reply.ok ? undefined : new Error(reply.error))
+      const onError = (error: Error): void => settle(error)
+      const onExit = (code: number): void => settle(new Error(`Worker thread exited with code ${code}`))
+      function settle(error?: Error): void {
+        current.off('message', onMessage).off('error', onError).off('exit', onExit)
+        if (error) {
+          reject(error)
+        }
+        else {
+          resolve()
+        }
+      }
+      current.once('message', onMessage).once('error', onError).once('exit', onExit)
+      current.postMessage(job)
+    }),
+    close: async () => worker ? worker.terminate() : 0,
+  }
+}
+
+/**
+ * Run the CLI; resolves to the exit code (0 ok, 1 some images failed,
+ * 2 usage error). With `workerUrl` (the CLI module itself) images are
+ * processed on up to `--concurrency` worker threads, otherwise in turn on
+ * the calling thread.
+ */
+export async function runCli(argv: string[], io: CliIO, workerUrl?: URL): Promise<number> {
+  let jobs: CliJob[]
+  let options: PixelOEOptions
+  let settings: CliSettings
+  let config: CliConfig
+  try {
+    settings = parseCliArgs(argv)
+    if (settings.help) {
+      io.out(helpText())
+      return 0
+    }
+    if (settings.version) {
+      io.out(VERSION)
+      return 0
+    }
+    if (settings.inputs.length === 0) {
+      throw new CliUsageError('No input files given')
+    }
+    config = settings.config ? await loadConfig(settings.config) : { settings: {}, options: {} }
+    const resolved = resolveOptions(settings, config)
+    options = resolved.options
+    for (const warning of resolved.warnings) {
+      io.err(`warning: ${warning}`)
+    }
+    const files = await collectInputs(settings.inputs, settings.recursive ?? config.settings.recursive ?? false)
+    jobs = planJobs(files, { out: settings.out ?? config.settings.out, name: settings.name ?? config.settings.name }, options, resolved.presetId)
+  }
+  catch (error) {
+    if (error instanceof CliUsageError) {
+      io.err(`pixeloe: ${error.message}`)
+      io.err('Run "pixeloe --help" for usage.')
+      return 2
+    }
+    throw error
+  }
+
+  const metadata = settings.metadata ?? config.settings.metadata ?? true
+  const concurrency = Math.min(jobs.length, settings.concurrency ?? config.settings.concurrency ?? availableParallelism())
+  const setup: WorkerSetup = { options: serializeOptions(options), metadata }
+  let next = 0
+  let failed = 0
+
+  const lane = async (): Promise<void> => {
+    const thread = workerUrl && concurrency > 1 ? threadRunner(workerUrl, setup) : undefined
+    try {
+      while (next < jobs.length) {
+        const job = jobs[next++]
+        const start = performance.now()
+        try {
+          await (thread ? thread.run(job) : processImageFile(job, options, metadata))
+          io.out(`${job.input} -> ${job.output} (${Math.round(performance.now() - start)} ms)`)
+        }
+        catch (error) {
+          failed++
+          io.err(`${job.input}: ${(error as Error).message}`)
+        }
+      }
+    }
+    finally {
+      await thread?.close()
+    }
+  }
+  await Promise.all(Array.from({ length: Math.max(1, concurrency) }, lane))
+
+  if (jobs.length > 1) {
+    io.out(`${jobs.length - failed} of ${jobs.length} images written${failed ? `, ${failed} failed` : ''}`)
+  }
+  return failed ? 1 : 0
+}
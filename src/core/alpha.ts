@@ -0,0 +1,151 @@
+/**
+ * Alpha channel helpers.
+ *
+ * Opaque images skip all of these (every helper returns its input or null),
+ * so the alpha-aware paths cost one scan of the alpha channel.
+ */
+
+import { PixelImageData } from './imageData'
+
+export function hasTransparency(imageData: PixelImageData): boolean {
+  const { data } = imageData
+  for (let p = 3; p < data.length; p += 4) {
+    if (data[p] !== 255) {
+      return true
+    }
+  }
+  return false
+}
+
+/**
+ * Multiply color by alpha, so morphology and blending move color together
+ * with coverage instead of smearing it into transparent pixels.
+ */
+export function premultiplyAlpha(imageData: PixelImageData): PixelImageData {
+  const src = imageData.data
+  const out = new Uint8ClampedArray(src.length)
+  for (let p = 0; p < src.length; p += 4) {
+    const alpha = src[p + 3] / 255
+    out[p] = src[p] * alpha
+    out[p + 1] = src[p + 1] * alpha
+    out[p + 2] = src[p + 2] * alpha
+    out[p + 3] = src[p + 3]
+  }
+  return new PixelImageData(imageData.width, imageData.height, out)
+}
+
+export function unpremultiplyAlpha(imageData: PixelImageData): PixelImageData {
+  const src = imageData.data
+  const out = new Uint8ClampedArray(src.length)
+  for (let p = 0; p < src.length; p += 4) {
+    const alpha = src[p + 3]
+    if (alpha === 0) {
+      continue
+    }
+    const scale = 255 / alpha
+    out[p] = src[p] * scale
+    out[p + 1] = src[p + 1] * scale
+    out[p + 2] = src[p + 2] * scale
+    out[p + 3] = alpha
+  }
+  return new PixelImageData(imageData.width, imageData.height, out)
+}
+
+/**
+ * 1-bit transparency: alpha >= threshold becomes opaque, everything else
+ * fully transparent black. Opaque images are returned as-is.
+ */
+export function applyAlphaThreshold(imageData: PixelImageData, threshold: number = 128): PixelImageData {
+  if (!hasTransparency(imageData)) {
+    return imageData
+  }
+  const out = new Uint8ClampedArray(imageData.data)
+  for (let p = 0; p < out.length; p += 4) {
+    if (out[p + 3] >= threshold) {
+      out[p + 3] = 255
+    }
+    else {
+      out[p] = 0
+      out[p + 1] = 0
+      out[p + 2] = 0
+      out[p + 3] = 0
+    }
+  }
+  return new PixelImageData(imageData.width, imageData.height, out)
+}
+
+/**
+ * Prepare Lab planes of an RGBA image for patch statistics on an
+ * `outW` × `outH` grid (same patch bounds as the downscalers). Within each
+ * patch, fully transparent pixels take the alpha-weighted mean Lab of the
+ * patch, so they neither add structure nor pull medians toward the color
+ * hidden under alpha 0.
+ *
+ * Returns the mean alpha of every cell, or null when the image is opaque
+ * (planes left untouched).
+ *
+ * For banded use, `data` and the planes may hold only the source rows of
+ * output rows [`oyStart`, `oyEnd`), starting at source row `rowOffset`;
+ * `h` stays the full height and the coverage covers the band's cells.
+ */
+export function maskTransparentPatches(
+  planes: { l: Float32Array, a: Float32Array, b: Float32Array },
+  data: Uint8ClampedArray,
+  w: number,
+  h: number,
+  outW: number,
+  outH: number,
+  oyStart: number = 0,
+  oyEnd: number = outH,
+  rowOffset: number = 0,
+): Uint8ClampedArray | null {
+  if (!hasTransparency(new PixelImageData(w, data.length / (4 * w), data))) {
+    return null
+  }
+  const { l, a, b } = planes
+  const coverage = new Uint8ClampedArray(outW * (oyEnd - oyStart))
+
+  for (let oy = oyStart; oy < oyEnd; oy++) {
+    const y0 = Math.floor(oy * h / outH)
+    const y1 = Math.max(y0 + 1, Math.floor((oy + 1) * h / outH))
+    for (let ox = 0; ox < outW; ox++) {
+      const x0 = Math.floor(ox * w / outW)
+      const x1 = Math.max(x0 + 1, Math.floor((ox + 1) * w / outW))
+
+      let alphaSum = 0
+      let sumL = 0
+      let sumA = 0
+      let sumB = 0
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const idx = (y - rowOffset) * w + x
+          const alpha = data[idx * 4 + 3]
+          alphaSum += alpha
+          sumL += l[idx] * alpha
+          sumA += a[idx] * alpha
+          sumB += b[idx] * alpha
+        }
+      }
+      coverage[(oy - oyStart) * outW + ox] = alphaSum / ((x1 - x0) * (y1 - y0))
+      if (alphaSum === 0) {
+        continue
+      }
+
+      const meanL = sumL / alphaSum
+      const meanA = sumA / alphaSum
+      const meanB = sumB / alphaSum
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const idx = (y - rowOffset) * w + x
+          if (data[idx * 4 + 3] === 0) {
+            l[idx] = meanL
+            a[idx] = meanA
+            b[idx] = meanB
+          }
+        }
+      }
+    }
+  }
+
+  return coverage
+}
@@ -0,0 +1,229 @@
+import type { PixelImageData } from './imageData'
+import { ByteWriter } from './byteWriter'
+import { indexColors, MAX_INDEXED_COLORS } from './colorIndex'
+import { deflate } from './zlib'
+
+/**
+ * Aseprite (.aseprite/.ase) writer: a single-frame sprite with one cel per
+ * layer and the palette, following Aseprite's file format spec
+ * (docs/ase-file-specs.md in the Aseprite repository).
+ */
+
+export interface AsepriteLayer {
+  name: string
+  image: PixelImageData
+  /** Default: true */
+  visible?: boolean
+  /** 0-255 (default: 255) */
+  opacity?: number
+}
+
+export interface AsepriteOptions {
+  /** Colors leading the sprite palette in this order, e.g. a `ColorPalette`'s */
+  colors?: readonly number[][]
+  /**
+   * Indexed color mode when the top layer fits a 256-color palette
+   * ('auto', the default), or always RGBA ('rgba'). Lower layers with
+   * colors outside that palette are mapped to its nearest colors.
+   */
+  colorMode?: 'auto' | 'rgba'
+  /** Frame duration in milliseconds (default: 100) */
+  duration?: number
+}
+
+const HEADER_MAGIC = 0xA5_E0
+const FRAME_MAGIC = 0xF1_FA
+const HEADER_SIZE = 128
+
+const CHUNK_LAYER = 0x20_04
+const CHUNK_CEL = 0x20_05
+const CHUNK_PALETTE = 0x20_19
+
+const LAYER_VISIBLE = 1
+const LAYER_EDITABLE = 2
+/** Cel type: zlib-compressed image */
+const CEL_COMPRESSED = 2
+
+function writeString(out: ByteWriter, text: string): void {
+  const bytes = new TextEncoder().encode(text)
+  out.word(bytes.length)
+  out.write(bytes)
+}
+
+/** Append a chunk: size and type header, then what `body` writes */
+function writeChunk(out: ByteWriter, type: number, body: (out: ByteWriter) => void): void {
+  const start = out.length
+  out.dword(0)
+  out.word(type)
+  body(out)
+  out.setDword(start, out.length - start)
+}
+
+/**
+ * Palette indices of a layer whose colors aren't all in `entries`: exact
+ * matches keep their entry, other colors take the nearest opaque one.
+ */
+function nearestIndices(image: PixelImageData, entries: readonly number[][], transparentIndex: number): Uint8Array {
+  const { data } = image
+  const indices = new Uint8Array(image.width * image.height)
+  const cache = new Map<number, number>()
+  for (const [i, [r, g, b, a]] of entries.entries()) {
+    cache.set(((a << 24) | (r << 16) | (g << 8) | b) >>> 0, i)
+  }
+  for (let i = 0, p = 0; p < data.length; i++, p += 4) {
+    if (data[p + 3] === 0) {
+      indices[i] = transparentIndex
+      continue
+    }
+    const key = ((data[p + 3] << 24) | (data[p] << 16) | (data[p + 1] << 8) | data[p + 2]) >>> 0
+    let index = cache.get(key)
+    if (index === undefined) {
+      let best = Infinity
+      for (const [e, [r, g, b, a]] of entries.entries()) {
+        const distance = (r - data[p]) ** 2 + (g - data[p + 1]) ** 2 + (b - data[p + 2]) ** 2
+        if (a !== 0 && distance < best) {
+          best = distance
+          index = e
+        }
+      }
+      index ??= transparentIndex
+      cache.set(key, index)
+    }
+    indices[i] = index
+  }
+  return indices
+}
+
+/**
+ * The sprite palette: indexed mode needs every layer's colors plus an
+ * entry for transparency (the header's transparent index). When the
+ * layers don't fit 256 entries together, the palette comes from the top
+ * layer and the layers below are mapped to its nearest colors; null when
+ * even the top layer doesn't fit.
+ */
+function indexedPalette(
+  images: PixelImageData[],
+  colors: readonly number[][],
+): { entries: number[][], indices: Uint8Array[], transparentIndex: number } | null {
+  const top = images.at(-1)!
+  const all = indexColors(images, colors)
+  const indexed = all ?? indexColors([top], colors)
+  if (!indexed) {
+    return null
+  }
+  const entries: number[][] = indexed.entries
+  let transparentIndex = entries.findIndex(entry => entry[3] === 0)
+  if (transparentIndex === -1) {
+    if (entries.length === MAX_INDEXED_COLORS) {
+      return null
+    }
+    transparentIndex = entries.length
+    entries.push([0, 0, 0, 0])
+  }
+  const indices = all
+    ? all.indices
+    : images.map((image, i) => i === images.length - 1 ? indexed.indices[0] : nearestIndices(image, entries, transparentIndex))
+  return { entries, indices, transparentIndex }
+}
+
+/**
+ * Encode layers (bottom to top, all the same size) as a one-frame
+ * Aseprite sprite. The palette starts with `colors`, followed by the
+ * other colors of the layers, or of the top layer alone when all of them
+ * don't fit.
+ */
+export function encodeAseprite(layers: readonly AsepriteLayer[], options: AsepriteOptions = {}): Uint8Array<ArrayBuffer> {
+  const { colors = [], colorMode = 'auto', duration = 100 } = options
+  if (layers.length === 0) {
+    throw new Error('Aseprite sprite needs at least one layer')
+  }
+  const { width, height } = layers[0].image
+  if (layers.some(({ image }) => image.width !== width || image.height !== height)) {
+    throw new Error(`Aseprite layers must all be ${width}x${height}`)
+  }
+
+  const images = layers.map(layer => layer.image)
+  const indexed = colorMode === 'auto' ? indexedPalette(images, colors) : null
+  const palette = indexed?.entries ?? indexColors(images.slice(-1), colors)?.entries ?? colors.map(([r, g, b]) => [r, g, b, 255])
+
+  const out = new ByteWriter()
+  // Header; the file size is patched in at the end
+  out.dword(0)
+  out.word(HEADER_MAGIC)
+  out.word(1) // frames
+  out.word(width)
+  out.word(height)
+  out.word(indexed ? 8 : 32) // color depth
+  out.dword(1) // flags: layer opacity is valid
+  out.word(duration) // deprecated speed
+  out.dword(0)
+  out.dword(0)
+  out.byte(indexed?.transparentIndex ?? 0)
+  out.write([0, 0, 0])
+  out.word(palette.length === MAX_INDEXED_COLORS ? 0 : palette.length)
+  out.byte(1) // pixel width
+  out.byte(1) // pixel height
+  out.word(0) // grid x
+  out.word(0) // grid y
+  out.word(16) // grid width
+  out.word(16) // grid height
+  out.write(new Uint8Array(HEADER_SIZE - out.length))
+
+  const frameStart = out.length
+  const chunkCount = layers.length * 2 + (palette.length > 0 ? 1 : 0)
+  out.dword(0) // frame size, patched below
+  out.word(FRAME_MAGIC)
+  out.word(Math.min(chunkCount, 0xFF_FF))
+  out.word(duration)
+  out.write([0, 0])
+  out.dword(chunkCount)
+
+  if (palette.length > 0) {
+    writeChunk(out, CHUNK_PALETTE, (chunk) => {
+      chunk.dword(palette.length)
+      chunk.dword(0) // first index
+      chunk.dword(palette.length - 1) // last index
+      chunk.write(new Uint8Array(8))
+      for (const [r, g, b, a] of palette) {
+        chunk.word(0) // no name
+        chunk.write([r, g, b, a])
+      }
+    })
+  }
+
+  for (const layer of layers) {
+    writeChunk(out, CHUNK_LAYER, (chunk) => {
+      chunk.word(LAYER_EDITABLE | (layer.visible === false ? 0 : LAYER_VISIBLE))
+      chunk.word(0) // normal layer
+      chunk.word(0) // child level
+      chunk.word(0) // default width (ignored)
+      chunk.word(0) // default height (ignored)
+      chunk.word(0) // blend mode: normal
+      chunk.byte(layer.opacity ?? 255)
+      chunk.write([0, 0, 0])
+      writeString(chunk, layer.name)
+    })
+  }
+
+  for (const [index, { image }] of layers.entries()) {
+    writeChunk(out, CHUNK_CEL, (chunk) => {
+      chunk.word(index)
+      chunk.word(0) // x
+      chunk.word(0) // y
+      chunk.byte(255) // opacity
+      chunk.word(CEL_COMPRESSED)
+      chunk.word(0) // z-index
+      chunk.write(new Uint8Array(5))
+      chunk.word(width)
+      chunk.word(height)
+      const pixels = indexed
+        ? indexed.indices[index]
+        : new Uint8Array(image.data.buffer, image.data.byteOffset, image.data.length)
+      chunk.write(deflate(pixels))
+    })
+  }
+
+  out.setDword(frameStart, out.length - frameStart)
+  out.setDword(0, out.length)
+  return out.result()
+}
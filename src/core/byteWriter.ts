@@ -0,0 +1,56 @@
+/**
+ * Growable little-endian byte buffer for the binary file writers (GIF,
+ * Aseprite).
+ */
+export class ByteWriter {
+  private bytes = new Uint8Array(1024)
+  length = 0
+
+  byte(value: number): void {
+    this.reserve(1)
+    this.bytes[this.length++] = value
+  }
+
+  /** Unsigned 16-bit */
+  word(value: number): void {
+    this.byte(value & 0xFF)
+    this.byte((value >> 8) & 0xFF)
+  }
+
+  /** Unsigned 32-bit */
+  dword(value: number): void {
+    this.word(value & 0xFF_FF)
+    this.word(value >>> 16)
+  }
+
+  /** Overwrite a 32-bit value written earlier, e.g. a size known only at the end */
+  setDword(offset: number, value: number): void {
+    for (let i = 0; i < 4; i++) {
+      this.bytes[offset + i] = (value >>> (i * 8)) & 0xFF
+    }
+  }
+
+  write(values: Iterable<number>): void {
+    if (values instanceof Uint8Array) {
+      this.reserve(values.length)
+      this.bytes.set(values, this.length)
+      this.length += values.length
+      return
+    }
+    for (const value of values) {
+      this.byte(value)
+    }
+  }
+
+  result(): Uint8Array<ArrayBuffer> {
+    return this.bytes.slice(0, this.length)
+  }
+
+  private reserve(extra: number): void {
+    if (this.length + extra > this.bytes.length) {
+      const grown = new Uint8Array(Math.max(this.bytes.length * 2, this.length + extra))
+      grown.set(this.bytes)
+      this.bytes = grown
+    }
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Cancellation and progress reporting shared by the pipeline and the
+ * worker-parallel stages.
+ */
+
+/**
+ * Built-in pipeline stages, in execution order. Progress callbacks receive
+ * a stage name together with a completion fraction in [0, 1].
+ */
+export type PixelOEStage
+  = | 'preprocess'
+    | 'outline'
+    | 'sharpen'
+    | 'colorMatch'
+    | 'downscale'
+    | 'quantize'
+    | 'styling'
+    | 'upscale'
+
+/** A built-in stage or a custom one inserted into the pipeline. */
+export type StageName = PixelOEStage | (string & {})
+
+export type ProgressCallback = (stage: StageName, fraction: number) => void
+
+/**
+ * Signal/progress pair handed to long-running async helpers. `onProgress`
+ * reports the fraction of the helper's own work that is done.
+ */
+export interface TaskControl {
+  signal?: AbortSignal
+  onProgress?: (fraction: number) => void
+}
+
+/**
+ * Rejection value of an aborted pixelize run. `cause` carries the
+ * signal's abort reason.
+ */
+export class PixelOEAbortError extends Error {
+  constructor(reason?: unknown) {
+    super('PixelOE processing was aborted', reason === undefined ? undefined : { cause: reason })
+    this.name = 'PixelOEAbortError'
+  }
+}
+
+export function isAbortError(error: unknown): error is PixelOEAbortError {
+  return error instanceof PixelOEAbortError
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new PixelOEAbortError(signal.reason)
+  }
+}
@@ -0,0 +1,74 @@
+import type { PixelImageData } from './imageData'
+
+/**
+ * Color tables for the indexed formats (PNG, GIF): map the RGBA values of
+ * one or more images to palette indices, keeping a given palette's order
+ * so engines and palette-swap shaders can rely on the indices.
+ */
+
+/** Largest color table an indexed PNG or GIF can hold */
+export const MAX_INDEXED_COLORS = 256
+
+export interface IndexedColors {
+  /** Palette entries as RGBA bytes */
+  entries: [number, number, number, number][]
+  /** Per-image entry index of every pixel */
+  indices: Uint8Array[]
+}
+
+/**
+ * Index `images` into one shared table: `colors` (RGB, e.g. a
+ * `ColorPalette`'s) first, one entry per slot so table indices match
+ * palette indices — unused and duplicate slots included, pixels taking
+ * the first matching slot — then every other value in order of first
+ * appearance. Fully transparent pixels share one entry. Null when more
+ * than `maxColors` entries are needed.
+ */
+export function indexColors(
+  images: readonly PixelImageData[],
+  colors: readonly number[][] = [],
+  maxColors: number = MAX_INDEXED_COLORS,
+): IndexedColors | null {
+  const lookup = new Map<number, number>()
+  const keys: number[] = []
+  const add = (key: number): number => {
+    lookup.set(key, keys.length)
+    keys.push(key)
+    return keys.length - 1
+  }
+  if (colors.length > maxColors) {
+    return null
+  }
+  for (const [r, g, b] of colors) {
+    const key = ((255 << 24) | (r << 16) | (g << 8) | b) >>> 0
+    if (lookup.has(key)) {
+      keys.push(key)
+    }
+    else {
+      add(key)
+    }
+  }
+
+  const indices: Uint8Array[] = []
+  for (const { width, height, data } of images) {
+    const imageIndices = new Uint8Array(width * height)
+    for (let i = 0, p = 0; p < data.length; i++, p += 4) {
+      const alpha = data[p + 3]
+      const key = alpha === 0 ? 0 : ((alpha << 24) | (data[p] << 16) | (data[p + 1] << 8) | data[p + 2]) >>> 0
+      let index = lookup.get(key)
+      if (index === undefined) {
+        if (keys.length === maxColors) {
+          return null
+        }
+        index = add(key)
+      }
+      imageIndices[i] = index
+    }
+    indices.push(imageIndices)
+  }
+
+  return {
+    entries: keys.map(key => [(key >> 16) & 0xFF, (key >> 8) & 0xFF, key & 0xFF, key >>> 24]),
+    indices,
+  }
+}
@@ -1,4 +1,7 @@
+import type { DownscaleTarget } from './grid'
+import { maskTransparentPatches } from './alpha'
 import { contrastDownscale } from './downscale'
+import { prepareDownscaleGrid } from './grid'
 import { PixelImageData } from './imageData'
 import { labToRgb255, rgbaToLabPlanes } from './planes'
 
@@ -311,15 +314,12 @@ function removeDoubles(mask: Uint8Array, w: number, h: number): void {
 }
 
 export function contourDownscale(
-  imageData: PixelImageData,
-  targetSize: number = 128,
+  source: PixelImageData,
+  target: DownscaleTarget = 128,
   options: ContourDownscaleOptions = {},
 ): PixelImageData {
+  const { image: imageData, width: outW, height: outH } = prepareDownscaleGrid(source, target)
   const { width: w, height: h } = imageData
-  const ratio = w / h
-  const adjustedTargetSize = Math.sqrt((targetSize * targetSize) / ratio)
-  const outW = Math.max(1, Math.floor(adjustedTargetSize * ratio))
-  const outH = Math.max(1, Math.floor(adjustedTargetSize))
   const patch = Math.max(1, Math.round(w / outW))
 
   const {
@@ -330,7 +330,9 @@ export function contourDownscale(
     minStroke = 4,
   } = options
 
-  const { l, a, b } = rgbaToLabPlanes(imageData.data, w, h)
+  const planes = rgbaToLabPlanes(imageData.data, w, h)
+  const { l, a, b } = planes
+  maskTransparentPatches(planes, imageData.data, w, h, outW, outH)
   const bg = boxBackground(l, w, h, medianRadius)
 
   // ---- Base layer: box average per output cell ---------------------------
@@ -466,7 +468,7 @@ export function contourDownscale(
   }
 
   // ---- Composite: greedy base + redrawn strokes ---------------------------
-  const result = contrastDownscale(imageData, targetSize)
+  const result = contrastDownscale(imageData, { targetWidth: outW, targetHeight: outH, fit: 'fill' })
   const out = result.data
   for (let c = 0; c < nCells; c++) {
     let L = Number.NaN
@@ -491,7 +493,6 @@ export function contourDownscale(
       out[c * 4] = r
       out[c * 4 + 1] = g
       out[c * 4 + 2] = bRgb
-      out[c * 4 + 3] = 255
     }
   }
 
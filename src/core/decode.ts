@@ -0,0 +1,51 @@
+/**
+ * DOM-free decoding of encoded image files into {@link PixelImageData}.
+ */
+
+import type { PixelImageData } from './imageData'
+import { decodeJpeg, isJpeg } from './jpeg'
+import { decodePng, isPng } from './png'
+
+export type ImageFormat = 'png' | 'jpeg' | 'webp' | 'gif' | 'unknown'
+
+/** Identify an encoded image by its signature. */
+export function detectImageFormat(bytes: Uint8Array): ImageFormat {
+  if (isPng(bytes)) {
+    return 'png'
+  }
+  if (isJpeg(bytes)) {
+    return 'jpeg'
+  }
+  const ascii = (start: number, end: number): string => String.fromCodePoint(...bytes.subarray(start, end))
+  if (bytes.length >= 12 && ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') {
+    return 'webp'
+  }
+  if (bytes.length >= 6 && (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a')) {
+    return 'gif'
+  }
+  return 'unknown'
+}
+
+/**
+ * Decode a PNG or baseline JPEG file without canvas or `Image`, so it works
+ * in Node and in workers. Other formats throw; in a browser, load them
+ * through {@link PixelOE.loadImage} with a URL or `File` instead.
+ */
+export function decodeImage(data: ArrayBuffer | Uint8Array): PixelImageData {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data)
+  const format = detectImageFormat(bytes)
+  switch (format) {
+    case 'png': {
+      return decodePng(bytes)
+    }
+    case 'jpeg': {
+      return decodeJpeg(bytes)
+    }
+    case 'unknown': {
+      throw new Error('Unrecognized image format')
+    }
+    default: {
+      throw new Error(`Decoding ${format.toUpperCase()} needs a browser image decoder`)
+    }
+  }
+}
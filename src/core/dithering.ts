@@ -116,6 +116,9 @@ export function orderedDither(
         b,
         a,
       ] = imageData.getPixel(x, y)
+      if (a === 0) {
+        continue
+      }
       const threshold = thresholdPattern[y][x]
 
       // Find two nearest colors and their distance ratio
@@ -161,6 +164,10 @@ export function errorDiffusionDither(
         b,
         a,
       ] = result.getPixel(x, y)
+      if (a === 0) {
+        result.setPixel(x, y, [0, 0, 0, 0])
+        continue
+      }
 
       // Find nearest palette color
       const quantizedColor = findNearestPaletteColor([r, g, b], palette)
@@ -186,6 +193,9 @@ export function errorDiffusionDither(
             nb,
             na,
           ] = result.getPixel(nx, ny)
+          if (na === 0) {
+            continue
+          }
 
           // Add weighted error
           const newR = clamp(nr + errorR * weight, 0, 255)
@@ -231,6 +241,9 @@ export function applyDithering(
             b,
             a,
           ] = imageData.getPixel(x, y)
+          if (a === 0) {
+            continue
+          }
           const quantizedColor = findNearestPaletteColor([r, g, b], palette)
           result.setPixel(x, y, [quantizedColor[0], quantizedColor[1], quantizedColor[2], a])
         }
@@ -269,6 +282,10 @@ export function parallelErrorDiffusion(
         b,
         a,
       ] = result.getPixel(x, y)
+      if (a === 0) {
+        result.setPixel(x, y, [0, 0, 0, 0])
+        continue
+      }
       const quantizedColor = findNearestPaletteColor([r, g, b], palette)
 
       result.setPixel(x, y, [quantizedColor[0], quantizedColor[1], quantizedColor[2], a])
@@ -295,6 +312,9 @@ export function parallelErrorDiffusion(
               nb,
               na,
             ] = result.getPixel(nx, ny)
+            if (na === 0) {
+              continue
+            }
 
             const newR = clamp(nr + errorR * weight, 0, 255)
             const newG = clamp(ng + errorG * weight, 0, 255)
@@ -315,6 +335,10 @@ export function parallelErrorDiffusion(
           b,
           a,
         ] = result.getPixel(x, y + 1)
+        if (a === 0) {
+          result.setPixel(x, y + 1, [0, 0, 0, 0])
+          continue
+        }
         const quantizedColor = findNearestPaletteColor([r, g, b], palette)
         result.setPixel(x, y + 1, [quantizedColor[0], quantizedColor[1], quantizedColor[2], a])
       }
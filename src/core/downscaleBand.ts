@@ -0,0 +1,203 @@
+import { maskTransparentPatches } from './alpha'
+import { labToRgb255, rgbaToLabPlanes } from './planes'
+
+/**
+ * Band-local processing for the contrast downscale.
+ *
+ * Every output pixel depends only on its own source patch, so a range of
+ * output rows needs just the source rows those patches cover. That makes
+ * the downscale splittable into horizontal bands processed independently
+ * (e.g. on a worker pool) or one after another (tiled mode).
+ */
+
+/**
+ * In-place quickselect: after the call, scratch[k] holds the k-th order
+ * statistic and everything left of k is <= scratch[k].
+ */
+function quickselect(scratch: Float32Array, n: number, k: number): number {
+  let left = 0
+  let right = n - 1
+
+  while (right > left) {
+    // Insertion sort for small partitions
+    if (right - left < 12) {
+      for (let i = left + 1; i <= right; i++) {
+        const v = scratch[i]
+        let j = i - 1
+        while (j >= left && scratch[j] > v) {
+          scratch[j + 1] = scratch[j]
+          j--
+        }
+        scratch[j + 1] = v
+      }
+      return scratch[k]
+    }
+
+    // Median-of-three pivot
+    const mid = (left + right) >> 1
+    if (scratch[mid] < scratch[left]) {
+      const t = scratch[mid]
+      scratch[mid] = scratch[left]
+      scratch[left] = t
+    }
+    if (scratch[right] < scratch[left]) {
+      const t = scratch[right]
+      scratch[right] = scratch[left]
+      scratch[left] = t
+    }
+    if (scratch[right] < scratch[mid]) {
+      const t = scratch[right]
+      scratch[right] = scratch[mid]
+      scratch[mid] = t
+    }
+    const pivot = scratch[mid]
+
+    let i = left
+    let j = right
+    while (i <= j) {
+      while (scratch[i] < pivot) {
+        i++
+      }
+      while (scratch[j] > pivot) {
+        j--
+      }
+      if (i <= j) {
+        const t = scratch[i]
+        scratch[i] = scratch[j]
+        scratch[j] = t
+        i++
+        j--
+      }
+    }
+
+    if (k <= j) {
+      right = j
+    }
+    else if (k >= i) {
+      left = i
+    }
+    else {
+      return scratch[k]
+    }
+  }
+
+  return scratch[k]
+}
+
+/** Median of the first `n` elements of a scratch buffer (reorders in place). */
+export function medianOfScratch(scratch: Float32Array, n: number): number {
+  const mid = n >> 1
+  const upper = quickselect(scratch, n, mid)
+  if (n % 2 === 1) {
+    return upper
+  }
+  // Even count: the lower middle is the max of the left partition
+  let lower = scratch[0]
+  for (let i = 1; i < mid; i++) {
+    if (scratch[i] > lower) {
+      lower = scratch[i]
+    }
+  }
+  return (lower + upper) / 2
+}
+
+/**
+ * Source rows [start, end) covered by the patches of output rows
+ * [`oyStart`, `oyEnd`) when `h` rows are downscaled to `outH`.
+ */
+export function downscaleSourceRows(h: number, outH: number, oyStart: number, oyEnd: number): [number, number] {
+  const start = Math.floor(oyStart * h / outH)
+  const end = Math.min(h, Math.max(Math.floor((oyEnd - 1) * h / outH) + 1, Math.floor(oyEnd * h / outH)))
+  return [start, end]
+}
+
+/**
+ * Compute output rows [`oyStart`, `oyEnd`) of the `outW` × `outH` grid for
+ * a `w` × `h` source. `bandData` holds only the source rows those patches
+ * cover (see {@link downscaleSourceRows}), starting at row `rowStart`; the
+ * rows are written to the start of `out`.
+ */
+export function contrastDownscaleBand(
+  bandData: Uint8ClampedArray,
+  w: number,
+  h: number,
+  rowStart: number,
+  outW: number,
+  outH: number,
+  oyStart: number,
+  oyEnd: number,
+  out: Uint8ClampedArray = new Uint8ClampedArray(outW * (oyEnd - oyStart) * 4),
+): Uint8ClampedArray {
+  const planes = rgbaToLabPlanes(bandData, w, bandData.length / (4 * w))
+  const coverage = maskTransparentPatches(planes, bandData, w, h, outW, outH, oyStart, oyEnd, rowStart)
+  const { l, a, b } = planes
+
+  // Scratch buffers sized for the largest possible patch
+  const maxPatchW = Math.ceil(w / outW) + 1
+  const maxPatchH = Math.ceil(h / outH) + 1
+  const maxPatch = maxPatchW * maxPatchH
+  const lScratch = new Float32Array(maxPatch)
+  const aScratch = new Float32Array(maxPatch)
+  const bScratch = new Float32Array(maxPatch)
+
+  for (let oy = oyStart; oy < oyEnd; oy++) {
+    const y0 = Math.floor(oy * h / outH)
+    const y1 = Math.max(y0 + 1, Math.floor((oy + 1) * h / outH))
+
+    for (let ox = 0; ox < outW; ox++) {
+      const x0 = Math.floor(ox * w / outW)
+      const x1 = Math.max(x0 + 1, Math.floor((ox + 1) * w / outW))
+
+      let n = 0
+      let sum = 0
+      let minL = Infinity
+      let maxL = -Infinity
+
+      for (let y = y0; y < y1; y++) {
+        const row = (y - rowStart) * w
+        for (let x = x0; x < x1; x++) {
+          const idx = row + x
+          const lv = l[idx]
+          lScratch[n] = lv
+          aScratch[n] = a[idx]
+          bScratch[n] = b[idx]
+          n++
+          sum += lv
+          if (lv < minL) {
+            minL = lv
+          }
+          if (lv > maxL) {
+            maxL = lv
+          }
+        }
+      }
+
+      // Center pixel of the patch (flattened middle, matching the reference)
+      const centerL = lScratch[n >> 1]
+      const meanL = sum / n
+      const medianA = medianOfScratch(aScratch, n)
+      const medianB = medianOfScratch(bScratch, n)
+      const medianL = medianOfScratch(lScratch, n) // sorts lScratch — read centerL first
+
+      let selectedL = centerL
+      if (medianL < meanL && (maxL - medianL) > (medianL - minL)) {
+        selectedL = minL
+      }
+      else if (medianL > meanL && (maxL - medianL) < (medianL - minL)) {
+        selectedL = maxL
+      }
+
+      const [
+        r,
+        g,
+        bRgb,
+      ] = labToRgb255(selectedL, medianA, medianB)
+      const outIdx = ((oy - oyStart) * outW + ox) * 4
+      out[outIdx] = r
+      out[outIdx + 1] = g
+      out[outIdx + 2] = bRgb
+      out[outIdx + 3] = coverage ? coverage[(oy - oyStart) * outW + ox] : 255
+    }
+  }
+  return out
+}
@@ -1,3 +1,6 @@
+import type { DownscaleTarget } from './grid'
+import { maskTransparentPatches } from './alpha'
+import { prepareDownscaleGrid } from './grid'
 import { PixelImageData } from './imageData'
 import { labToRgb255, rgbaToLabPlanes } from './planes'
 
@@ -196,19 +199,18 @@ function medianInPlace(values: Float32Array, n: number): number {
 }
 
 export function contrastDownscaleMRF(
-  imageData: PixelImageData,
-  targetSize: number = 128,
+  source: PixelImageData,
+  target: DownscaleTarget = 128,
   options: MRFDownscaleOptions = {},
 ): PixelImageData {
   const { tau = 28, lambda = 2.5, linkGate = 12, aa = false, rescue = false } = options
+  const { image: imageData, width: outW, height: outH } = prepareDownscaleGrid(source, target)
   const { width: w, height: h } = imageData
-  const ratio = w / h
-  const adjustedTargetSize = Math.sqrt((targetSize * targetSize) / ratio)
-  const outW = Math.max(1, Math.floor(adjustedTargetSize * ratio))
-  const outH = Math.max(1, Math.floor(adjustedTargetSize))
   const nPatches = outW * outH
 
-  const { l, a, b } = rgbaToLabPlanes(imageData.data, w, h)
+  const planes = rgbaToLabPlanes(imageData.data, w, h)
+  const { l, a, b } = planes
+  const coverage = maskTransparentPatches(planes, imageData.data, w, h, outW, outH)
 
   const f: PatchFeatures = {
     minL: new Float32Array(nPatches),
@@ -541,7 +543,7 @@ export function contrastDownscaleMRF(
     out[p * 4] = r
     out[p * 4 + 1] = g
     out[p * 4 + 2] = bRgb
-    out[p * 4 + 3] = 255
+    out[p * 4 + 3] = coverage ? coverage[p] : 255
   }
 
   // Expose labels for analysis/tests
@@ -0,0 +1,203 @@
+import { applyAlphaThreshold } from './alpha'
+import { ByteWriter } from './byteWriter'
+import { indexColors } from './colorIndex'
+import { PixelImageData } from './imageData'
+
+/**
+ * GIF89a encoder for single images and animations, without DOM
+ * dependencies. Frames are written with their exact colors — quantize or
+ * apply a palette first; a frame (or with a global table, the whole
+ * sequence) can hold at most 256 colors.
+ */
+
+export interface GifFrame {
+  image: PixelImageData
+  /** Display time in milliseconds, stored in hundredths of a second (default: `GifOptions.delay`) */
+  delay?: number
+}
+
+export interface GifOptions {
+  /** Default frame display time in milliseconds (default: 100) */
+  delay?: number
+  /** `true` (default) loops forever, `false` plays once, a number repeats that many times after the first play */
+  loop?: boolean | number
+  /** Colors leading the color table(s) in this order, e.g. a `ColorPalette`'s */
+  colors?: readonly number[][]
+  /**
+   * One color table for all frames ('global'), one per frame ('local'), or
+   * global when the frames fit 256 colors together ('auto', the default)
+   */
+  palette?: 'auto' | 'global' | 'local'
+  /** GIF has no partial alpha: pixels below this alpha become transparent, the rest opaque (default: 128) */
+  alphaThreshold?: number
+}
+
+/** Largest LZW code (12 bits) */
+const MAX_LZW_CODE = 4096
+
+/** Bits needed for a color table of `count` entries (at least 2 entries) */
+function tableBits(count: number): number {
+  let bits = 1
+  while (1 << bits < count) {
+    bits++
+  }
+  return bits
+}
+
+/** Color table padded to a power of two */
+function writeColorTable(out: ByteWriter, entries: readonly number[][]): void {
+  const size = 1 << tableBits(entries.length)
+  for (let i = 0; i < size; i++) {
+    const [r, g, b] = entries[i] ?? [0, 0, 0]
+    out.write([r, g, b])
+  }
+}
+
+/**
+ * LZW-compress indices into the GIF image data (minimum code size byte,
+ * then sub-blocks of at most 255 bytes and the terminator).
+ */
+function writeLzw(out: ByteWriter, indices: Uint8Array, minCodeSize: number): void {
+  const clearCode = 1 << minCodeSize
+  const endCode = clearCode + 1
+  const packed = new ByteWriter()
+  let codeSize = minCodeSize + 1
+  let nextCode = endCode + 1
+  let codes = new Map<number, number>()
+  let bitBuffer = 0
+  let bitCount = 0
+  const emit = (code: number): void => {
+    bitBuffer |= code << bitCount
+    bitCount += codeSize
+    while (bitCount >= 8) {
+      packed.byte(bitBuffer & 0xFF)
+      bitBuffer >>>= 8
+      bitCount -= 8
+    }
+  }
+
+  emit(clearCode)
+  let prefix = indices[0]
+  for (let i = 1; i < indices.length; i++) {
+    const index = indices[i]
+    const key = (prefix << 8) | index
+    const code = codes.get(key)
+    if (code !== undefined) {
+      prefix = code
+      continue
+    }
+    emit(prefix)
+    if (nextCode === MAX_LZW_CODE) {
+      // Table full: start over rather than keep coding with stale strings
+      emit(clearCode)
+      codes = new Map()
+      codeSize = minCodeSize + 1
+      nextCode = endCode + 1
+    }
+    else {
+      if (nextCode >= 1 << codeSize) {
+        codeSize++
+      }
+      codes.set(key, nextCode++)
+    }
+    prefix = index
+  }
+  emit(prefix)
+  emit(endCode)
+  if (bitCount > 0) {
+    packed.byte(bitBuffer & 0xFF)
+  }
+
+  const data = packed.result()
+  out.byte(minCodeSize)
+  for (let offset = 0; offset < data.length; offset += 255) {
+    const block = data.subarray(offset, offset + 255)
+    out.byte(block.length)
+    out.write(block)
+  }
+  out.byte(0)
+}
+
+function toFrame(frame: PixelImageData | GifFrame): GifFrame {
+  return frame instanceof PixelImageData ? { image: frame } : frame
+}
+
+/**
+ * Encode frames as a GIF89a file: one frame is a still image, more an
+ * animation. All frames must have the same size. Fully transparent pixels
+ * share the transparency index, and frames are disposed to the background
+ * so transparent areas don't show the previous frame.
+ *
+ * Throws when a frame has more than 256 colors, or with
+ * `palette: 'global'` when the frames do together.
+ */
+export function encodeGif(frames: readonly (PixelImageData | GifFrame)[], options: GifOptions = {}): Uint8Array<ArrayBuffer> {
+  const { delay = 100, loop = true, colors = [], palette = 'auto', alphaThreshold = 128 } = options
+  const sequence = frames.map(toFrame)
+  if (sequence.length === 0) {
+    throw new Error('GIF needs at least one frame')
+  }
+  const { width, height } = sequence[0].image
+  if (sequence.some(({ image }) => image.width !== width || image.height !== height)) {
+    throw new Error(`GIF frames must all be ${width}x${height}`)
+  }
+  const images = sequence.map(({ image }) => applyAlphaThreshold(image, alphaThreshold))
+
+  const global = palette === 'local' ? null : indexColors(images, colors)
+  if (!global && palette === 'global') {
+    throw new Error('GIF frames have more than 256 colors together; use local palettes or quantize them')
+  }
+  const tables = global
+    ? images.map((_, i) => ({ entries: global.entries, indices: global.indices[i] }))
+    : images.map((image, i) => {
+        const local = indexColors([image], colors)
+        if (!local) {
+          throw new Error(`GIF frame ${i} has more than 256 colors; quantize it first`)
+        }
+        return { entries: local.entries, indices: local.indices[0] }
+      })
+  const transparent = tables.some(({ entries }) => entries.some(entry => entry[3] === 0))
+
+  const out = new ByteWriter()
+  out.write([...'GIF89a'].map(ch => ch.charCodeAt(0)))
+  // Logical screen descriptor: 8-bit color resolution, global table if any
+  out.word(width)
+  out.word(height)
+  out.byte(global ? 0xF0 | (tableBits(global.entries.length) - 1) : 0x70)
+  out.byte(0)
+  out.byte(0)
+  if (global) {
+    writeColorTable(out, global.entries)
+  }
+
+  if (sequence.length > 1 && loop !== false) {
+    // NETSCAPE2.0 application extension: loop count, 0 = forever
+    out.write([0x21, 0xFF, 11, ...[...'NETSCAPE2.0'].map(ch => ch.charCodeAt(0)), 3, 1])
+    out.word(loop === true ? 0 : Math.max(0, Math.min(0xFF_FF, Math.round(loop))))
+    out.byte(0)
+  }
+
+  for (const [i, { entries, indices }] of tables.entries()) {
+    const transparentIndex = entries.findIndex(entry => entry[3] === 0)
+    // Graphic control extension: disposal, delay, transparency
+    out.write([0x21, 0xF9, 4, ((transparent ? 2 : 1) << 2) | (transparentIndex === -1 ? 0 : 1)])
+    out.word(Math.max(0, Math.min(0xFF_FF, Math.round((sequence[i].delay ?? delay) / 10))))
+    out.byte(Math.max(0, transparentIndex))
+    out.byte(0)
+
+    // Image descriptor, full frame, local table when there's no global one
+    out.byte(0x2C)
+    out.word(0)
+    out.word(0)
+    out.word(width)
+    out.word(height)
+    out.byte(global ? 0 : 0x80 | (tableBits(entries.length) - 1))
+    if (!global) {
+      writeColorTable(out, entries)
+    }
+    writeLzw(out, indices, Math.max(2, tableBits(entries.length)))
+  }
+
+  out.byte(0x3B)
+  return out.result()
+}
@@ -0,0 +1,99 @@
+/**
+ * Output grid sizing shared by the downscale methods and the target resize
+ */
+
+import { PixelImageData } from './imageData'
+
+/**
+ * How an exact `targetWidth` × `targetHeight` grid handles an aspect
+ * mismatch with the source:
+ * - `fill`: stretch the source over the whole grid (non-square patches)
+ * - `crop`: center-crop the source to the grid's aspect ratio
+ * - `fit`: keep the aspect ratio; the grid shrinks along one axis to the
+ *   largest size that fits inside the requested box
+ */
+export type FitPolicy = 'fit' | 'fill' | 'crop'
+
+export interface GridTarget {
+  targetSize?: number // Area-based size: output area ≈ targetSize²
+  targetWidth?: number // Exact grid width (height follows the aspect ratio when omitted)
+  targetHeight?: number // Exact grid height (width follows the aspect ratio when omitted)
+  fit?: FitPolicy // Aspect mismatch policy when both are given (default: 'fit')
+}
+
+/**
+ * What every downscale method accepts: a legacy area-based `targetSize` or
+ * an explicit grid target.
+ */
+export type DownscaleTarget = number | GridTarget
+
+export interface GridSize {
+  width: number
+  height: number
+  /** Source region the grid covers; the whole image unless cropping */
+  crop: { x: number, y: number, width: number, height: number }
+}
+
+/**
+ * Resolve the output grid for a `width` × `height` source.
+ */
+export function resolveGridSize(width: number, height: number, target: DownscaleTarget = 128): GridSize {
+  const whole = { x: 0, y: 0, width, height }
+  const { targetSize = 128, targetWidth, targetHeight, fit = 'fit' } = typeof target === 'number' ? { targetSize: target } : target
+  const ratio = width / height
+
+  if (!targetWidth && !targetHeight) {
+    const adjustedTargetSize = Math.sqrt((targetSize * targetSize) / ratio)
+    return {
+      width: Math.max(1, Math.floor(adjustedTargetSize * ratio)),
+      height: Math.max(1, Math.floor(adjustedTargetSize)),
+      crop: whole,
+    }
+  }
+  if (!targetHeight) {
+    return { width: targetWidth!, height: Math.max(1, Math.round(targetWidth! / ratio)), crop: whole }
+  }
+  if (!targetWidth) {
+    return { width: Math.max(1, Math.round(targetHeight * ratio)), height: targetHeight, crop: whole }
+  }
+
+  if (fit === 'fill') {
+    return { width: targetWidth, height: targetHeight, crop: whole }
+  }
+  const targetRatio = targetWidth / targetHeight
+  if (fit === 'fit') {
+    return ratio > targetRatio
+      ? { width: targetWidth, height: Math.max(1, Math.min(targetHeight, Math.round(targetWidth / ratio))), crop: whole }
+      : { width: Math.max(1, Math.min(targetWidth, Math.round(targetHeight * ratio))), height: targetHeight, crop: whole }
+  }
+
+  // crop: the largest centered region with the grid's aspect ratio
+  const cropW = ratio > targetRatio ? Math.max(1, Math.round(height * targetRatio)) : width
+  const cropH = ratio > targetRatio ? height : Math.max(1, Math.round(width / targetRatio))
+  return {
+    width: targetWidth,
+    height: targetHeight,
+    crop: { x: (width - cropW) >> 1, y: (height - cropH) >> 1, width: cropW, height: cropH },
+  }
+}
+
+export function cropImage(imageData: PixelImageData, x: number, y: number, width: number, height: number): PixelImageData {
+  if (x === 0 && y === 0 && width === imageData.width && height === imageData.height) {
+    return imageData
+  }
+  const result = new PixelImageData(width, height)
+  for (let row = 0; row < height; row++) {
+    const start = ((y + row) * imageData.width + x) * 4
+    result.data.set(imageData.data.subarray(start, start + width * 4), row * width * 4)
+  }
+  return result
+}
+
+/**
+ * Resolve the grid and apply its crop, so callers can patch-map the
+ * returned image onto `width` × `height` cells directly.
+ */
+export function prepareDownscaleGrid(imageData: PixelImageData, target: DownscaleTarget): { image: PixelImageData, width: number, height: number } {
+  const { width, height, crop } = resolveGridSize(imageData.width, imageData.height, target)
+  return { image: cropImage(imageData, crop.x, crop.y, crop.width, crop.height), width, height }
+}
@@ -0,0 +1,177 @@
+/**
+ * Reading pixels from browser image sources and encoding through a canvas.
+ * Prefers `createImageBitmap` and `OffscreenCanvas`, so everything except
+ * `HTMLImageElement`/`HTMLCanvasElement`/`HTMLVideoElement` inputs also
+ * works inside a Worker.
+ */
+
+import { decodeImage, detectImageFormat } from './decode'
+import { PixelImageData } from './imageData'
+
+/** Anything {@link PixelOE.loadImage} accepts */
+export type ImageSource
+  = | string
+    | Blob
+    | ImageBitmap
+    | ImageData
+    | OffscreenCanvas
+    | HTMLImageElement
+    | HTMLCanvasElement
+    | HTMLVideoElement
+    | PixelImageData
+    | ArrayBuffer
+    | Uint8Array
+
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D
+
+/** `instanceof` for DOM classes that may not exist in the current realm (e.g. a Worker) */
+function isInstance<T>(value: unknown, name: string): value is T {
+  const ctor = (globalThis as Record<string, unknown>)[name]
+  return typeof ctor === 'function' && value instanceof ctor
+}
+
+function createContext(width: number, height: number): Context2D {
+  let ctx: Context2D | null
+  if (typeof OffscreenCanvas === 'undefined') {
+    const canvas = document.createElement('canvas')
+    canvas.width = width
+    canvas.height = height
+    ctx = canvas.getContext('2d')
+  }
+  else {
+    ctx = new OffscreenCanvas(width, height).getContext('2d')
+  }
+  if (!ctx) {
+    throw new Error('Failed to get canvas context')
+  }
+  return ctx
+}
+
+/** Rasterize a drawable source at its intrinsic size. */
+function drawToImageData(source: CanvasImageSource, width: number, height: number): PixelImageData {
+  if (width === 0 || height === 0) {
+    throw new Error('Image source has no pixels')
+  }
+  const ctx = createContext(width, height)
+  ctx.drawImage(source, 0, 0)
+  return PixelImageData.fromCanvasImageData(ctx.getImageData(0, 0, width, height))
+}
+
+async function loadUrl(url: string): Promise<PixelImageData> {
+  // No Image() in workers: fetch the bytes and decode those instead
+  if (typeof Image === 'undefined') {
+    const response = await fetch(url)
+    if (!response.ok) {
+      throw new Error(`Failed to load image (${response.status})`)
+    }
+    return loadBlob(await response.blob())
+  }
+
+  return new Promise((resolve, reject) => {
+    const img = new Image()
+    img.crossOrigin = 'anonymous'
+    img.addEventListener('load', () => {
+      try {
+        resolve(drawToImageData(img, img.naturalWidth, img.naturalHeight))
+      }
+      catch (error) {
+        reject(error)
+      }
+    })
+    img.addEventListener('error', () => reject(new Error('Failed to load image')))
+    img.src = url
+  })
+}
+
+/**
+ * Decode a Blob/File with `createImageBitmap` (no data URL round trip).
+ * Without it, PNG and baseline JPEG use the built-in decoders and anything
+ * else an object URL.
+ */
+async function loadBlob(blob: Blob): Promise<PixelImageData> {
+  if (typeof createImageBitmap === 'function') {
+    const bitmap = await createImageBitmap(blob, { premultiplyAlpha: 'none' })
+    try {
+      return drawToImageData(bitmap, bitmap.width, bitmap.height)
+    }
+    finally {
+      bitmap.close()
+    }
+  }
+
+  const bytes = new Uint8Array(await blob.arrayBuffer())
+  if (detectImageFormat(bytes) === 'png' || detectImageFormat(bytes) === 'jpeg') {
+    return decodeImage(bytes)
+  }
+  const url = URL.createObjectURL(blob)
+  try {
+    return await loadUrl(url)
+  }
+  finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+/**
+ * Read any supported source into a new {@link PixelImageData}. The source
+ * is never modified or retained; a `PixelImageData` is returned as is.
+ */
+export async function readImageSource(source: ImageSource): Promise<PixelImageData> {
+  if (source instanceof PixelImageData) {
+    return source
+  }
+  // Encoded bytes decode without the DOM (PNG and baseline JPEG)
+  if (source instanceof ArrayBuffer || source instanceof Uint8Array) {
+    return decodeImage(source)
+  }
+  if (typeof source === 'string') {
+    return loadUrl(source)
+  }
+  if (isInstance<Blob>(source, 'Blob')) {
+    return loadBlob(source)
+  }
+  if (isInstance<ImageData>(source, 'ImageData')) {
+    return new PixelImageData(source.width, source.height, new Uint8ClampedArray(source.data))
+  }
+  if (isInstance<HTMLVideoElement>(source, 'HTMLVideoElement')) {
+    if (source.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) {
+      throw new Error('Video has no frame to read yet')
+    }
+    return drawToImageData(source, source.videoWidth, source.videoHeight)
+  }
+  if (isInstance<HTMLImageElement>(source, 'HTMLImageElement')) {
+    return drawToImageData(source, source.naturalWidth || source.width, source.naturalHeight || source.height)
+  }
+  if (
+    isInstance<ImageBitmap>(source, 'ImageBitmap')
+    || isInstance<OffscreenCanvas>(source, 'OffscreenCanvas')
+    || isInstance<HTMLCanvasElement>(source, 'HTMLCanvasElement')
+  ) {
+    return drawToImageData(source, source.width, source.height)
+  }
+  throw new Error('Unsupported image source type')
+}
+
+/**
+ * Encode through a canvas for types the built-in PNG encoder doesn't cover
+ * (JPEG, WebP). Uses `OffscreenCanvas.convertToBlob` where available.
+ */
+export async function encodeWithCanvas(image: PixelImageData, type: string, quality?: number): Promise<Blob> {
+  const ctx = createContext(image.width, image.height)
+  ctx.putImageData(image.toCanvasImageData(), 0, 0)
+
+  const canvas = ctx.canvas
+  if (isInstance<OffscreenCanvas>(canvas, 'OffscreenCanvas')) {
+    return canvas.convertToBlob({ type, quality })
+  }
+  return new Promise((resolve, reject) => {
+    (canvas as HTMLCanvasElement).toBlob((blob) => {
+      if (blob) {
+        resolve(blob)
+      }
+      else {
+        reject(new Error('Failed to create blob'))
+      }
+    }, type, quality)
+  })
+}
@@ -0,0 +1,567 @@
+/**
+ * Baseline JPEG decoder (sequential DCT, Huffman coded, 8-bit samples).
+ * Progressive, lossless and arithmetic-coded files are rejected. EXIF
+ * orientation is not applied.
+ */
+
+import { PixelImageData } from './imageData'
+
+// Zigzag index -> natural (row-major) index
+const ZIGZAG = new Uint8Array([
+  0,
+  1,
+  8,
+  16,
+  9,
+  2,
+  3,
+  10,
+  17,
+  24,
+  32,
+  25,
+  18,
+  11,
+  4,
+  5,
+  12,
+  19,
+  26,
+  33,
+  40,
+  48,
+  41,
+  34,
+  27,
+  20,
+  13,
+  6,
+  7,
+  14,
+  21,
+  28,
+  35,
+  42,
+  49,
+  56,
+  57,
+  50,
+  43,
+  36,
+  29,
+  22,
+  15,
+  23,
+  30,
+  37,
+  44,
+  51,
+  58,
+  59,
+  52,
+  45,
+  38,
+  31,
+  39,
+  46,
+  53,
+  60,
+  61,
+  54,
+  47,
+  55,
+  62,
+  63,
+])
+
+// IDCT_COS[x * 8 + u] = C(u) / 2 * cos((2x + 1) u pi / 16)
+const IDCT_COS = (() => {
+  const table = new Float32Array(64)
+  for (let x = 0; x < 8; x++) {
+    for (let u = 0; u < 8; u++) {
+      table[x * 8 + u] = (u === 0 ? Math.SQRT1_2 : 1) / 2 * Math.cos((2 * x + 1) * u * Math.PI / 16)
+    }
+  }
+  return table
+})()
+
+interface HuffmanTable {
+  maxCode: Int32Array
+  minCode: Int32Array
+  valuePointer: Int32Array
+  values: Uint8Array
+}
+
+interface Component {
+  id: number
+  h: number
+  v: number
+  quantTable: number
+  blocksPerLine: number
+  blocksPerColumn: number
+  /** Allocated blocks per line (whole MCUs) */
+  stride: number
+  coefficients: Int16Array
+  dcTable?: HuffmanTable
+  acTable?: HuffmanTable
+  prediction: number
+}
+
+function buildHuffmanTable(counts: Uint8Array, values: Uint8Array): HuffmanTable {
+  const maxCode = new Int32Array(18).fill(-1)
+  const minCode = new Int32Array(17)
+  const valuePointer = new Int32Array(17)
+  let code = 0
+  let k = 0
+  for (let length = 1; length <= 16; length++) {
+    const count = counts[length - 1]
+    if (count) {
+      valuePointer[length] = k
+      minCode[length] = code
+      code += count
+      k += count
+      maxCode[length] = code - 1
+    }
+    code <<= 1
+  }
+  // Sentinel so decoding always terminates
+  maxCode[17] = 0x7F_FF_FF_FF
+  return { maxCode, minCode, valuePointer, values }
+}
+
+/** MSB-first reader over entropy-coded data; stops (feeding zeros) at markers. */
+class BitReader {
+  private data: Uint8Array
+  pos: number
+  private byte = 0
+  private bitCount = 0
+
+  constructor(data: Uint8Array, pos: number) {
+    this.data = data
+    this.pos = pos
+  }
+
+  private nextByte(): number {
+    const byte = this.data[this.pos]
+    if (byte === undefined) {
+      return 0
+    }
+    if (byte === 0xFF) {
+      if (this.data[this.pos + 1] === 0) {
+        this.pos += 2
+        return 0xFF
+      }
+      // A marker: leave it for the segment parser
+      return 0
+    }
+    this.pos++
+    return byte
+  }
+
+  bit(): number {
+    if (this.bitCount === 0) {
+      this.byte = this.nextByte()
+      this.bitCount = 8
+    }
+    return (this.byte >> --this.bitCount) & 1
+  }
+
+  bits(count: number): number {
+    let value = 0
+    for (let i = 0; i < count; i++) {
+      value = (value << 1) | this.bit()
+    }
+    return value
+  }
+
+  /** Read `count` bits as a signed DCT coefficient difference (JPEG EXTEND). */
+  receiveExtend(count: number): number {
+    if (count === 0) {
+      return 0
+    }
+    const value = this.bits(count)
+    return value < 1 << (count - 1) ? value - (1 << count) + 1 : value
+  }
+
+  decode(table: HuffmanTable): number {
+    let code = this.bit()
+    let length = 1
+    while (code > table.maxCode[length]) {
+      code = (code << 1) | this.bit()
+      length++
+      if (length > 16) {
+        throw new Error('Invalid JPEG Huffman code')
+      }
+    }
+    return table.values[table.valuePointer[length] + code - table.minCode[length]]
+  }
+
+  /** Drop buffered bits and step over an RSTn marker. */
+  restart(): void {
+    this.bitCount = 0
+    while (this.pos + 1 < this.data.length && !(this.data[this.pos] === 0xFF && this.data[this.pos + 1] >= 0xD0 && this.data[this.pos + 1] <= 0xD7)) {
+      this.pos++
+    }
+    this.pos += 2
+  }
+}
+
+function decodeBlock(reader: BitReader, component: Component, offset: number): void {
+  const { coefficients } = component
+  const t = reader.decode(component.dcTable!)
+  component.prediction += reader.receiveExtend(t)
+  coefficients[offset] = component.prediction
+  for (let k = 1; k < 64;) {
+    const rs = reader.decode(component.acTable!)
+    const size = rs & 15
+    const run = rs >> 4
+    if (size === 0) {
+      if (run !== 15) {
+        break
+      }
+      k += 16
+      continue
+    }
+    k += run
+    if (k > 63) {
+      throw new Error('Invalid JPEG AC coefficient run')
+    }
+    coefficients[offset + ZIGZAG[k]] = reader.receiveExtend(size)
+    k++
+  }
+}
+
+interface Frame {
+  width: number
+  height: number
+  maxH: number
+  maxV: number
+  mcusPerLine: number
+  mcusPerColumn: number
+  components: Component[]
+}
+
+function decodeScan(
+  data: Uint8Array,
+  pos: number,
+  frame: Frame,
+  components: Component[],
+  restartInterval: number,
+): number {
+  const reader = new BitReader(data, pos)
+  for (const component of components) {
+    component.prediction = 0
+  }
+
+  const single = components.length === 1
+  const total = single
+    ? components[0].blocksPerLine * components[0].blocksPerColumn
+    : frame.mcusPerLine * frame.mcusPerColumn
+  for (let mcu = 0; mcu < total; mcu++) {
+    if (restartInterval && mcu > 0 && mcu % restartInterval === 0) {
+      reader.restart()
+      for (const component of components) {
+        component.prediction = 0
+      }
+    }
+    if (single) {
+      // Non-interleaved: one block per MCU over the component's own size
+      const component = components[0]
+      const row = Math.floor(mcu / component.blocksPerLine)
+      const col = mcu % component.blocksPerLine
+      decodeBlock(reader, component, (row * component.stride + col) * 64)
+      continue
+    }
+    const mcuRow = Math.floor(mcu / frame.mcusPerLine)
+    const mcuCol = mcu % frame.mcusPerLine
+    for (const component of components) {
+      for (let v = 0; v < component.v; v++) {
+        for (let h = 0; h < component.h; h++) {
+          const row = mcuRow * component.v + v
+          const col = mcuCol * component.h + h
+          decodeBlock(reader, component, (row * component.stride + col) * 64)
+        }
+      }
+    }
+  }
+  return reader.pos
+}
+
+/** Dequantize and inverse-DCT every block into an 8-bit sample plane. */
+function componentPlane(component: Component, quant: Uint16Array): Uint8ClampedArray {
+  const width = component.stride * 8
+  const rows = component.coefficients.length / 64 / component.stride
+  const plane = new Uint8ClampedArray(width * rows * 8)
+  const block = new Float32Array(64)
+  const temp = new Float32Array(64)
+
+  for (let by = 0; by < rows; by++) {
+    for (let bx = 0; bx < component.stride; bx++) {
+      const offset = (by * component.stride + bx) * 64
+      for (let i = 0; i < 64; i++) {
+        block[i] = component.coefficients[offset + i] * quant[i]
+      }
+      // Rows: temp[v * 8 + x] = sum_u C(x, u) F(v, u)
+      for (let v = 0; v < 8; v++) {
+        for (let x = 0; x < 8; x++) {
+          let sum = 0
+          for (let u = 0; u < 8; u++) {
+            sum += IDCT_COS[x * 8 + u] * block[v * 8 + u]
+          }
+          temp[v * 8 + x] = sum
+        }
+      }
+      // Columns
+      for (let x = 0; x < 8; x++) {
+        for (let y = 0; y < 8; y++) {
+          let sum = 0
+          for (let v = 0; v < 8; v++) {
+            sum += IDCT_COS[y * 8 + v] * temp[v * 8 + x]
+          }
+          plane[(by * 8 + y) * width + bx * 8 + x] = Math.round(sum + 128)
+        }
+      }
+    }
+  }
+  return plane
+}
+
+/**
+ * Sample a component plane at output pixel (x, y) with bilinear
+ * interpolation between chroma sample centers (libjpeg's "fancy"
+ * upsampling for 2x factors).
+ */
+function upsampler(plane: Uint8ClampedArray, component: Component, frame: Frame): (x: number, y: number) => number {
+  const width = component.stride * 8
+  if (component.h === frame.maxH && component.v === frame.maxV) {
+    return (x, y) => plane[y * width + x]
+  }
+  const sx = component.h / frame.maxH
+  const sy = component.v / frame.maxV
+  const maxX = Math.ceil(frame.width * sx) - 1
+  const maxY = Math.ceil(frame.height * sy) - 1
+  return (x, y) => {
+    const fx = Math.min(maxX, Math.max(0, (x + 0.5) * sx - 0.5))
+    const fy = Math.min(maxY, Math.max(0, (y + 0.5) * sy - 0.5))
+    const x0 = Math.floor(fx)
+    const y0 = Math.floor(fy)
+    const x1 = Math.min(maxX, x0 + 1)
+    const y1 = Math.min(maxY, y0 + 1)
+    const tx = fx - x0
+    const ty = fy - y0
+    const top = plane[y0 * width + x0] * (1 - tx) + plane[y0 * width + x1] * tx
+    const bottom = plane[y1 * width + x0] * (1 - tx) + plane[y1 * width + x1] * tx
+    return top * (1 - ty) + bottom * ty
+  }
+}
+
+export function isJpeg(bytes: Uint8Array): boolean {
+  return bytes.length >= 3 && bytes[0] === 0xFF && bytes[1] === 0xD8 && bytes[2] === 0xFF
+}
+
+/** Decode a baseline JPEG file. Gray, YCbCr, RGB and (Adobe) CMYK/YCCK are supported. */
+export function decodeJpeg(bytes: Uint8Array): PixelImageData {
+  if (!isJpeg(bytes)) {
+    throw new Error('Not a JPEG file')
+  }
+  const quantTables: Uint16Array[] = []
+  const dcTables: HuffmanTable[] = []
+  const acTables: HuffmanTable[] = []
+  let frame: Frame | undefined
+  let restartInterval = 0
+  let adobeTransform: number | undefined
+  let jfif = false
+
+  let pos = 2
+  while (pos < bytes.length) {
+    if (bytes[pos] !== 0xFF) {
+      pos++
+      continue
+    }
+    const marker = bytes[pos + 1]
+    if (marker === 0xFF || marker === 0x00 || (marker >= 0xD0 && marker <= 0xD7)) {
+      pos++
+      continue
+    }
+    if (marker === 0xD9) {
+      break
+    }
+    const length = (bytes[pos + 2] << 8) | bytes[pos + 3]
+    const start = pos + 4
+    const end = pos + 2 + length
+    if (end > bytes.length) {
+      throw new Error('Truncated JPEG segment')
+    }
+    const segment = bytes.subarray(start, end)
+    pos = end
+
+    if (marker === 0xE0 && String.fromCodePoint(...segment.subarray(0, 4)) === 'JFIF') {
+      jfif = true
+    }
+    else if (marker === 0xEE && String.fromCodePoint(...segment.subarray(0, 5)) === 'Adobe') {
+      adobeTransform = segment[11]
+    }
+    else {
+      switch (marker) {
+        case 0xDB: {
+          for (let i = 0; i < segment.length;) {
+            const precision = segment[i] >> 4
+            const table = new Uint16Array(64)
+            for (let k = 0; k < 64; k++) {
+              table[ZIGZAG[k]] = precision
+                ? (segment[i + 1 + k * 2] << 8) | segment[i + 2 + k * 2]
+                : segment[i + 1 + k]
+            }
+            quantTables[segment[i] & 15] = table
+            i += 1 + 64 * (precision ? 2 : 1)
+          }
+
+          break
+        }
+        case 0xC4: {
+          for (let i = 0; i < segment.length;) {
+            const counts = segment.subarray(i + 1, i + 17)
+            const total = counts.reduce((sum, count) => sum + count, 0)
+            const table = buildHuffmanTable(counts, segment.slice(i + 17, i + 17 + total))
+            if (segment[i] >> 4) {
+              acTables[segment[i] & 15] = table
+            }
+            else {
+              dcTables[segment[i] & 15] = table
+            }
+            i += 17 + total
+          }
+
+          break
+        }
+        case 0xC0:
+        case 0xC1: {
+          frame = readFrame(segment)
+
+          break
+        }
+        default: { if (marker >= 0xC2 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC) {
+          throw new Error(marker === 0xC2 ? 'Progressive JPEG is not supported' : 'Only baseline JPEG is supported')
+        }
+        else if (marker === 0xDD) {
+          restartInterval = (segment[0] << 8) | segment[1]
+        }
+        else if (marker === 0xDA) {
+          if (!frame) {
+            throw new Error('JPEG scan before frame header')
+          }
+          const scanFrame = frame
+          const count = segment[0]
+          const components = Array.from({ length: count }, (_, i) => {
+            const component = scanFrame.components.find(c => c.id === segment[1 + i * 2])
+            if (!component) {
+              throw new Error('JPEG scan references an unknown component')
+            }
+            component.dcTable = dcTables[segment[2 + i * 2] >> 4]
+            component.acTable = acTables[segment[2 + i * 2] & 15]
+            if (!component.dcTable || !component.acTable) {
+              throw new Error('JPEG scan references a missing Huffman table')
+            }
+            return component
+          })
+          pos = decodeScan(bytes, end, frame, components, restartInterval)
+        }
+        }
+      }
+    }
+  }
+
+  if (!frame) {
+    throw new Error('JPEG has no frame header')
+  }
+  return toRgba(frame, quantTables, { adobeTransform, jfif })
+}
+
+function readFrame(segment: Uint8Array): Frame {
+  if (segment[0] !== 8) {
+    throw new Error(`Unsupported JPEG sample precision ${segment[0]}`)
+  }
+  const height = (segment[1] << 8) | segment[2]
+  const width = (segment[3] << 8) | segment[4]
+  if (!width || !height) {
+    throw new Error('JPEG has zero size')
+  }
+  const count = segment[5]
+  const specs = Array.from({ length: count }, (_, i) => ({
+    id: segment[6 + i * 3],
+    h: segment[7 + i * 3] >> 4,
+    v: segment[7 + i * 3] & 15,
+    quantTable: segment[8 + i * 3],
+  }))
+  const maxH = Math.max(...specs.map(c => c.h))
+  const maxV = Math.max(...specs.map(c => c.v))
+  const mcusPerLine = Math.ceil(width / (8 * maxH))
+  const mcusPerColumn = Math.ceil(height / (8 * maxV))
+  const components = specs.map((spec): Component => {
+    const stride = mcusPerLine * spec.h
+    return {
+      ...spec,
+      blocksPerLine: Math.ceil(Math.ceil(width * spec.h / maxH) / 8),
+      blocksPerColumn: Math.ceil(Math.ceil(height * spec.v / maxV) / 8),
+      stride,
+      coefficients: new Int16Array(stride * mcusPerColumn * spec.v * 64),
+      prediction: 0,
+    }
+  })
+  return { width, height, maxH, maxV, mcusPerLine, mcusPerColumn, components }
+}
+
+function toRgba(
+  frame: Frame,
+  quantTables: Uint16Array[],
+  { adobeTransform, jfif }: { adobeTransform?: number, jfif: boolean },
+): PixelImageData {
+  const { width, height, components } = frame
+  const samplers = components.map((component) => {
+    const quant = quantTables[component.quantTable]
+    if (!quant) {
+      throw new Error('JPEG component references a missing quantization table')
+    }
+    return upsampler(componentPlane(component, quant), component, frame)
+  })
+  const out = new Uint8ClampedArray(width * height * 4)
+  const ids = components.map(c => String.fromCodePoint(c.id)).join('')
+  const rgb = components.length === 3 && !jfif && (adobeTransform === 0 || (adobeTransform === undefined && ids === 'RGB'))
+  const ycck = components.length === 4 && adobeTransform === 2
+  // Adobe applications store CMYK (and the CMY of YCCK) inverted
+  const inverted = adobeTransform !== undefined
+
+  for (let y = 0, o = 0; y < height; y++) {
+    for (let x = 0; x < width; x++, o += 4) {
+      out[o + 3] = 255
+      if (components.length === 1) {
+        out[o] = out[o + 1] = out[o + 2] = samplers[0](x, y)
+        continue
+      }
+      let r = samplers[0](x, y)
+      let g = samplers[1](x, y)
+      let b = samplers[2](x, y)
+      if (!rgb && (components.length === 3 || ycck)) {
+        const cb = g - 128
+        const cr = b - 128
+        const luma = r
+        r = luma + 1.402 * cr
+        g = luma - 0.344_136 * cb - 0.714_136 * cr
+        b = luma + 1.772 * cb
+      }
+      if (components.length === 4) {
+        const k = samplers[3](x, y)
+        const c = Math.min(255, Math.max(0, r))
+        const m = Math.min(255, Math.max(0, g))
+        const yy = Math.min(255, Math.max(0, b))
+        r = inverted ? c * k / 255 : (255 - c) * (255 - k) / 255
+        g = inverted ? m * k / 255 : (255 - m) * (255 - k) / 255
+        b = inverted ? yy * k / 255 : (255 - yy) * (255 - k) / 255
+      }
+      out[o] = Math.round(r)
+      out[o + 1] = Math.round(g)
+      out[o + 2] = Math.round(b)
+    }
+  }
+  return new PixelImageData(width, height, out)
+}
@@ -0,0 +1,24 @@
+/**
+ * Minimal logging surface used by the pipeline. `console` satisfies it, as
+ * do most structured loggers (pino, winston, consola).
+ */
+export interface PixelOELogger {
+  debug: (message: string) => void
+  warn: (message: string) => void
+}
+
+export const silentLogger: PixelOELogger = {
+  debug: () => {},
+  warn: () => {},
+}
+
+/**
+ * Pick the logger for a run: `silent` wins, then an explicit `logger`;
+ * without one nothing is logged.
+ */
+export function resolveLogger(options: { logger?: PixelOELogger, silent?: boolean }): PixelOELogger {
+  if (options.silent || !options.logger) {
+    return silentLogger
+  }
+  return options.logger
+}
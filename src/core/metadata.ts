@@ -0,0 +1,79 @@
+/**
+ * Reproducibility metadata embedded in exported PNGs: the serialized
+ * options, the library version and a hash of the source image.
+ */
+
+import type { PixelOEOptions } from '../pixeloe'
+import type { PixelImageData } from './imageData'
+import { VERSION } from '../version'
+import { deserializeOptions, serializeOptions } from './options'
+import { createITxtChunk, createTextChunk, insertPngChunks, isPng, readPngText } from './png'
+
+export interface PixelOEMetadata {
+  options: Partial<PixelOEOptions>
+  /** Library version that wrote the file */
+  version?: string
+  /** SHA-256 (hex) of the source image, see {@link hashImage} */
+  sourceHash?: string
+}
+
+/** What {@link PixelOE.exportBlob} writes; options default to the instance options. */
+export interface ExportMetadata {
+  options?: Partial<PixelOEOptions>
+  /** Source image to hash */
+  source?: PixelImageData
+}
+
+export const METADATA_KEYS = {
+  options: 'pixeloe:options',
+  version: 'pixeloe:version',
+  sourceHash: 'pixeloe:source-sha256',
+} as const
+
+/**
+ * SHA-256 over the dimensions and RGBA data, as lowercase hex. Identical
+ * pixels hash the same whatever file format they came from.
+ */
+export async function hashImage(image: PixelImageData): Promise<string> {
+  const bytes = new Uint8Array(8 + image.data.length)
+  const view = new DataView(bytes.buffer)
+  view.setUint32(0, image.width)
+  view.setUint32(4, image.height)
+  bytes.set(image.data, 8)
+  const digest = await crypto.subtle.digest('SHA-256', bytes)
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('')
+}
+
+/** Add the metadata as text chunks to an encoded PNG. */
+export function embedPngMetadata(png: Uint8Array, metadata: PixelOEMetadata): Uint8Array<ArrayBuffer> {
+  const chunks = [
+    createTextChunk('Software', `PixelOE.js ${metadata.version ?? VERSION}`),
+    createTextChunk(METADATA_KEYS.version, metadata.version ?? VERSION),
+    createITxtChunk(METADATA_KEYS.options, JSON.stringify(serializeOptions(metadata.options))),
+  ]
+  if (metadata.sourceHash) {
+    chunks.push(createTextChunk(METADATA_KEYS.sourceHash, metadata.sourceHash))
+  }
+  return insertPngChunks(png, chunks)
+}
+
+/**
+ * Read metadata written by {@link embedPngMetadata}. Returns null for
+ * non-PNG input or PNGs without PixelOE options; throws when the stored
+ * options are malformed.
+ */
+export function readPngMetadata(png: Uint8Array): PixelOEMetadata | null {
+  if (!isPng(png)) {
+    return null
+  }
+  const text = readPngText(png)
+  const options = text[METADATA_KEYS.options]
+  if (options === undefined) {
+    return null
+  }
+  return {
+    options: deserializeOptions(options),
+    version: text[METADATA_KEYS.version],
+    sourceHash: text[METADATA_KEYS.sourceHash],
+  }
+}
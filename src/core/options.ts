@@ -0,0 +1,239 @@
+/**
+ * Validation and JSON (de)serialization of PixelOE options
+ */
+
+import type { PixelOEOptions } from '../pixeloe'
+import type { ColorPalette } from './palettes'
+import { getPaletteByName } from './palettes'
+
+export interface OptionIssue {
+  option: string
+  message: string
+  value: unknown
+}
+
+export interface OptionsValidation {
+  /** False when any error was found */
+  valid: boolean
+  /** Values the pipeline cannot work with (replaced or clamped in `options`) */
+  errors: OptionIssue[]
+  /** Values outside the supported range (clamped in `options`) */
+  warnings: OptionIssue[]
+  /** The input with every reported value clamped, rounded or dropped */
+  options: Partial<PixelOEOptions>
+}
+
+interface NumericRange {
+  min: number
+  max: number
+  integer?: boolean
+  /** Values below this are errors rather than range warnings */
+  lowest?: number
+}
+
+/**
+ * Supported ranges of the numeric options. The demo sliders use the same
+ * bounds.
+ */
+export const OPTION_RANGES = {
+  pixelSize: { min: 2, max: 16, integer: true, lowest: 1 },
+  targetSize: { min: 64, max: 512, integer: true, lowest: 1 },
+  targetWidth: { min: 1, max: 1024, integer: true, lowest: 1 },
+  targetHeight: { min: 1, max: 1024, integer: true, lowest: 1 },
+  thickness: { min: 0, max: 10, integer: true, lowest: 0 },
+  contrast: { min: 0.5, max: 2, lowest: 0 },
+  saturation: { min: 0.5, max: 2, lowest: 0 },
+  sharpenStrength: { min: 0, max: 3, lowest: 0 },
+  numColors: { min: 2, max: 256, integer: true, lowest: 2 },
+  edgeDetectionThreshold: { min: 0, max: 1, lowest: 0 },
+  alphaThreshold: { min: 0, max: 255, integer: true, lowest: 0 },
+  maxPixels: { min: 65_536, max: 100_000_000, integer: true, lowest: 1 },
+  tileRows: { min: 16, max: 4096, integer: true, lowest: 1 },
+} satisfies Partial<Record<keyof PixelOEOptions, NumericRange>>
+
+/** Allowed values of the string options */
+export const OPTION_CHOICES = {
+  mode: ['contrast'],
+  fit: ['fit', 'fill', 'crop'],
+  downscaleMethod: ['contrast', 'mrf', 'mrf-rescue', 'contour'],
+  sharpenMode: ['none', 'unsharp', 'laplacian'],
+  ditherMethod: ['none', 'ordered', 'error_diffusion'],
+  quantMode: ['kmeans'],
+  resampleMethod: ['auto', 'lanczos', 'bicubic'],
+  edgeExpansionMode: ['legacy', 'optimized'],
+} satisfies Partial<Record<keyof PixelOEOptions, string[]>>
+
+export const BOOLEAN_OPTIONS = [
+  'mrfAA',
+  'colorMatching',
+  'noUpscale',
+  'noDownscale',
+  'doQuantization',
+  'noPostUpscale',
+  'usePalette',
+  'useEdgeOptimization',
+  'adaptiveProcessing',
+  'silent',
+  'tiled',
+  'cacheStages',
+] as const satisfies (keyof PixelOEOptions)[]
+
+function paletteColorsValid(colors: unknown): colors is number[][] {
+  return Array.isArray(colors)
+    && colors.length > 0
+    && colors.every(color => Array.isArray(color)
+      && color.length === 3
+      && color.every(c => typeof c === 'number' && Number.isInteger(c) && c >= 0 && c <= 255))
+}
+
+/**
+ * Check options against the supported ranges and choices. Never throws;
+ * the returned `options` are safe to hand to `PixelOE` even when invalid.
+ */
+export function validateOptions(options: Partial<PixelOEOptions>): OptionsValidation {
+  const errors: OptionIssue[] = []
+  const warnings: OptionIssue[] = []
+  const sanitized: Partial<PixelOEOptions> = { ...options }
+  const mutable = sanitized as Record<string, unknown>
+
+  for (const [option, range] of Object.entries(OPTION_RANGES) as [keyof typeof OPTION_RANGES, NumericRange][]) {
+    const value = options[option]
+    if (value === undefined) {
+      continue
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push({ option, message: 'must be a finite number', value })
+      delete mutable[option]
+      continue
+    }
+    let fixed = range.integer ? Math.round(value) : value
+    if (range.lowest !== undefined && value < range.lowest) {
+      errors.push({ option, message: `must be at least ${range.lowest}`, value })
+    }
+    else if (value < range.min || value > range.max) {
+      warnings.push({ option, message: `outside the supported range ${range.min}-${range.max}`, value })
+    }
+    else if (fixed !== value) {
+      warnings.push({ option, message: 'must be an integer', value })
+    }
+    fixed = Math.min(range.max, Math.max(range.min, fixed))
+    mutable[option] = fixed
+  }
+
+  for (const [option, choices] of Object.entries(OPTION_CHOICES) as [keyof typeof OPTION_CHOICES, string[]][]) {
+    const value = options[option]
+    if (value !== undefined && !choices.includes(value as string)) {
+      errors.push({ option, message: `must be one of ${choices.join(', ')}`, value })
+      delete mutable[option]
+    }
+  }
+
+  for (const option of BOOLEAN_OPTIONS) {
+    const value = options[option]
+    if (value !== undefined && typeof value !== 'boolean') {
+      errors.push({ option, message: 'must be a boolean', value })
+      delete mutable[option]
+    }
+  }
+
+  const palette = options.selectedPalette
+  if (palette !== undefined && !paletteColorsValid(palette?.colors)) {
+    errors.push({ option: 'selectedPalette', message: 'colors must be a non-empty list of [r, g, b] bytes', value: palette })
+    delete mutable.selectedPalette
+  }
+  if (options.usePalette && !sanitized.selectedPalette) {
+    errors.push({ option: 'usePalette', message: 'requires a selectedPalette', value: options.usePalette })
+    sanitized.usePalette = false
+  }
+
+  return { valid: errors.length === 0, errors, warnings, options: sanitized }
+}
+
+/**
+ * JSON-safe form of {@link PixelOEOptions}. The palette is stored by name
+ * when it is one of the predefined palettes, otherwise inline.
+ */
+export type SerializedOptions = Partial<Omit<PixelOEOptions, 'selectedPalette' | 'logger' | 'workerPool'>> & {
+  selectedPalette?: string | ColorPalette
+}
+
+const SERIALIZED_KEYS: (keyof PixelOEOptions)[] = [
+  ...Object.keys(OPTION_RANGES) as (keyof typeof OPTION_RANGES)[],
+  ...Object.keys(OPTION_CHOICES) as (keyof typeof OPTION_CHOICES)[],
+  ...BOOLEAN_OPTIONS,
+]
+
+/**
+ * Keys of a would-be {@link SerializedOptions} object that
+ * {@link deserializeOptions} would silently drop, e.g. a misspelled option.
+ */
+export function unknownOptionKeys(source: Record<string, unknown>): string[] {
+  const known = new Set<string>([...SERIALIZED_KEYS, 'selectedPalette'])
+  return Object.keys(source).filter(key => !known.has(key))
+}
+
+function isPredefined(palette: ColorPalette): boolean {
+  const predefined = getPaletteByName(palette.name)
+  return !!predefined
+    && predefined.colors.length === palette.colors.length
+    && predefined.colors.every((color, i) => color.every((c, j) => c === palette.colors[i][j]))
+}
+
+/**
+ * Plain-object copy of the options, ready for `JSON.stringify`. The logger,
+ * worker pool and unknown keys are dropped.
+ */
+export function serializeOptions(options: Partial<PixelOEOptions>): SerializedOptions {
+  const serialized: Record<string, unknown> = {}
+  for (const key of SERIALIZED_KEYS) {
+    if (options[key] !== undefined) {
+      serialized[key] = options[key]
+    }
+  }
+  const palette = options.selectedPalette
+  if (palette) {
+    serialized.selectedPalette = isPredefined(palette)
+      ? palette.name
+      : { name: palette.name, description: palette.description, colors: palette.colors.map(color => [...color]) }
+  }
+  return serialized as SerializedOptions
+}
+
+/**
+ * Inverse of {@link serializeOptions}; accepts the object or its JSON text.
+ * Throws on malformed input or an unknown palette name. Values are not
+ * range-checked: pass the result through {@link validateOptions} for that.
+ */
+export function deserializeOptions(input: string | SerializedOptions): Partial<PixelOEOptions> {
+  const parsed: unknown = typeof input === 'string' ? JSON.parse(input) : input
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new TypeError('Serialized options must be an object')
+  }
+  const source = parsed as Record<string, unknown>
+  const options: Record<string, unknown> = {}
+  for (const key of SERIALIZED_KEYS) {
+    if (source[key] !== undefined) {
+      options[key] = source[key]
+    }
+  }
+
+  const palette = source.selectedPalette
+  if (typeof palette === 'string') {
+    const predefined = getPaletteByName(palette)
+    if (!predefined) {
+      throw new Error(`Unknown palette: ${palette}`)
+    }
+    options.selectedPalette = predefined
+  }
+  else if (typeof palette === 'object' && palette !== null) {
+    const { name, description, colors } = palette as Partial<ColorPalette>
+    if (!paletteColorsValid(colors)) {
+      throw new TypeError('Inline palette colors must be a non-empty list of [r, g, b] bytes')
+    }
+    options.selectedPalette = { name: String(name ?? 'Custom'), description: String(description ?? ''), colors }
+  }
+  else if (palette !== undefined) {
+    throw new TypeError('selectedPalette must be a palette name or an inline palette')
+  }
+  return options as Partial<PixelOEOptions>
+}
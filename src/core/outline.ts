@@ -1,9 +1,13 @@
+import type { TaskControl } from './cancellation'
+import type { PoolTask, TaskRunner } from './workerPool'
 import { sigmoid } from '../utils/math'
+import { hasTransparency, premultiplyAlpha, unpremultiplyAlpha } from './alpha'
+import { throwIfAborted } from './cancellation'
 import { PixelImageData } from './imageData'
 import { dilate, dilateSmooth, erode, erodeSmooth } from './morphology'
-import { outlineHaloRows, processOutlineBand } from './outlineBand'
-import { rgbaToLabLuminance01, rgbaToLabLuminance01Strided } from './planes'
-import { quantize01ToU8, slidingMax, slidingMedianU8, slidingMin } from './slidingStats'
+import { expansionWeightBand, expansionWeightRadii, outlineHaloRows, planBands, processOutlineBand } from './outlineBand'
+import { slidingMax } from './slidingStats'
+import { MIN_PARALLEL_PIXELS, resolveWorkerPool } from './workerPool'
 
 /**
  * Outline expansion algorithms.
@@ -11,36 +15,12 @@ import { quantize01ToU8, slidingMax, slidingMedianU8, slidingMin } from './slidi
  * The expansion weight is computed from exact per-pixel sliding-window
  * statistics over the Lab L channel (matching the PyTorch reference,
  * which uses `rgb_to_lab(img)[:, 0:1] / 100`).
+ *
+ * Images with transparency are expanded in premultiplied alpha, so the
+ * morphology grows and shrinks coverage together with color.
  */
 
-/**
- * Compute sigmoid weights from local statistics and min-max normalize.
- */
-function statsToNormalizedWeights(
-  medianU8: Uint8Array,
-  minStat: Float32Array,
-  maxStat: Float32Array,
-  avgScale: number,
-  distScale: number,
-): Float32Array {
-  const weights = new Float32Array(medianU8.length)
-  let minWeight = Infinity
-  let maxWeight = -Infinity
-
-  for (let i = 0; i < weights.length; i++) {
-    const med = medianU8[i] / 255
-    const brightDist = maxStat[i] - med
-    const darkDist = med - minStat[i]
-    const w = sigmoid((med - 0.5) * avgScale - (brightDist - darkDist) * distScale)
-    weights[i] = w
-    if (w < minWeight) {
-      minWeight = w
-    }
-    if (w > maxWeight) {
-      maxWeight = w
-    }
-  }
-
+function normalizeWeights(weights: Float32Array, minWeight: number, maxWeight: number): void {
   const range = maxWeight - minWeight
   if (range > 0) {
     const invRange = 1 / range
@@ -48,8 +28,6 @@ function statsToNormalizedWeights(
       weights[i] = (weights[i] - minWeight) * invRange
     }
   }
-
-  return weights
 }
 
 /**
@@ -120,30 +98,58 @@ export function calculateExpansionWeight(
   avgScale: number = 10,
   distScale: number = 3,
 ): Float32Array {
-  const width = imageData.width
-  const height = imageData.height
+  const { width, height } = imageData
   const s = Math.max(1, Math.floor(stride))
 
-  if (s === 1) {
-    const lum = rgbaToLabLuminance01(imageData.data, width, height)
-    const medianU8 = slidingMedianU8(quantize01ToU8(lum), width, height, patchSize)
-    const minMaxRadius = Math.floor(patchSize / 2)
-    const minStat = slidingMin(lum, width, height, minMaxRadius)
-    const maxStat = slidingMax(lum, width, height, minMaxRadius)
-    return statsToNormalizedWeights(medianU8, minStat, maxStat, avgScale, distScale)
-  }
-
-  const { field, fieldWidth, fieldHeight } = rgbaToLabLuminance01Strided(imageData.data, width, height, s)
+  const { weights, min, max } = expansionWeightBand(imageData.data, width, height, s, patchSize, avgScale, distScale, 0, 0)
+  normalizeWeights(weights, min, max)
+  return s === 1 ? weights : bilinearUpsampleField(weights, Math.ceil(width / s), Math.ceil(height / s), width, height, s)
+}
 
-  const medianRadius = Math.max(1, Math.round(patchSize / s))
-  const minMaxRadius = Math.max(1, Math.round(Math.floor(patchSize / 2) / s))
+/**
+ * Banded {@link calculateExpansionWeight} with identical output: the rows
+ * of the (strided) luminance field are computed `bandRows` image rows at a
+ * time, each band with the statistics window radius as halo. Only the
+ * field, one band's statistics and the upsampled weight plane are held.
+ */
+export function calculateExpansionWeightTiled(
+  imageData: PixelImageData,
+  patchSize: number = 8,
+  stride: number = 2,
+  avgScale: number = 10,
+  distScale: number = 3,
+  bandRows: number = 256,
+): Float32Array {
+  const { width, height, data } = imageData
+  const s = Math.max(1, Math.floor(stride))
+  const fieldWidth = Math.ceil(width / s)
+  const fieldHeight = Math.ceil(height / s)
+  const radii = expansionWeightRadii(patchSize, s)
+  const field = new Float32Array(fieldWidth * fieldHeight)
+  let minWeight = Infinity
+  let maxWeight = -Infinity
 
-  const medianU8 = slidingMedianU8(quantize01ToU8(field), fieldWidth, fieldHeight, medianRadius)
-  const minStat = slidingMin(field, fieldWidth, fieldHeight, minMaxRadius)
-  const maxStat = slidingMax(field, fieldWidth, fieldHeight, minMaxRadius)
+  for (const { y0, y1, top, bottom } of planBands(fieldHeight, Math.ceil(bandRows / s), Math.max(radii.median, radii.minMax))) {
+    // Field row `top` starts at image row top * s, as in the async bands
+    const rowEnd = Math.min(height, bottom * s)
+    const band = expansionWeightBand(
+      data.subarray(top * s * width * 4, rowEnd * width * 4),
+      width,
+      rowEnd - top * s,
+      s,
+      patchSize,
+      avgScale,
+      distScale,
+      y0 - top,
+      bottom - y1,
+    )
+    field.set(band.weights, y0 * fieldWidth)
+    minWeight = Math.min(minWeight, band.min)
+    maxWeight = Math.max(maxWeight, band.max)
+  }
 
-  const small = statsToNormalizedWeights(medianU8, minStat, maxStat, avgScale, distScale)
-  return bilinearUpsampleField(small, fieldWidth, fieldHeight, width, height, s)
+  normalizeWeights(field, minWeight, maxWeight)
+  return s === 1 ? field : bilinearUpsampleField(field, fieldWidth, fieldHeight, width, height, s)
 }
 
 /**
@@ -215,20 +221,22 @@ export function outlineExpansion(
   avgScale: number = 10,
   distScale: number = 3,
 ): { result: PixelImageData, weights: Float32Array } {
-  const weights = calculateExpansionWeight(imageData, patchSize, Math.floor(patchSize / 4) * 2, avgScale, distScale)
+  const transparent = hasTransparency(imageData)
+  const source = transparent ? premultiplyAlpha(imageData) : imageData
+  const weights = calculateExpansionWeight(source, patchSize, Math.floor(patchSize / 4) * 2, avgScale, distScale)
   const origWeights = calculateOrigWeight(weights)
 
-  const imgErode = erode(imageData, erodeIters)
-  const imgDilate = dilate(imageData, dilateIters)
+  const imgErode = erode(source, erodeIters)
+  const imgDilate = dilate(source, dilateIters)
 
-  let result = threewayBlend(imgErode, imgDilate, imageData, weights, origWeights)
+  let result = threewayBlend(imgErode, imgDilate, source, weights, origWeights)
 
   result = erodeSmooth(result, erodeIters)
   result = dilateSmooth(result, dilateIters * 2)
   result = erodeSmooth(result, erodeIters)
 
   return {
-    result,
+    result: transparent ? unpremultiplyAlpha(result) : result,
     weights: processReturnWeights(weights, imageData.width, imageData.height, dilateIters),
   }
 }
@@ -258,99 +266,141 @@ export function outlineExpansionOptimized(
     return outlineExpansion(imageData, erodeIters, dilateIters, patchSize, avgScale, distScale)
   }
 
-  const weights = calculateExpansionWeight(imageData, patchSize, Math.floor(patchSize / 4) * 2, avgScale, distScale)
+  const transparent = hasTransparency(imageData)
+  const source = transparent ? premultiplyAlpha(imageData) : imageData
+  const weights = calculateExpansionWeight(source, patchSize, Math.floor(patchSize / 4) * 2, avgScale, distScale)
 
   const result = new PixelImageData(
-    imageData.width,
-    imageData.height,
-    processOutlineBand(imageData.data, imageData.width, imageData.height, weights, erodeIters, dilateIters, 0, 0),
+    source.width,
+    source.height,
+    processOutlineBand(source.data, source.width, source.height, weights, erodeIters, dilateIters, 0, 0),
   )
 
   return {
-    result,
+    result: transparent ? unpremultiplyAlpha(result) : result,
     weights: computeReturnWeights
       ? processReturnWeights(weights, imageData.width, imageData.height, dilateIters)
       : weights,
   }
 }
 
-// ---------------------------------------------------------------------------
-// Worker-parallel variant
-// ---------------------------------------------------------------------------
-
-interface OutlineBandResponse {
-  id: number
-  out: ArrayBuffer
-}
+/**
+ * Memory-bounded {@link outlineExpansionOptimized} with identical output:
+ * weights and morphology run band by band (see
+ * {@link calculateExpansionWeightTiled} and `outlineHaloRows`), so only the
+ * input, the output and one weight plane are held at full resolution.
+ *
+ * `control.onProgress` fires after every band; aborting `control.signal`
+ * stops between bands with a {@link PixelOEAbortError}.
+ */
+export function outlineExpansionTiled(
+  imageData: PixelImageData,
+  erodeIters: number = 2,
+  dilateIters: number = 2,
+  patchSize: number = 16,
+  avgScale: number = 10,
+  distScale: number = 3,
+  computeReturnWeights: boolean = true,
+  bandRows: number = 256,
+  control: TaskControl = {},
+): { result: PixelImageData, weights: Float32Array } {
+  const { signal, onProgress } = control
+  throwIfAborted(signal)
 
-let workerPool: Worker[] | null | undefined
-let nextJobId = 0
-const pendingJobs = new Map<number, (out: ArrayBuffer) => void>()
+  const transparent = hasTransparency(imageData)
+  const source = transparent ? premultiplyAlpha(imageData) : imageData
+  const { width, height } = source
+  const weights = calculateExpansionWeightTiled(source, patchSize, Math.floor(patchSize / 4) * 2, avgScale, distScale, bandRows)
 
-function getWorkerPool(): Worker[] | null {
-  if (workerPool !== undefined) {
-    return workerPool
+  const out = new Uint8ClampedArray(width * height * 4)
+  const bands = planBands(height, bandRows, outlineHaloRows(erodeIters, dilateIters))
+  for (const [index, { y0, y1, top, bottom }] of bands.entries()) {
+    throwIfAborted(signal)
+    out.set(processOutlineBand(
+      source.data.subarray(top * width * 4, bottom * width * 4),
+      width,
+      bottom - top,
+      weights.subarray(top * width, bottom * width),
+      erodeIters,
+      dilateIters,
+      y0 - top,
+      bottom - y1,
+    ), y0 * width * 4)
+    onProgress?.((index + 1) / bands.length)
   }
 
-  workerPool = null
-  if (typeof Worker === 'undefined') {
-    return workerPool
+  const result = new PixelImageData(width, height, out)
+  return {
+    result: transparent ? unpremultiplyAlpha(result) : result,
+    weights: computeReturnWeights
+      ? processReturnWeights(weights, width, height, dilateIters)
+      : weights,
   }
+}
 
-  const cores = globalThis.navigator?.hardwareConcurrency ?? 4
-  const count = Math.min(8, Math.max(1, cores - 1))
-  if (count <= 1) {
-    return workerPool
-  }
+// ---------------------------------------------------------------------------
+// Worker-parallel variants
+// ---------------------------------------------------------------------------
 
-  try {
-    workerPool = Array.from({ length: count }, () => {
-      const worker = new Worker(new URL('../workers/outline.worker.ts', import.meta.url), { type: 'module' })
-      worker.addEventListener('message', (event: MessageEvent<OutlineBandResponse>) => {
-        const { id, out } = event.data
-        const resolve = pendingJobs.get(id)
-        if (resolve) {
-          pendingJobs.delete(id)
-          resolve(out)
-        }
-      })
-      return worker
-    })
-  }
-  catch {
-    workerPool = null
-  }
+/**
+ * Async {@link calculateExpansionWeight} with identical output: the rows of
+ * the (strided) luminance field are split into one band per worker, each
+ * with the statistics window radius as halo, and computed concurrently on
+ * `pool`. Normalization and upsampling then run on the calling thread.
+ */
+export async function calculateExpansionWeightAsync(
+  imageData: PixelImageData,
+  pool: TaskRunner,
+  patchSize: number = 8,
+  stride: number = 2,
+  avgScale: number = 10,
+  distScale: number = 3,
+  control: TaskControl = {},
+): Promise<Float32Array> {
+  const { width, height, data } = imageData
+  const s = Math.max(1, Math.floor(stride))
+  const fieldWidth = Math.ceil(width / s)
+  const fieldHeight = Math.ceil(height / s)
+  const radii = expansionWeightRadii(patchSize, s)
+  const bands = planBands(fieldHeight, Math.ceil(fieldHeight / pool.size), Math.max(radii.median, radii.minMax))
+
+  const tasks: PoolTask<'expansionWeightBand'>[] = bands.map(({ y0, y1, top, bottom }) => {
+    // Field row `top` starts at image row top * s, so the band's field is
+    // sampled from the same pixels as the whole-image field
+    const src = data.slice(top * s * width * 4, Math.min(height, bottom * s) * width * 4).buffer
+    return {
+      task: 'expansionWeightBand',
+      input: { src, width, rows: Math.min(height, bottom * s) - top * s, stride: s, patchSize, avgScale, distScale, trimTop: y0 - top, trimBottom: bottom - y1 },
+      transfer: [src],
+    }
+  })
+  const bandResults = await pool.runAll(tasks, control)
 
-  return workerPool
-}
+  const field = new Float32Array(fieldWidth * fieldHeight)
+  let minWeight = Infinity
+  let maxWeight = -Infinity
+  for (const [band, { weights, min, max }] of bandResults.entries()) {
+    field.set(new Float32Array(weights), bands[band].y0 * fieldWidth)
+    minWeight = Math.min(minWeight, min)
+    maxWeight = Math.max(maxWeight, max)
+  }
 
-function runBandOnWorker(
-  worker: Worker,
-  src: Uint8ClampedArray,
-  weights: Float32Array,
-  width: number,
-  rows: number,
-  erodeIters: number,
-  dilateIters: number,
-  trimTop: number,
-  trimBottom: number,
-): Promise<Uint8ClampedArray> {
-  return new Promise((resolve) => {
-    const id = nextJobId++
-    pendingJobs.set(id, out => resolve(new Uint8ClampedArray(out)))
-    worker.postMessage(
-      { id, src: src.buffer, weights: weights.buffer, width, rows, erodeIters, dilateIters, trimTop, trimBottom },
-      [src.buffer, weights.buffer],
-    )
-  })
+  normalizeWeights(field, minWeight, maxWeight)
+  return s === 1 ? field : bilinearUpsampleField(field, fieldWidth, fieldHeight, width, height, s)
 }
 
 /**
  * Async outline expansion: identical output to
- * {@link outlineExpansionOptimized}, but the morphology chain is split into
- * horizontal bands (with halo rows) and processed concurrently on a Web
- * Worker pool. Falls back to the synchronous path when Workers are
- * unavailable (e.g. Node) or the image is small.
+ * {@link outlineExpansionOptimized}, but the expansion weights (see
+ * {@link calculateExpansionWeightAsync}) and the morphology chain are split
+ * into horizontal bands (with halo rows) and processed concurrently on
+ * `workerPool` (default: the shared Web Worker pool). Falls back to the
+ * synchronous path when there is no pool (`null`, or no Workers and none
+ * given) or the image is small.
+ *
+ * `control.onProgress` fires as bands complete; aborting `control.signal`
+ * terminates the workers still busy with this call's bands and rejects
+ * with a {@link PixelOEAbortError}.
  */
 export async function outlineExpansionOptimizedAsync(
   imageData: PixelImageData,
@@ -362,9 +412,14 @@ export async function outlineExpansionOptimizedAsync(
   edgeThreshold: number = 0.1,
   useOptimization: boolean = true,
   computeReturnWeights: boolean = true,
+  control: TaskControl = {},
+  workerPool?: TaskRunner | null,
 ): Promise<{ result: PixelImageData, weights: Float32Array, edgeCoverage?: number }> {
+  const { signal, onProgress } = control
+  throwIfAborted(signal)
+
   const { width, height } = imageData
-  const pool = useOptimization && width * height >= 500_000 ? getWorkerPool() : null
+  const pool = useOptimization && width * height >= MIN_PARALLEL_PIXELS ? resolveWorkerPool(workerPool) : null
 
   if (!pool) {
     return outlineExpansionOptimized(
@@ -380,48 +435,43 @@ export async function outlineExpansionOptimizedAsync(
     )
   }
 
-  const weights = calculateExpansionWeight(imageData, patchSize, Math.floor(patchSize / 4) * 2, avgScale, distScale)
+  const transparent = hasTransparency(imageData)
+  const source = transparent ? premultiplyAlpha(imageData) : imageData
+  // Weights first, then the morphology: each phase is half the progress
+  const weights = await calculateExpansionWeightAsync(
+    source,
+    pool,
+    patchSize,
+    Math.floor(patchSize / 4) * 2,
+    avgScale,
+    distScale,
+    { signal, onProgress: fraction => onProgress?.(fraction / 2) },
+  )
 
   const halo = outlineHaloRows(erodeIters, dilateIters)
-  const bandCount = Math.min(pool.length, Math.max(1, Math.floor(height / Math.max(32, halo * 4))))
-
-  const jobs: Promise<Uint8ClampedArray>[] = []
-  const bandStarts: number[] = []
-
-  for (let band = 0; band < bandCount; band++) {
-    const y0 = Math.floor(band * height / bandCount)
-    const y1 = Math.floor((band + 1) * height / bandCount)
-    const top = Math.max(0, y0 - halo)
-    const bottom = Math.min(height, y1 + halo)
-    const rows = bottom - top
+  const bandCount = Math.min(pool.size, Math.max(1, Math.floor(height / Math.max(32, halo * 4))))
+  const bands = planBands(height, Math.ceil(height / bandCount), halo)
 
+  const tasks: PoolTask<'outlineBand'>[] = bands.map(({ y0, y1, top, bottom }) => {
     // slice() copies, so each band owns transferable buffers
-    const srcSlice = imageData.data.slice(top * width * 4, bottom * width * 4)
-    const weightsSlice = weights.slice(top * width, bottom * width)
-
-    bandStarts.push(y0)
-    jobs.push(runBandOnWorker(
-      pool[band % pool.length],
-      srcSlice,
-      weightsSlice,
-      width,
-      rows,
-      erodeIters,
-      dilateIters,
-      y0 - top,
-      bottom - y1,
-    ))
-  }
-
-  const bandResults = await Promise.all(jobs)
+    const src = source.data.slice(top * width * 4, bottom * width * 4).buffer
+    const bandWeights = weights.slice(top * width, bottom * width).buffer
+    return {
+      task: 'outlineBand',
+      input: { src, weights: bandWeights, width, rows: bottom - top, erodeIters, dilateIters, trimTop: y0 - top, trimBottom: bottom - y1 },
+      transfer: [src, bandWeights],
+    }
+  })
+  const bandResults = await pool.runAll(tasks, { signal, onProgress: fraction => onProgress?.(0.5 + fraction / 2) })
 
   const out = new Uint8ClampedArray(width * height * 4)
   for (const [band, bandData] of bandResults.entries()) {
-    out.set(bandData, bandStarts[band] * width * 4)
+    out.set(new Uint8ClampedArray(bandData), bands[band].y0 * width * 4)
   }
 
+  const result = new PixelImageData(width, height, out)
   return {
-    result: new PixelImageData(width, height, out),
+    result: transparent ? unpremultiplyAlpha(result) : result,
     weights: computeReturnWeights
       ? processReturnWeights(weights, width, height, dilateIters)
       : weights,
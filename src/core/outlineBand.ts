@@ -1,5 +1,8 @@
+import { sigmoid } from '../utils/math'
 import { PixelImageData } from './imageData'
 import { dilateWithKernel, erodeWithKernel, getKernelRadius, MAX_KERNEL_INDEX } from './morphology'
+import { rgbaToLabLuminance01, rgbaToLabLuminance01Strided } from './planes'
+import { quantize01ToU8, slidingMax, slidingMedianU8, slidingMin } from './slidingStats'
 
 /**
  * Band-local processing for the circle-kernel outline expansion.
@@ -9,6 +12,8 @@ import { dilateWithKernel, erodeWithKernel, getKernelRadius, MAX_KERNEL_INDEX }
  * halo distance. That makes it splittable into horizontal bands processed
  * independently (e.g. on a Web Worker pool) — each band just needs `halo`
  * extra rows of context on each side, which are trimmed from the result.
+ * The expansion weights split the same way, over the rows of their
+ * (possibly strided) luminance field.
  */
 
 export function clampKernelIndex(value: number): number {
@@ -28,6 +33,125 @@ export function outlineHaloRows(erodeIters: number, dilateIters: number): number
   return stageRadius + 4 * getKernelRadius(ocIter)
 }
 
+export interface Band {
+  /** Output rows [y0, y1) */
+  y0: number
+  y1: number
+  /** Rows [top, bottom) to process: the band plus its halo, clamped to the image */
+  top: number
+  bottom: number
+}
+
+/**
+ * Split `height` rows into bands of about `bandRows` rows, each with `halo`
+ * context rows on both sides.
+ */
+export function planBands(height: number, bandRows: number, halo: number): Band[] {
+  const count = Math.max(1, Math.ceil(height / Math.max(1, bandRows)))
+  const bands: Band[] = []
+  for (let band = 0; band < count; band++) {
+    const y0 = Math.floor(band * height / count)
+    const y1 = Math.floor((band + 1) * height / count)
+    bands.push({ y0, y1, top: Math.max(0, y0 - halo), bottom: Math.min(height, y1 + halo) })
+  }
+  return bands
+}
+
+/**
+ * Compute sigmoid weights from local statistics at indices [from, to) into
+ * `out` (shifted by `outOffset`). Returns the [min, max] weight written.
+ */
+function statsToRawWeights(
+  medianU8: Uint8Array,
+  minStat: Float32Array,
+  maxStat: Float32Array,
+  avgScale: number,
+  distScale: number,
+  out: Float32Array,
+  from: number,
+  to: number,
+  outOffset: number,
+): [number, number] {
+  let minWeight = Infinity
+  let maxWeight = -Infinity
+
+  for (let i = from; i < to; i++) {
+    const med = medianU8[i] / 255
+    const brightDist = maxStat[i] - med
+    const darkDist = med - minStat[i]
+    const w = sigmoid((med - 0.5) * avgScale - (brightDist - darkDist) * distScale)
+    out[i - from + outOffset] = w
+    if (w < minWeight) {
+      minWeight = w
+    }
+    if (w > maxWeight) {
+      maxWeight = w
+    }
+  }
+
+  return [minWeight, maxWeight]
+}
+
+/**
+ * Sliding-window radii of the expansion weight statistics on a field with
+ * the given stride: median over a (2*median+1)² window, min/max over a
+ * (2*minMax+1)² window. At stride 1 they are exact per-pixel windows.
+ */
+export function expansionWeightRadii(patchSize: number, stride: number): { median: number, minMax: number } {
+  if (stride <= 1) {
+    return { median: patchSize, minMax: Math.floor(patchSize / 2) }
+  }
+  return {
+    median: Math.max(1, Math.round(patchSize / stride)),
+    minMax: Math.max(1, Math.round(Math.floor(patchSize / 2) / stride)),
+  }
+}
+
+/**
+ * Raw (not yet normalized) expansion weights for a horizontal band of the
+ * luminance field sampled every `stride` pixels.
+ *
+ * `src` holds RGBA data of `rows` image rows starting at a field row
+ * boundary (a multiple of `stride`), i.e. the band's field rows plus their
+ * halo; `trimTop`/`trimBottom` field rows are dropped from the result.
+ * Returns the weights together with their min and max, which the caller
+ * combines across bands to normalize.
+ */
+export function expansionWeightBand(
+  src: Uint8ClampedArray,
+  width: number,
+  rows: number,
+  stride: number,
+  patchSize: number,
+  avgScale: number,
+  distScale: number,
+  trimTop: number,
+  trimBottom: number,
+): { weights: Float32Array, min: number, max: number } {
+  const { field, fieldWidth, fieldHeight } = stride > 1
+    ? rgbaToLabLuminance01Strided(src, width, rows, stride)
+    : { field: rgbaToLabLuminance01(src, width, rows), fieldWidth: width, fieldHeight: rows }
+  const radii = expansionWeightRadii(patchSize, stride)
+
+  const medianU8 = slidingMedianU8(quantize01ToU8(field), fieldWidth, fieldHeight, radii.median)
+  const minStat = slidingMin(field, fieldWidth, fieldHeight, radii.minMax)
+  const maxStat = slidingMax(field, fieldWidth, fieldHeight, radii.minMax)
+
+  const weights = new Float32Array(fieldWidth * (fieldHeight - trimTop - trimBottom))
+  const [min, max] = statsToRawWeights(
+    medianU8,
+    minStat,
+    maxStat,
+    avgScale,
+    distScale,
+    weights,
+    trimTop * fieldWidth,
+    (fieldHeight - trimBottom) * fieldWidth,
+    0,
+  )
+  return { weights, min, max }
+}
+
 /**
  * Two-way weighted blend (eroded * w + dilated * (1 - w)), matching the
  * PyTorch pipeline which has no original-image term.
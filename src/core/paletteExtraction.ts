@@ -0,0 +1,144 @@
+import type { ColorPalette } from './palettes'
+import { PixelImageData } from './imageData'
+import { colorQuantizationKMeans } from './quantization'
+
+/**
+ * Palette extraction: the main colors of a reference image as a
+ * `ColorPalette`, e.g. to give a result the colors of another piece
+ * through `selectedPalette`.
+ */
+
+export interface ExtractPaletteOptions {
+  /** Palette name (default: 'Extracted') */
+  name?: string
+  /** Order dark to light ('luminance', the default) or by how many pixels each color covers ('frequency') */
+  sort?: 'luminance' | 'frequency'
+  /** K-means iterations (default: 50) */
+  maxIterations?: number
+  /**
+   * Pixels K-means clusters at most; larger images are sampled on an even
+   * grid (default: 65536)
+   */
+  maxSamples?: number
+}
+
+/** Rec. 601 luma, as the ordered dither uses */
+function luminance([r, g, b]: readonly number[]): number {
+  return 0.299 * r + 0.587 * g + 0.114 * b
+}
+
+/** Visible pixels of an image with their counts, in first-seen order; stops past `limit` colors */
+function countColors(image: PixelImageData, limit: number): Map<number, number> | null {
+  const counts = new Map<number, number>()
+  const { data } = image
+  for (let p = 0; p < data.length; p += 4) {
+    if (data[p + 3] === 0) {
+      continue
+    }
+    const key = (data[p] << 16) | (data[p + 1] << 8) | data[p + 2]
+    counts.set(key, (counts.get(key) ?? 0) + 1)
+    if (counts.size > limit) {
+      return null
+    }
+  }
+  return counts
+}
+
+/**
+ * K-means seeds spread over the colors in use: the most common color
+ * first, then each time the color with the most pixels far from every
+ * seed so far (a deterministic k-means++). The min-max interpolation the
+ * pipeline seeds with can leave clusters empty on images whose colors
+ * don't lie along the diagonal of their bounding box.
+ */
+function spreadSeeds(counts: Map<number, number>, count: number): number[][] {
+  const colors = [...counts.keys()].map(key => [key >> 16, (key >> 8) & 0xFF, key & 0xFF])
+  const pixels = [...counts.values()]
+  const distances = new Float64Array(colors.length).fill(Infinity)
+  const seeds: number[][] = []
+  let next = 0
+  for (const [i, n] of pixels.entries()) {
+    if (n > pixels[next]) {
+      next = i
+    }
+  }
+  while (seeds.length < count && next !== -1) {
+    const seed = colors[next]
+    seeds.push(seed)
+    next = -1
+    let best = 0
+    for (const [i, [r, g, b]] of colors.entries()) {
+      distances[i] = Math.min(distances[i], (r - seed[0]) ** 2 + (g - seed[1]) ** 2 + (b - seed[2]) ** 2)
+      const score = distances[i] * pixels[i]
+      if (score > best) {
+        best = score
+        next = i
+      }
+    }
+  }
+  return seeds
+}
+
+/** Every `step`-th pixel on both axes, so K-means stays fast on photos */
+function samplePixels(image: PixelImageData, maxSamples: number): PixelImageData {
+  const step = Math.ceil(Math.sqrt(image.width * image.height / maxSamples))
+  if (step <= 1) {
+    return image
+  }
+  const sampled = new PixelImageData(Math.ceil(image.width / step), Math.ceil(image.height / step))
+  for (let y = 0; y < sampled.height; y++) {
+    for (let x = 0; x < sampled.width; x++) {
+      const source = ((y * step) * image.width + x * step) * 4
+      sampled.data.set(image.data.subarray(source, source + 4), (y * sampled.width + x) * 4)
+    }
+  }
+  return sampled
+}
+
+/**
+ * Extract up to `count` colors from `image`. Images with at most `count`
+ * colors keep their exact colors; others are clustered with K-means,
+ * seeded over the colors in use.
+ * Clusters left without pixels and centroids rounding to the same color
+ * are dropped, so the palette can come out smaller than `count`.
+ * Transparent pixels are ignored. Throws when `count` is below 1 or the
+ * image has no visible pixels.
+ */
+export function extractPalette(image: PixelImageData, count: number, options: ExtractPaletteOptions = {}): ColorPalette {
+  const { name = 'Extracted', sort = 'luminance', maxIterations, maxSamples = 65_536 } = options
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(`Palette size must be a positive integer, got ${count}`)
+  }
+
+  let counts = countColors(image, count)
+  if (!counts) {
+    const sample = samplePixels(image, maxSamples)
+    const { centroids, labels } = colorQuantizationKMeans(sample, {
+      numCentroids: count,
+      maxIterations,
+      initialCentroids: spreadSeeds(countColors(sample, Infinity)!, count),
+    })
+    counts = new Map()
+    for (const label of labels) {
+      if (label === -1) {
+        continue
+      }
+      const [r, g, b] = centroids[label].map(c => Math.max(0, Math.min(255, Math.round(c))))
+      const key = (r << 16) | (g << 8) | b
+      counts.set(key, (counts.get(key) ?? 0) + 1)
+    }
+  }
+  if (counts.size === 0) {
+    throw new Error('Image has no visible pixels to extract a palette from')
+  }
+
+  const entries = [...counts].map(([key, pixels]) => ({ color: [key >> 16, (key >> 8) & 0xFF, key & 0xFF], pixels }))
+  entries.sort(sort === 'luminance'
+    ? (a, b) => luminance(a.color) - luminance(b.color)
+    : (a, b) => b.pixels - a.pixels)
+  return {
+    name,
+    description: `${entries.length} colors extracted from a ${image.width}x${image.height} image`,
+    colors: entries.map(({ color }) => color),
+  }
+}
@@ -0,0 +1,414 @@
+import type { ColorPalette } from './palettes'
+import { labToRgb } from './colorSpace'
+import { PixelImageData } from './imageData'
+import { rgbToHex } from './palettes'
+import { decodePng, encodeIndexedPng, encodePng, isPng } from './png'
+
+/**
+ * Palette file writers, for reusing a result's palette (e.g.
+ * `PixelOEResult.palette`) in other tools: GIMP `.gpl`, JASC `.pal`
+ * (Paint Shop Pro, Aseprite, Pyxel Edit), Lospec `.hex` and a PNG swatch
+ * strip; and readers turning those and a few more formats into
+ * `ColorPalette`s.
+ */
+
+export type PaletteFileFormat = 'gpl' | 'pal' | 'hex' | 'png'
+
+function hex(color: readonly number[]): string {
+  return rgbToHex(color[0], color[1], color[2]).slice(1)
+}
+
+/** GIMP palette; each color is named by its hex code */
+export function writeGplPalette(colors: readonly number[][], name: string = 'PixelOE'): string {
+  const lines = ['GIMP Palette', `Name: ${name}`, '#']
+  for (const color of colors) {
+    const [r, g, b] = color.map(c => String(Math.round(c)).padStart(3))
+    lines.push(`${r} ${g} ${b}\t#${hex(color)}`)
+  }
+  return `${lines.join('\n')}\n`
+}
+
+/** JASC-PAL (version 0100), with the CRLF line endings its readers expect */
+export function writeJascPalette(colors: readonly number[][]): string {
+  const lines = ['JASC-PAL', '0100', String(colors.length), ...colors.map(color => color.slice(0, 3).map(c => Math.round(c)).join(' '))]
+  return `${lines.join('\r\n')}\r\n`
+}
+
+/** Lospec hex list: one `rrggbb` per line */
+export function writeHexPalette(colors: readonly number[][]): string {
+  return colors.map(color => `${hex(color)}\n`).join('')
+}
+
+/** One pixel per color in a single row, indexed when it fits 256 colors */
+export function writePaletteSwatch(colors: readonly number[][]): Uint8Array<ArrayBuffer> {
+  if (colors.length === 0) {
+    throw new Error('Palette has no colors')
+  }
+  const strip = new PixelImageData(colors.length, 1)
+  for (const [i, [r, g, b]] of colors.entries()) {
+    strip.setPixel(i, 0, [r, g, b, 255])
+  }
+  return encodeIndexedPng(strip, colors) ?? encodePng(strip)
+}
+
+/** Any of the palette formats as file bytes; `name` is only stored by GPL */
+export function encodePaletteFile(colors: readonly number[][], format: PaletteFileFormat, name?: string): Uint8Array<ArrayBuffer> {
+  switch (format) {
+    case 'gpl': {
+      return new TextEncoder().encode(writeGplPalette(colors, name))
+    }
+    case 'pal': {
+      return new TextEncoder().encode(writeJascPalette(colors))
+    }
+    case 'hex': {
+      return new TextEncoder().encode(writeHexPalette(colors))
+    }
+    case 'png': {
+      return writePaletteSwatch(colors)
+    }
+  }
+}
+
+/**
+ * Palette file readers, the other way round: GIMP `.gpl`, JASC and
+ * Microsoft RIFF `.pal`, Lospec `.hex`, Paint.NET `.txt`, Adobe Swatch
+ * Exchange `.ase` and PNG swatch strips. Each returns the colors in file
+ * order without duplicates, and throws on malformed files or palettes
+ * without colors.
+ */
+
+export type PaletteImportFormat = 'gpl' | 'jasc' | 'riff' | 'hex' | 'paintnet' | 'ase' | 'png'
+
+/** Parsed colors plus the name the file stores, if any */
+export interface ParsedPalette {
+  colors: number[][]
+  name?: string
+}
+
+const FORMAT_LABELS: Record<PaletteImportFormat, string> = {
+  gpl: 'GIMP palette',
+  jasc: 'JASC palette',
+  riff: 'RIFF palette',
+  hex: 'HEX palette',
+  paintnet: 'Paint.NET palette',
+  ase: 'Adobe swatches',
+  png: 'PNG swatch strip',
+}
+
+function uniqueColors(colors: readonly number[][]): number[][] {
+  const seen = new Set<number>()
+  return colors.filter(([r, g, b]) => {
+    const key = (r << 16) | (g << 8) | b
+    const unique = !seen.has(key)
+    seen.add(key)
+    return unique
+  })
+}
+
+function checkColors(colors: number[][], format: PaletteImportFormat): number[][] {
+  const unique = uniqueColors(colors)
+  if (unique.length === 0) {
+    throw new Error(`${FORMAT_LABELS[format]} has no colors`)
+  }
+  return unique
+}
+
+/** A color component written as a decimal integer in 0-255 */
+function channel(text: string, line: number): number {
+  const value = Number(text)
+  if (!/^\d+$/.test(text) || value > 255) {
+    throw new Error(`Invalid color component "${text}" on line ${line}`)
+  }
+  return value
+}
+
+/** Lines with their 1-based numbers, trimmed, without blank ones */
+function textLines(text: string): { text: string, line: number }[] {
+  return text.split(/\r?\n/)
+    .map((line, i) => ({ text: line.trim(), line: i + 1 }))
+    .filter(({ text }) => text !== '')
+}
+
+function hexColor(text: string, line: number): number[] {
+  const digits = text.replace(/^#/, '')
+  if (!/^[\da-f]{6}(?:[\da-f]{2})?$/i.test(digits)) {
+    throw new Error(`Invalid hex color "${text}" on line ${line}`)
+  }
+  // AARRGGBB keeps the color in its last six digits
+  const value = Number.parseInt(digits.slice(-6), 16)
+  return [value >> 16, (value >> 8) & 0xFF, value & 0xFF]
+}
+
+export function parseGplPalette(text: string): ParsedPalette {
+  const [header, ...lines] = textLines(text)
+  if (header?.text !== 'GIMP Palette') {
+    throw new Error('Not a GIMP palette')
+  }
+  let name: string | undefined
+  const colors: number[][] = []
+  for (const { text: entry, line } of lines) {
+    if (entry.startsWith('#')) {
+      continue
+    }
+    if (entry.startsWith('Name:')) {
+      name = entry.slice(5).trim() || undefined
+      continue
+    }
+    if (entry.startsWith('Columns:')) {
+      continue
+    }
+    // "r g b" followed by an optional color name
+    const [r, g, b] = entry.split(/\s+/)
+    if (b === undefined) {
+      throw new Error(`Invalid GIMP palette entry on line ${line}`)
+    }
+    colors.push([channel(r, line), channel(g, line), channel(b, line)])
+  }
+  return { colors: checkColors(colors, 'gpl'), name }
+}
+
+export function parseJascPalette(text: string): ParsedPalette {
+  const [header, version, count, ...lines] = textLines(text)
+  if (header?.text !== 'JASC-PAL') {
+    throw new Error('Not a JASC palette')
+  }
+  if (version?.text !== '0100') {
+    throw new Error(`Unsupported JASC palette version "${version?.text ?? ''}"`)
+  }
+  const declared = Number(count?.text)
+  if (!Number.isInteger(declared) || declared < 0) {
+    throw new Error('Invalid JASC palette color count')
+  }
+  if (lines.length < declared) {
+    throw new Error(`JASC palette declares ${declared} colors but has ${lines.length}`)
+  }
+  const colors = lines.slice(0, declared).map(({ text: entry, line }) => {
+    const parts = entry.split(/\s+/)
+    if (parts.length < 3) {
+      throw new Error(`Invalid JASC palette entry on line ${line}`)
+    }
+    return parts.slice(0, 3).map(part => channel(part, line))
+  })
+  return { colors: checkColors(colors, 'jasc') }
+}
+
+/** Lospec hex list; `#` prefixes are allowed */
+export function parseHexPalette(text: string): ParsedPalette {
+  const colors = textLines(text).map(({ text: entry, line }) => {
+    if (!/^#?[\da-f]{6}$/i.test(entry)) {
+      throw new Error(`Invalid hex color "${entry}" on line ${line}`)
+    }
+    return hexColor(entry, line)
+  })
+  return { colors: checkColors(colors, 'hex') }
+}
+
+/** Paint.NET: `;` comments and one AARRGGBB per line; alpha is dropped */
+export function parsePaintNetPalette(text: string): ParsedPalette {
+  const colors = textLines(text)
+    .filter(({ text: entry }) => !entry.startsWith(';'))
+    .map(({ text: entry, line }) => {
+      if (!/^[\da-f]{8}$/i.test(entry)) {
+        throw new Error(`Invalid Paint.NET color "${entry}" on line ${line}`)
+      }
+      return hexColor(entry, line)
+    })
+  return { colors: checkColors(colors, 'paintnet') }
+}
+
+function fourCC(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + 4))
+}
+
+/** Microsoft RIFF palette: a "PAL " form with a LOGPALETTE `data` chunk */
+export function parseRiffPalette(bytes: Uint8Array): ParsedPalette {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  if (bytes.length < 12 || fourCC(bytes, 0) !== 'RIFF' || fourCC(bytes, 8) !== 'PAL ') {
+    throw new Error('Not a RIFF palette')
+  }
+  for (let offset = 12; offset + 8 <= bytes.length;) {
+    const size = view.getUint32(offset + 4, true)
+    if (fourCC(bytes, offset) === 'data') {
+      if (size < 4 || offset + 8 + size > bytes.length) {
+        throw new Error('Truncated RIFF palette')
+      }
+      const count = view.getUint16(offset + 10, true)
+      if (4 + count * 4 > size) {
+        throw new Error(`RIFF palette declares ${count} colors but has room for ${Math.floor((size - 4) / 4)}`)
+      }
+      const colors: number[][] = []
+      // PALETTEENTRY: red, green, blue, flags
+      for (let i = 0, entry = offset + 12; i < count; i++, entry += 4) {
+        colors.push([bytes[entry], bytes[entry + 1], bytes[entry + 2]])
+      }
+      return { colors: checkColors(colors, 'riff') }
+    }
+    // Chunks are padded to even sizes
+    offset += 8 + size + (size & 1)
+  }
+  throw new Error('RIFF palette has no data chunk')
+}
+
+const ASE_COLOR_ENTRY = 0x00_01
+
+/** Big-endian 32-bit floats of an ASE color block ending at `end` */
+function floats(view: DataView, offset: number, count: number, end: number): number[] {
+  if (offset + count * 4 > end) {
+    throw new Error('Truncated Adobe swatch color')
+  }
+  return Array.from({ length: count }, (_, i) => view.getFloat32(offset + i * 4))
+}
+
+function unit(value: number): number {
+  return Math.max(0, Math.min(255, Math.round(value * 255)))
+}
+
+/**
+ * Adobe Swatch Exchange: RGB, Gray, CMYK (converted naively, without a
+ * color profile) and Lab swatches; groups are flattened. The name is that
+ * of the first group, if any.
+ */
+export function parseAsePalette(bytes: Uint8Array): ParsedPalette {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  if (bytes.length < 12 || fourCC(bytes, 0) !== 'ASEF') {
+    throw new Error('Not an Adobe swatch exchange file')
+  }
+  const blocks = view.getUint32(8)
+  const colors: number[][] = []
+  let name: string | undefined
+  let offset = 12
+  for (let block = 0; block < blocks; block++) {
+    if (offset + 6 > bytes.length) {
+      throw new Error('Truncated Adobe swatch exchange file')
+    }
+    const type = view.getUint16(offset)
+    const length = view.getUint32(offset + 2)
+    const body = offset + 6
+    if (body + length > bytes.length) {
+      throw new Error('Truncated Adobe swatch exchange file')
+    }
+    offset = body + length
+    if (length < 2) {
+      continue
+    }
+    // UTF-16BE name, with its terminating null counted
+    const nameLength = view.getUint16(body)
+    const title = String.fromCharCode(...Array.from({ length: Math.max(0, nameLength - 1) }, (_, i) => view.getUint16(body + 2 + i * 2)))
+    if (type !== ASE_COLOR_ENTRY) {
+      name ??= title || undefined
+      continue
+    }
+    const model = body + 2 + nameLength * 2
+    if (model + 4 > offset) {
+      throw new Error('Truncated Adobe swatch color')
+    }
+    switch (fourCC(bytes, model)) {
+      case 'RGB ': {
+        colors.push(floats(view, model + 4, 3, offset).map(unit))
+        break
+      }
+      case 'Gray': {
+        const [gray] = floats(view, model + 4, 1, offset)
+        colors.push([unit(gray), unit(gray), unit(gray)])
+        break
+      }
+      case 'CMYK': {
+        const [c, m, y, k] = floats(view, model + 4, 4, offset)
+        colors.push([c, m, y].map(ink => unit((1 - ink) * (1 - k))))
+        break
+      }
+      case 'LAB ': {
+        const [l, a, b] = floats(view, model + 4, 3, offset)
+        colors.push(labToRgb(l * 100, a, b))
+        break
+      }
+      default: {
+        throw new Error(`Unsupported Adobe swatch color model "${fourCC(bytes, model)}"`)
+      }
+    }
+  }
+  return { colors: checkColors(colors, 'ase'), name }
+}
+
+/** Colors of a swatch image in reading order, skipping transparent pixels */
+export function parsePaletteSwatch(bytes: Uint8Array): ParsedPalette {
+  const image = decodePng(bytes)
+  const colors: number[][] = []
+  for (let p = 0; p < image.data.length; p += 4) {
+    if (image.data[p + 3] !== 0) {
+      colors.push([image.data[p], image.data[p + 1], image.data[p + 2]])
+    }
+  }
+  return { colors: checkColors(colors, 'png') }
+}
+
+/**
+ * The format of a palette file, from its signature or first line; files
+ * that match none are read as hex lists, or as Paint.NET palettes when
+ * `fileName` ends in `.txt`.
+ */
+export function detectPaletteFormat(bytes: Uint8Array, fileName: string = ''): PaletteImportFormat {
+  if (isPng(bytes)) {
+    return 'png'
+  }
+  if (fourCC(bytes, 0) === 'RIFF') {
+    return 'riff'
+  }
+  if (fourCC(bytes, 0) === 'ASEF') {
+    return 'ase'
+  }
+  const firstLine = new TextDecoder().decode(bytes.subarray(0, 64)).trimStart()
+  if (firstLine.startsWith('GIMP Palette')) {
+    return 'gpl'
+  }
+  if (firstLine.startsWith('JASC-PAL')) {
+    return 'jasc'
+  }
+  return firstLine.startsWith(';') || /\.txt$/i.test(fileName) ? 'paintnet' : 'hex'
+}
+
+/**
+ * Read a palette file of any supported format into a `ColorPalette`,
+ * named by the file unless it stores a name.
+ */
+export function parsePaletteFile(bytes: Uint8Array, fileName: string = 'Imported'): ColorPalette {
+  const format = detectPaletteFormat(bytes, fileName)
+  const text = (): string => new TextDecoder().decode(bytes)
+  let parsed: ParsedPalette
+  switch (format) {
+    case 'gpl': {
+      parsed = parseGplPalette(text())
+      break
+    }
+    case 'jasc': {
+      parsed = parseJascPalette(text())
+      break
+    }
+    case 'riff': {
+      parsed = parseRiffPalette(bytes)
+      break
+    }
+    case 'hex': {
+      parsed = parseHexPalette(text())
+      break
+    }
+    case 'paintnet': {
+      parsed = parsePaintNetPalette(text())
+      break
+    }
+    case 'ase': {
+      parsed = parseAsePalette(bytes)
+      break
+    }
+    case 'png': {
+      parsed = parsePaletteSwatch(bytes)
+      break
+    }
+  }
+  const baseName = fileName.replace(/^.*[/\\]/, '').replace(/\.[^.]*$/, '')
+  return {
+    name: parsed.name ?? (baseName || 'Imported'),
+    description: `${FORMAT_LABELS[format]} imported from ${fileName}`,
+    colors: parsed.colors,
+  }
+}
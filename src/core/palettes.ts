@@ -373,7 +373,7 @@ export const PREDEFINED_PALETTES: ColorPalette[] = [
  */
 export function findNearestColorInPalette(
   pixel: number[],
-  palette: number[][],
+  palette: readonly number[][],
 ): number[] {
   let minDistance = Infinity
   let nearestColor = palette[0]
@@ -0,0 +1,354 @@
+import type { PixelOEOptions } from '../pixeloe'
+import type { StageName } from './cancellation'
+import type { DownscaleTarget } from './grid'
+import type { PixelImageData } from './imageData'
+import type { PixelOELogger } from './logger'
+import { applyAlphaThreshold } from './alpha'
+import { colorStyling } from './color'
+import { matchColorFast } from './colorOptimizedFast'
+import { contourDownscale } from './contourPixelize'
+import { contrastDownscale, contrastDownscaleAsync, contrastDownscaleTiled } from './downscale'
+import { contrastDownscaleMRF } from './downscaleMRF'
+import { resizeImageSync } from './imageResize'
+import { outlineExpansion, outlineExpansionOptimized, outlineExpansionOptimizedAsync, outlineExpansionTiled } from './outline'
+import { quantizeAndDitherWithCentroids, quantizeToPalette, remapColors, snapToColors, usedColors } from './quantization'
+import { applySharpen } from './sharpen'
+
+/**
+ * The pixelize pipeline as an ordered list of named stages.
+ *
+ * Every stage maps an image to an image. The sync and async entry points
+ * of `PixelOE` walk the same list; a stage may provide `runAsync` to do
+ * its work off the main thread (the outline and downscale stages use the
+ * worker pool), otherwise `run` is used on both paths.
+ */
+
+/**
+ * Per-run state shared by all stages.
+ */
+export interface PipelineContext {
+  readonly options: PixelOEOptions
+  readonly logger: PixelOELogger
+  /** Prepared (preprocessed + target-resized) input, before outline expansion. Color-matching reference. */
+  readonly original: PixelImageData
+  readonly returnIntermediate: boolean
+  /** True while computing a draft preview: stages may trade quality for speed. */
+  readonly draft: boolean
+  readonly signal?: AbortSignal
+  /** Report progress (0-1) of the running stage. */
+  reportProgress: (fraction: number) => void
+  /** Expansion weights, written by the outline stage. */
+  weights?: Float32Array
+  /**
+   * Colors the quantized image uses, written by the quantize stage. Stages
+   * recoloring each color after it (styling) keep it in step with the
+   * image.
+   */
+  palette?: number[][]
+}
+
+export interface PipelineStage {
+  name: StageName
+  /** Skipped stages produce no progress events. Defaults to always enabled. */
+  enabled?: (ctx: PipelineContext) => boolean
+  /**
+   * Every option `enabled`, `run` and `runAsync` read. Declaring them lets
+   * `PixelOE` reuse the stage's output while they and the input are
+   * unchanged; stages without it always run, and so do all after them.
+   */
+  dependsOn?: readonly (keyof PixelOEOptions)[]
+  run: (image: PixelImageData, ctx: PipelineContext) => PixelImageData
+  runAsync?: (image: PixelImageData, ctx: PipelineContext) => Promise<PixelImageData>
+}
+
+/**
+ * Ordered, name-addressed stage list. Mutators return `this` for chaining
+ * and throw when the referenced stage does not exist or a name is reused.
+ */
+export class Pipeline {
+  private stages: PipelineStage[]
+
+  constructor(stages: PipelineStage[] = []) {
+    this.stages = []
+    for (const stage of stages) {
+      this.append(stage)
+    }
+  }
+
+  get names(): StageName[] {
+    return this.stages.map(stage => stage.name)
+  }
+
+  list(): readonly PipelineStage[] {
+    return [...this.stages]
+  }
+
+  has(name: StageName): boolean {
+    return this.stages.some(stage => stage.name === name)
+  }
+
+  get(name: StageName): PipelineStage | undefined {
+    return this.stages.find(stage => stage.name === name)
+  }
+
+  append(stage: PipelineStage): this {
+    this.assertUnique(stage.name)
+    this.stages.push(stage)
+    return this
+  }
+
+  insertBefore(name: StageName, stage: PipelineStage): this {
+    const index = this.indexOf(name)
+    this.assertUnique(stage.name)
+    this.stages.splice(index, 0, stage)
+    return this
+  }
+
+  insertAfter(name: StageName, stage: PipelineStage): this {
+    const index = this.indexOf(name)
+    this.assertUnique(stage.name)
+    this.stages.splice(index + 1, 0, stage)
+    return this
+  }
+
+  /** Swap a stage for another; the replacement may keep or change the name. */
+  replace(name: StageName, stage: PipelineStage): this {
+    const index = this.indexOf(name)
+    if (stage.name !== name) {
+      this.assertUnique(stage.name)
+    }
+    this.stages[index] = stage
+    return this
+  }
+
+  remove(name: StageName): this {
+    this.stages.splice(this.indexOf(name), 1)
+    return this
+  }
+
+  clone(): Pipeline {
+    return new Pipeline(this.stages)
+  }
+
+  private indexOf(name: StageName): number {
+    const index = this.stages.findIndex(stage => stage.name === name)
+    if (index === -1) {
+      throw new Error(`Unknown pipeline stage: ${name}`)
+    }
+    return index
+  }
+
+  private assertUnique(name: StageName): void {
+    if (this.has(name)) {
+      throw new Error(`Duplicate pipeline stage: ${name}`)
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Built-in stages
+// ---------------------------------------------------------------------------
+
+function useOptimizedOutline(options: PixelOEOptions): boolean {
+  return (options.edgeExpansionMode || 'optimized') === 'optimized' && !!options.useEdgeOptimization
+}
+
+/** Outline expansion (before sharpening, matching Python) */
+export const outlineStage: PipelineStage = {
+  name: 'outline',
+  dependsOn: ['thickness', 'pixelSize', 'edgeExpansionMode', 'useEdgeOptimization', 'edgeDetectionThreshold', 'tiled', 'tileRows'],
+  enabled: ({ options }) => options.thickness > 0,
+  run(image, ctx) {
+    const { options } = ctx
+    if (options.tiled && useOptimizedOutline(options)) {
+      const expansion = outlineExpansionTiled(
+        image,
+        options.thickness,
+        options.thickness,
+        options.pixelSize,
+        9,
+        4,
+        ctx.returnIntermediate,
+        options.tileRows,
+        { signal: ctx.signal, onProgress: ctx.reportProgress },
+      )
+      ctx.weights = expansion.weights
+      return expansion.result
+    }
+    const expansion = useOptimizedOutline(options)
+      ? outlineExpansionOptimized(
+          image,
+          options.thickness,
+          options.thickness,
+          options.pixelSize,
+          9, // avgScale
+          4, // distScale
+          options.edgeDetectionThreshold || 0.1,
+          true, // useOptimization
+          ctx.returnIntermediate, // computeReturnWeights
+        )
+      : outlineExpansion(image, options.thickness, options.thickness, options.pixelSize, 9, 4)
+    ctx.weights = expansion.weights
+    return expansion.result
+  },
+  async runAsync(image, ctx) {
+    const { options } = ctx
+    // Tiled mode trades the worker pool for bounded memory
+    if (!useOptimizedOutline(options) || options.tiled) {
+      return this.run(image, ctx)
+    }
+    const expansion = await outlineExpansionOptimizedAsync(
+      image,
+      options.thickness,
+      options.thickness,
+      options.pixelSize,
+      9,
+      4,
+      options.edgeDetectionThreshold || 0.1,
+      true,
+      ctx.returnIntermediate,
+      { signal: ctx.signal, onProgress: ctx.reportProgress },
+      options.workerPool,
+    )
+    ctx.weights = expansion.weights
+    return expansion.result
+  },
+}
+
+/** Optional sharpening (after outline expansion, matching Python) */
+export const sharpenStage: PipelineStage = {
+  name: 'sharpen',
+  dependsOn: ['sharpenMode', 'sharpenStrength'],
+  enabled: ({ options }) => !!options.sharpenMode && options.sharpenMode !== 'none',
+  run: (image, { options }) => applySharpen(image, options.sharpenMode!, options.sharpenStrength || 1),
+}
+
+/** First color matching against the prepared input */
+export const colorMatchStage: PipelineStage = {
+  name: 'colorMatch',
+  dependsOn: ['colorMatching'],
+  enabled: ({ options }) => options.colorMatching,
+  run: (image, { original }) => matchColorFast(image, original),
+}
+
+/**
+ * Output grid target of the downscale stage for a run on `original`, the
+ * prepared input
+ */
+export function resolveDownscaleTarget({ options, original }: Pick<PipelineContext, 'options' | 'original'>): DownscaleTarget {
+  // Exact grid when targetWidth/targetHeight are set, else targetSize if provided,
+  // otherwise calculate from pixelSize (backward compatibility)
+  return options.targetWidth || options.targetHeight
+    ? options
+    : options.targetSize || Math.floor(Math.sqrt(original.width * original.height) / options.pixelSize)
+}
+
+function downscale(image: PixelImageData, ctx: PipelineContext): PixelImageData {
+  const { options } = ctx
+  const target = resolveDownscaleTarget(ctx)
+
+  if (options.downscaleMethod === 'mrf' || options.downscaleMethod === 'mrf-rescue') {
+    return contrastDownscaleMRF(image, target, { aa: options.mrfAA, rescue: options.downscaleMethod === 'mrf-rescue' })
+  }
+  if (options.downscaleMethod === 'contour') {
+    return contourDownscale(image, target)
+  }
+  return options.tiled ? contrastDownscaleTiled(image, target, options.tileRows) : contrastDownscale(image, target)
+}
+
+/** Downscale to the output grid, then snap coverage to 1-bit transparency */
+export const downscaleStage: PipelineStage = {
+  name: 'downscale',
+  dependsOn: ['noDownscale', 'targetWidth', 'targetHeight', 'targetSize', 'fit', 'pixelSize', 'downscaleMethod', 'mrfAA', 'tiled', 'tileRows', 'alphaThreshold'],
+  enabled: ({ options }) => !options.noDownscale,
+  run: (image, ctx) => applyAlphaThreshold(downscale(image, ctx), ctx.options.alphaThreshold ?? 128),
+  async runAsync(image, ctx) {
+    const { options } = ctx
+    // Only the contrast method is banded; tiled mode keeps its bounded memory
+    if (options.downscaleMethod === 'mrf' || options.downscaleMethod === 'mrf-rescue' || options.downscaleMethod === 'contour' || options.tiled) {
+      return this.run(image, ctx)
+    }
+    const downscaled = await contrastDownscaleAsync(
+      image,
+      resolveDownscaleTarget(ctx),
+      { signal: ctx.signal, onProgress: ctx.reportProgress },
+      options.workerPool,
+    )
+    return applyAlphaThreshold(downscaled, options.alphaThreshold ?? 128)
+  },
+}
+
+/** K-means refinement passes in draft runs; the initial centroids are already close */
+const DRAFT_KMEANS_ITERATIONS = 4
+
+/**
+ * Color quantization and dithering (palette or K-means), then a second
+ * color match, snapped back onto the palette so the result stays indexable
+ */
+export const quantizeStage: PipelineStage = {
+  name: 'quantize',
+  dependsOn: ['usePalette', 'selectedPalette', 'doQuantization', 'numColors', 'ditherMethod', 'colorMatching'],
+  enabled: ({ options }) => (!!options.usePalette && !!options.selectedPalette) || !!options.doQuantization,
+  run(image, ctx) {
+    const { options, logger, draft } = ctx
+    const ditherMethod = options.ditherMethod || 'none'
+    let quantized: PixelImageData
+    let colors: number[][]
+    if (options.usePalette && options.selectedPalette) {
+      quantized = quantizeToPalette(image, options.selectedPalette, ditherMethod)
+      colors = options.selectedPalette.colors
+      logger.debug(`[PixelOE] Applied palette: ${options.selectedPalette.name} (${options.selectedPalette.colors.length} colors)`)
+    }
+    else {
+      const { result, centroids } = quantizeAndDitherWithCentroids(image, options.numColors || 32, ditherMethod, undefined, draft ? DRAFT_KMEANS_ITERATIONS : undefined)
+      quantized = result
+      colors = centroids
+    }
+
+    // Second color matching after quantization (key difference from
+    // original). Its wavelet fix shifts pixels off the palette, so they are
+    // moved to the nearest palette color again
+    if (options.colorMatching) {
+      quantized = snapToColors(matchColorFast(quantized, image), colors)
+    }
+    ctx.palette = usedColors(quantized, colors)
+    return quantized
+  },
+}
+
+export const stylingStage: PipelineStage = {
+  name: 'styling',
+  dependsOn: ['contrast', 'saturation'],
+  enabled: ({ options }) => options.contrast !== 1 || options.saturation !== 1,
+  run(image, ctx) {
+    const styled = colorStyling(image, ctx.options.saturation, ctx.options.contrast)
+    if (ctx.palette) {
+      ctx.palette = remapColors(ctx.palette, image, styled)
+    }
+    return styled
+  },
+}
+
+/** Nearest-neighbor upscale back to pixelSize blocks */
+export const upscaleStage: PipelineStage = {
+  name: 'upscale',
+  dependsOn: ['noUpscale', 'noPostUpscale', 'pixelSize'],
+  enabled: ({ options }) => !options.noUpscale && !options.noPostUpscale,
+  run: (image, { options }) => resizeImageSync(image, image.width * options.pixelSize, image.height * options.pixelSize, 'nearest'),
+}
+
+/**
+ * The standard stage order: outline → sharpen → colorMatch → downscale →
+ * quantize → styling → upscale.
+ */
+export function createDefaultPipeline(): Pipeline {
+  return new Pipeline([
+    outlineStage,
+    sharpenStage,
+    colorMatchStage,
+    downscaleStage,
+    quantizeStage,
+    stylingStage,
+    upscaleStage,
+  ])
+}
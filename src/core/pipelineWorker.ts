@@ -0,0 +1,190 @@
+import type { PixelOEResult, PixelOETimings } from '../pixeloe'
+import type { StageName } from './cancellation'
+import type { SerializedOptions } from './options'
+import { PixelOE } from '../pixeloe'
+import { PixelImageData } from './imageData'
+import { deserializeOptions } from './options'
+import { StageCache } from './stageCache'
+
+/**
+ * Message protocol between {@link PixelOEWorkerClient} and the worker
+ * running the full pipeline. Pixel buffers travel as transferables; options
+ * in their serialized form (the logger is forwarded as `log` messages).
+ */
+
+export interface WorkerImage {
+  width: number
+  height: number
+  data: ArrayBuffer
+}
+
+export interface WorkerPixelizeRequest {
+  id: number
+  options: SerializedOptions
+  /** The input; left out when the worker already holds it under `imageKey` */
+  image?: WorkerImage
+  /**
+   * Identifies the client's input object: a request repeating the previous
+   * request's key reuses the worker's copy of the input, and with it the
+   * cached stage outputs
+   */
+  imageKey?: number
+  returnIntermediate?: boolean
+  capture?: StageName[] | 'all'
+  regions?: { mask: WorkerImage | Uint8Array, options: SerializedOptions }[]
+  /** Post `progress` messages */
+  progress: boolean
+  /** Post `log` messages */
+  log?: boolean
+  /** Post a `draft` message before the full run */
+  draft?: boolean
+}
+
+export type WorkerPixelizeResponse
+  = | { type: 'progress', id: number, stage: StageName, fraction: number }
+    | { type: 'log', id: number, level: 'debug' | 'warn', message: string }
+    | { type: 'draft', id: number, result: WorkerImage, timings: PixelOETimings }
+    | {
+      type: 'result'
+      id: number
+      result: WorkerImage
+      intermediate?: WorkerImage
+      weights?: ArrayBuffer
+      palette?: number[][]
+      timings: PixelOETimings
+      stages?: Partial<Record<StageName, WorkerImage>>
+    }
+    | { type: 'error', id: number, message: string }
+
+function transferable(view: ArrayBufferView, transfer: ArrayBuffer[], copy: boolean): ArrayBuffer {
+  const { buffer } = view
+  const whole = buffer instanceof ArrayBuffer && view.byteOffset === 0 && view.byteLength === buffer.byteLength
+  if (!whole || copy) {
+    const owned = new Uint8Array(view.byteLength)
+    owned.set(new Uint8Array(buffer, view.byteOffset, view.byteLength))
+    transfer.push(owned.buffer)
+    return owned.buffer
+  }
+  // A buffer may back several images (e.g. a skipped stage's snapshot)
+  if (!transfer.includes(buffer)) {
+    transfer.push(buffer)
+  }
+  return buffer
+}
+
+/**
+ * Wrap an image for posting and list its buffer in `transfer`. With `copy`
+ * the image keeps its own pixels; otherwise they are detached on post.
+ */
+export function packImage(image: PixelImageData, transfer: ArrayBuffer[], copy = false): WorkerImage {
+  return { width: image.width, height: image.height, data: transferable(image.data, transfer, copy) }
+}
+
+export function unpackImage({ width, height, data }: WorkerImage): PixelImageData {
+  return new PixelImageData(width, height, new Uint8ClampedArray(data))
+}
+
+export function unpackResult(message: Extract<WorkerPixelizeResponse, { type: 'result' }>): PixelOEResult {
+  let stages: PixelOEResult['stages']
+  if (message.stages) {
+    stages = {}
+    for (const [stage, image] of Object.entries(message.stages)) {
+      stages[stage] = unpackImage(image as WorkerImage)
+    }
+  }
+  return {
+    result: unpackImage(message.result),
+    intermediate: message.intermediate && unpackImage(message.intermediate),
+    weights: message.weights && new Float32Array(message.weights),
+    palette: message.palette,
+    timings: message.timings,
+    stages,
+  }
+}
+
+/**
+ * Worker-side state kept between requests: the last input and the stage
+ * cache of the runs on it
+ */
+export interface WorkerSession {
+  stageCache: StageCache
+  imageKey?: number
+  image?: PixelImageData
+}
+
+export function createWorkerSession(): WorkerSession {
+  return { stageCache: new StageCache() }
+}
+
+/** The request's input, reused from `session` when the client sent the same image again */
+function sessionImage(request: WorkerPixelizeRequest, session: WorkerSession): PixelImageData {
+  if (request.imageKey === undefined || request.imageKey !== session.imageKey || !session.image) {
+    if (!request.image) {
+      throw new Error('Request has no input and the worker holds none under its key')
+    }
+    session.imageKey = request.imageKey
+    session.image = unpackImage(request.image)
+  }
+  return session.image
+}
+
+/**
+ * Worker side: run one request through {@link PixelOE.pixelizeAsync} and
+ * post progress, log lines, the draft and finally the result or error.
+ * Without a `session` nothing is cached between requests.
+ */
+export async function runPixelizeRequest(
+  request: WorkerPixelizeRequest,
+  post: (message: WorkerPixelizeResponse, transfer?: ArrayBuffer[]) => void,
+  session: WorkerSession = createWorkerSession(),
+): Promise<void> {
+  const { id } = request
+  try {
+    const pixelOE = new PixelOE({
+      ...deserializeOptions(request.options),
+      logger: request.log
+        ? {
+            debug: message => post({ type: 'log', id, level: 'debug', message }),
+            warn: message => post({ type: 'log', id, level: 'warn', message }),
+          }
+        : undefined,
+    }, undefined, session.stageCache)
+    const output = await pixelOE.pixelizeAsync(sessionImage(request, session), {
+      returnIntermediate: request.returnIntermediate,
+      capture: request.capture,
+      regions: request.regions?.map(({ mask, options }) => ({
+        mask: mask instanceof Uint8Array ? mask : unpackImage(mask),
+        options: deserializeOptions(options),
+      })),
+      onProgress: request.progress ? (stage, fraction) => post({ type: 'progress', id, stage, fraction }) : undefined,
+      onDraft: request.draft
+        ? (draft) => {
+            const transfer: ArrayBuffer[] = []
+            post({ type: 'draft', id, result: packImage(draft.result, transfer), timings: draft.timings }, transfer)
+          }
+        : undefined,
+    })
+
+    const transfer: ArrayBuffer[] = []
+    let stages: Partial<Record<StageName, WorkerImage>> | undefined
+    if (output.stages) {
+      stages = {}
+      for (const [stage, image] of Object.entries(output.stages)) {
+        stages[stage] = packImage(image as PixelImageData, transfer)
+      }
+    }
+    post({
+      type: 'result',
+      id,
+      result: packImage(output.result, transfer),
+      intermediate: output.intermediate && packImage(output.intermediate, transfer),
+      weights: output.weights && transferable(output.weights, transfer, false),
+      palette: output.palette,
+      timings: output.timings,
+      stages,
+    }, transfer)
+  }
+  catch (error) {
+    post({ type: 'error', id, message: error instanceof Error ? error.message : String(error) })
+  }
+}
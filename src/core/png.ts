@@ -0,0 +1,480 @@
+/**
+ * PNG codec without DOM dependencies: chunk reading/writing, text chunks,
+ * decoding and encoding of {@link PixelImageData}.
+ */
+
+import { hasTransparency } from './alpha'
+import { indexColors } from './colorIndex'
+import { PixelImageData } from './imageData'
+import { deflate, inflate } from './zlib'
+
+export interface PngChunk {
+  type: string
+  data: Uint8Array
+}
+
+export const PNG_SIGNATURE = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10])
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xED_B8_83_20 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+/** CRC-32 (ISO 3309) as used by PNG chunks and zlib containers. */
+export function crc32(bytes: Uint8Array, crc: number = 0): number {
+  let c = ~crc >>> 0
+  for (const byte of bytes) {
+    c = CRC_TABLE[(c ^ byte) & 0xFF] ^ (c >>> 8)
+  }
+  return ~c >>> 0
+}
+
+export function isPng(bytes: Uint8Array): boolean {
+  return bytes.length >= 8 && PNG_SIGNATURE.every((b, i) => bytes[i] === b)
+}
+
+/**
+ * Split a PNG file into its chunks. Throws on a bad signature, truncated
+ * data or a CRC mismatch.
+ */
+export function readPngChunks(bytes: Uint8Array): PngChunk[] {
+  if (!isPng(bytes)) {
+    throw new Error('Not a PNG file')
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const chunks: PngChunk[] = []
+  let offset = 8
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset)
+    const end = offset + 12 + length
+    if (end > bytes.length) {
+      throw new Error('Truncated PNG chunk')
+    }
+    const typeAndData = bytes.subarray(offset + 4, offset + 8 + length)
+    if (crc32(typeAndData) !== view.getUint32(offset + 8 + length)) {
+      throw new Error('PNG chunk CRC mismatch')
+    }
+    const type = String.fromCodePoint(...typeAndData.subarray(0, 4))
+    chunks.push({ type, data: typeAndData.subarray(4) })
+    offset = end
+    if (type === 'IEND') {
+      break
+    }
+  }
+  return chunks
+}
+
+/** Serialize chunks into a PNG file (signature included). */
+export function writePngChunks(chunks: PngChunk[]): Uint8Array<ArrayBuffer> {
+  const size = chunks.reduce((sum, chunk) => sum + 12 + chunk.data.length, 8)
+  const out = new Uint8Array(size)
+  const view = new DataView(out.buffer)
+  out.set(PNG_SIGNATURE)
+  let offset = 8
+  for (const { type, data } of chunks) {
+    view.setUint32(offset, data.length)
+    for (let i = 0; i < 4; i++) {
+      out[offset + 4 + i] = type.charCodeAt(i)
+    }
+    out.set(data, offset + 8)
+    view.setUint32(offset + 8 + data.length, crc32(out.subarray(offset + 4, offset + 8 + data.length)))
+    offset += 12 + data.length
+  }
+  return out
+}
+
+/** Insert chunks right before IEND. */
+export function insertPngChunks(png: Uint8Array, extra: PngChunk[]): Uint8Array<ArrayBuffer> {
+  const chunks = readPngChunks(png)
+  const iend = chunks.findIndex(chunk => chunk.type === 'IEND')
+  chunks.splice(iend === -1 ? chunks.length : iend, 0, ...extra)
+  return writePngChunks(chunks)
+}
+
+function latin1(text: string): Uint8Array {
+  return Uint8Array.from(text, ch => Math.min(0xFF, ch.charCodeAt(0)))
+}
+
+/** Uncompressed Latin-1 `tEXt` chunk. */
+export function createTextChunk(keyword: string, text: string): PngChunk {
+  const key = latin1(keyword)
+  const value = latin1(text)
+  const data = new Uint8Array(key.length + 1 + value.length)
+  data.set(key)
+  data.set(value, key.length + 1)
+  return { type: 'tEXt', data }
+}
+
+/** Uncompressed UTF-8 `iTXt` chunk without language tag. */
+export function createITxtChunk(keyword: string, text: string): PngChunk {
+  const key = latin1(keyword)
+  const value = new TextEncoder().encode(text)
+  // keyword \0 compressionFlag compressionMethod languageTag \0 translatedKeyword \0 text
+  const data = new Uint8Array(key.length + 5 + value.length)
+  data.set(key)
+  data.set(value, key.length + 5)
+  return { type: 'iTXt', data }
+}
+
+/**
+ * Keyword → text of every `tEXt` and uncompressed `iTXt` chunk (compressed
+ * text is skipped).
+ */
+export function readPngText(png: Uint8Array): Record<string, string> {
+  const text: Record<string, string> = {}
+  for (const { type, data } of readPngChunks(png)) {
+    if (type !== 'tEXt' && type !== 'iTXt') {
+      continue
+    }
+    const keyEnd = data.indexOf(0)
+    if (keyEnd <= 0) {
+      continue
+    }
+    const keyword = String.fromCodePoint(...data.subarray(0, keyEnd))
+    if (type === 'tEXt') {
+      text[keyword] = String.fromCodePoint(...data.subarray(keyEnd + 1))
+      continue
+    }
+    if (data[keyEnd + 1] !== 0) {
+      continue
+    }
+    const languageEnd = data.indexOf(0, keyEnd + 3)
+    const translatedEnd = languageEnd === -1 ? -1 : data.indexOf(0, languageEnd + 1)
+    if (translatedEnd !== -1) {
+      text[keyword] = new TextDecoder().decode(data.subarray(translatedEnd + 1))
+    }
+  }
+  return text
+}
+
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 }
+const BIT_DEPTHS: Record<number, number[]> = {
+  0: [1, 2, 4, 8, 16],
+  2: [8, 16],
+  3: [1, 2, 4, 8],
+  4: [8, 16],
+  6: [8, 16],
+}
+
+// Adam7 passes: [x0, y0, dx, dy]
+const ADAM7 = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+]
+
+export interface PngHeader {
+  width: number
+  height: number
+  bitDepth: number
+  colorType: number
+  interlace: number
+}
+
+function readHeader(chunk: PngChunk | undefined): PngHeader {
+  if (chunk?.type !== 'IHDR' || chunk.data.length !== 13) {
+    throw new Error('PNG is missing its IHDR chunk')
+  }
+  const view = new DataView(chunk.data.buffer, chunk.data.byteOffset, 13)
+  const header = {
+    width: view.getUint32(0),
+    height: view.getUint32(4),
+    bitDepth: chunk.data[8],
+    colorType: chunk.data[9],
+    interlace: chunk.data[12],
+  }
+  if (!BIT_DEPTHS[header.colorType]?.includes(header.bitDepth)) {
+    throw new Error(`Unsupported PNG color type ${header.colorType} with bit depth ${header.bitDepth}`)
+  }
+  if (chunk.data[10] !== 0 || chunk.data[11] !== 0 || header.interlace > 1) {
+    throw new Error('Unsupported PNG compression, filter or interlace method')
+  }
+  if (header.width === 0 || header.height === 0) {
+    throw new Error('PNG has zero size')
+  }
+  return header
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c
+  const pa = Math.abs(p - a)
+  const pb = Math.abs(p - b)
+  const pc = Math.abs(p - c)
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c
+}
+
+/** Reverse the per-row filters of one (sub)image in place. */
+function unfilter(data: Uint8Array, offset: number, rowBytes: number, rows: number, bpp: number): void {
+  let prior = -1
+  for (let y = 0; y < rows; y++) {
+    const start = offset + y * (rowBytes + 1)
+    const filter = data[start]
+    const row = start + 1
+    for (let i = 0; i < rowBytes; i++) {
+      const a = i >= bpp ? data[row + i - bpp] : 0
+      const b = prior >= 0 ? data[prior + i] : 0
+      const c = i >= bpp && prior >= 0 ? data[prior + i - bpp] : 0
+      switch (filter) {
+        case 0: { break
+        }
+        case 1: { data[row + i] += a
+          break
+        }
+        case 2: { data[row + i] += b
+          break
+        }
+        case 3: { data[row + i] += (a + b) >> 1
+          break
+        }
+        case 4: { data[row + i] += paeth(a, b, c)
+          break
+        }
+        default: { throw new Error(`Invalid PNG filter type ${filter}`)
+        }
+      }
+    }
+    prior = row
+  }
+}
+
+/** Sample `index` of a scanline starting at `row`, in raw units. */
+function readSample(raw: Uint8Array, row: number, bitDepth: number, index: number): number {
+  if (bitDepth === 8) {
+    return raw[row + index]
+  }
+  if (bitDepth === 16) {
+    return (raw[row + index * 2] << 8) | raw[row + index * 2 + 1]
+  }
+  const bit = index * bitDepth
+  return (raw[row + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & ((1 << bitDepth) - 1)
+}
+
+function scaleSample(bitDepth: number, value: number): number {
+  if (bitDepth === 16) {
+    return value >> 8
+  }
+  return bitDepth === 8 ? value : Math.round(value * 255 / ((1 << bitDepth) - 1))
+}
+
+/**
+ * Decode a PNG file: every color type and bit depth, palette and `tRNS`
+ * transparency, Adam7 interlacing. 16-bit samples are reduced to 8 bits;
+ * gamma and color profile chunks are ignored.
+ */
+export function decodePng(bytes: Uint8Array): PixelImageData {
+  const chunks = readPngChunks(bytes)
+  const header = readHeader(chunks[0])
+  const { width, height, bitDepth, colorType } = header
+  const channels = CHANNELS[colorType]
+  const bitsPerPixel = channels * bitDepth
+  const bpp = Math.max(1, bitsPerPixel >> 3)
+
+  const palette = chunks.find(chunk => chunk.type === 'PLTE')?.data
+  const transparency = chunks.find(chunk => chunk.type === 'tRNS')?.data
+  const idat = chunks.filter(chunk => chunk.type === 'IDAT').map(chunk => chunk.data)
+  if (colorType === 3 && !palette) {
+    throw new Error('Indexed PNG is missing its PLTE chunk')
+  }
+  const plte = palette ?? new Uint8Array(0)
+  if (idat.length === 0) {
+    throw new Error('PNG has no image data')
+  }
+
+  const passes = header.interlace ? ADAM7 : [[0, 0, 1, 1]]
+  const passSizes = passes.map(([x0, y0, dx, dy]) => [Math.ceil((width - x0) / dx), Math.ceil((height - y0) / dy)])
+  const expected = passSizes.reduce((sum, [w, h]) => sum + (w && h ? h * (Math.ceil(w * bitsPerPixel / 8) + 1) : 0), 0)
+  const compressed = idat.length === 1 ? idat[0] : concatBytes(idat)
+  const raw = inflate(compressed, expected)
+  if (raw.length < expected) {
+    throw new Error('PNG image data is truncated')
+  }
+
+  // Transparent sample value for gray/RGB images, in raw (unscaled) units
+  const key = transparency && (colorType === 0 || colorType === 2)
+    ? Array.from({ length: colorType === 0 ? 1 : 3 }, (_, i) => (transparency[i * 2] << 8) | transparency[i * 2 + 1])
+    : undefined
+  const out = new Uint8ClampedArray(width * height * 4)
+
+  let offset = 0
+  for (const [pass, [x0, y0, dx, dy]] of passes.entries()) {
+    const [passWidth, passHeight] = passSizes[pass]
+    if (!passWidth || !passHeight) {
+      continue
+    }
+    const rowBytes = Math.ceil(passWidth * bitsPerPixel / 8)
+    unfilter(raw, offset, rowBytes, passHeight, bpp)
+
+    for (let py = 0; py < passHeight; py++) {
+      const row = offset + py * (rowBytes + 1) + 1
+      const y = y0 + py * dy
+      for (let px = 0; px < passWidth; px++) {
+        const o = (y * width + x0 + px * dx) * 4
+        const s = px * channels
+        if (colorType === 3) {
+          const index = readSample(raw, row, bitDepth, px)
+          if (index * 3 + 2 >= plte.length) {
+            throw new Error('PNG palette index out of range')
+          }
+          out[o] = plte[index * 3]
+          out[o + 1] = plte[index * 3 + 1]
+          out[o + 2] = plte[index * 3 + 2]
+          out[o + 3] = transparency && index < transparency.length ? transparency[index] : 255
+          continue
+        }
+        const first = readSample(raw, row, bitDepth, s)
+        if (colorType === 0 || colorType === 4) {
+          out[o] = out[o + 1] = out[o + 2] = scaleSample(bitDepth, first)
+          out[o + 3] = colorType === 4 ? scaleSample(bitDepth, readSample(raw, row, bitDepth, s + 1)) : key && first === key[0] ? 0 : 255
+          continue
+        }
+        const second = readSample(raw, row, bitDepth, s + 1)
+        const third = readSample(raw, row, bitDepth, s + 2)
+        out[o] = scaleSample(bitDepth, first)
+        out[o + 1] = scaleSample(bitDepth, second)
+        out[o + 2] = scaleSample(bitDepth, third)
+        out[o + 3] = colorType === 6
+          ? scaleSample(bitDepth, readSample(raw, row, bitDepth, s + 3))
+          : key && first === key[0] && second === key[1] && third === key[2] ? 0 : 255
+      }
+    }
+    offset += passHeight * (rowBytes + 1)
+  }
+
+  return new PixelImageData(width, height, out)
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    out.set(part, offset)
+    offset += part.length
+  }
+  return out
+}
+
+/**
+ * Filter every row with the filter type that minimizes the sum of absolute
+ * residuals (the usual libpng heuristic).
+ */
+function filterRows(pixels: Uint8Array, rowBytes: number, rows: number, bpp: number): Uint8Array {
+  const out = new Uint8Array(rows * (rowBytes + 1))
+  const candidate = new Uint8Array(rowBytes)
+  for (let y = 0; y < rows; y++) {
+    const row = y * rowBytes
+    const prior = row - rowBytes
+    let bestScore = Infinity
+    const target = y * (rowBytes + 1)
+    for (let filter = 0; filter < 5; filter++) {
+      let score = 0
+      for (let i = 0; i < rowBytes; i++) {
+        const a = i >= bpp ? pixels[row + i - bpp] : 0
+        const b = y > 0 ? pixels[prior + i] : 0
+        const c = i >= bpp && y > 0 ? pixels[prior + i - bpp] : 0
+        const predicted = filter === 0 ? 0 : filter === 1 ? a : filter === 2 ? b : filter === 3 ? (a + b) >> 1 : paeth(a, b, c)
+        const residual = (pixels[row + i] - predicted) & 0xFF
+        candidate[i] = residual
+        score += residual < 128 ? residual : 256 - residual
+      }
+      if (score < bestScore) {
+        bestScore = score
+        out[target] = filter
+        out.set(candidate, target + 1)
+      }
+    }
+  }
+  return out
+}
+
+/**
+ * Encode as an 8-bit PNG without a canvas: RGB when every pixel is opaque,
+ * RGBA otherwise.
+ */
+export function encodePng(image: PixelImageData): Uint8Array<ArrayBuffer> {
+  const { width, height, data } = image
+  const opaque = !hasTransparency(image)
+  const channels = opaque ? 3 : 4
+  let pixels: Uint8Array = new Uint8Array(data.buffer, data.byteOffset, data.length)
+  if (opaque) {
+    pixels = new Uint8Array(width * height * 3)
+    for (let i = 0, p = 0; p < data.length; i += 3, p += 4) {
+      pixels[i] = data[p]
+      pixels[i + 1] = data[p + 1]
+      pixels[i + 2] = data[p + 2]
+    }
+  }
+
+  const ihdr = new Uint8Array(13)
+  const view = new DataView(ihdr.buffer)
+  view.setUint32(0, width)
+  view.setUint32(4, height)
+  ihdr[8] = 8
+  ihdr[9] = opaque ? 2 : 6
+
+  return writePngChunks([
+    { type: 'IHDR', data: ihdr },
+    { type: 'IDAT', data: deflate(filterRows(pixels, width * channels, height, channels)) },
+    { type: 'IEND', data: new Uint8Array(0) },
+  ])
+}
+
+/**
+ * Encode as an indexed-color PNG (`PLTE`, plus `tRNS` when any entry isn't
+ * opaque) at the smallest bit depth (1, 2, 4 or 8) that holds the palette.
+ *
+ * Index `i` is `colors[i]` (e.g. a `ColorPalette`'s colors, all written
+ * even when unused, so indices are stable across images); colors of the
+ * image outside `colors` follow in order of first appearance. Returns null
+ * when that takes more than 256 entries.
+ */
+export function encodeIndexedPng(image: PixelImageData, colors: readonly number[][] = []): Uint8Array<ArrayBuffer> | null {
+  const indexed = indexColors([image], colors)
+  if (!indexed) {
+    return null
+  }
+  const { entries, indices: [indices] } = indexed
+  const { width, height } = image
+  const bitDepth = entries.length <= 2 ? 1 : entries.length <= 4 ? 2 : entries.length <= 16 ? 4 : 8
+
+  const plte = Uint8Array.from(entries.flatMap(([r, g, b]) => [r, g, b]))
+  const alphas = entries.map(entry => entry[3])
+  // tRNS may stop after the last entry that isn't opaque
+  const trnsLength = alphas.findLastIndex(alpha => alpha !== 255) + 1
+
+  // Unfiltered rows (filter type 0 suits indexed data best), packed MSB first
+  const rowBytes = Math.ceil(width * bitDepth / 8)
+  const raw = new Uint8Array(height * (rowBytes + 1))
+  for (let y = 0; y < height; y++) {
+    const row = y * (rowBytes + 1) + 1
+    for (let x = 0; x < width; x++) {
+      const bit = x * bitDepth
+      raw[row + (bit >> 3)] |= indices[y * width + x] << (8 - bitDepth - (bit & 7))
+    }
+  }
+
+  const ihdr = new Uint8Array(13)
+  const view = new DataView(ihdr.buffer)
+  view.setUint32(0, width)
+  view.setUint32(4, height)
+  ihdr[8] = bitDepth
+  ihdr[9] = 3
+
+  return writePngChunks([
+    { type: 'IHDR', data: ihdr },
+    { type: 'PLTE', data: plte },
+    ...(trnsLength > 0 ? [{ type: 'tRNS', data: Uint8Array.from(alphas.slice(0, trnsLength)) }] : []),
+    { type: 'IDAT', data: deflate(raw) },
+    { type: 'IEND', data: new Uint8Array(0) },
+  ])
+}
@@ -12,12 +12,14 @@ export interface QuantizationOptions {
   maxIterations?: number
   convergenceThreshold?: number
   weights?: Float32Array | number[]
+  /** Starting centroids instead of the min-max interpolation of {@link generateCentroids} */
+  initialCentroids?: number[][]
 }
 
 export interface QuantizationResult {
   quantized: PixelImageData
   centroids: number[][]
-  labels: number[]
+  labels: number[] // Centroid index per pixel; -1 for fully transparent pixels
 }
 
 /**
@@ -304,14 +306,40 @@ export function colorQuantizationKMeans(
   }
 
   // Convert weights to Float32Array if provided
-  const flatWeights = options.weights ? new Float32Array(options.weights) : undefined
+  let flatWeights = options.weights ? new Float32Array(options.weights) : undefined
+
+  // Fully transparent pixels take no part in clustering
+  let trainPixels = pixels
+  let trainCount = pixelCount
+  let visibleCount = 0
+  for (let i = 0; i < pixelCount; i++) {
+    if (rawData[i * 4 + 3] !== 0) {
+      visibleCount++
+    }
+  }
+  if (visibleCount < pixelCount) {
+    trainPixels = new Float32Array(visibleCount * numChannels)
+    const trainWeights = flatWeights ? new Float32Array(visibleCount) : undefined
+    for (let i = 0, v = 0; i < pixelCount; i++) {
+      if (rawData[i * 4 + 3] !== 0) {
+        trainPixels.set(pixels.subarray(i * numChannels, (i + 1) * numChannels), v * numChannels)
+        if (trainWeights) {
+          trainWeights[v] = flatWeights![i]
+        }
+        v++
+      }
+    }
+    trainCount = visibleCount
+    flatWeights = trainWeights
+  }
 
   // Initialize centroids
-  let centroids = generateCentroids(pixels, pixelCount, numChannels, numCentroids)
+  let centroids = options.initialCentroids?.map(centroid => [...centroid])
+    ?? generateCentroids(trainPixels, trainCount, numChannels, numCentroids)
 
   // Run K-means iterations
   for (let iter = 0; iter < maxIterations; iter++) {
-    const { newCentroids, totalChange } = kMeansIteration(pixels, pixelCount, numChannels, centroids, flatWeights)
+    const { newCentroids, totalChange } = kMeansIteration(trainPixels, trainCount, numChannels, centroids, flatWeights)
     centroids = newCentroids
 
     // Check for convergence
@@ -328,6 +356,10 @@ export function colorQuantizationKMeans(
     const y = Math.floor(i / imageData.width)
     const x = i % imageData.width
     const a = imageData.getPixel(x, y)[3]
+    if (a === 0) {
+      labels.push(-1)
+      continue
+    }
     const nearestIndex = findNearestCentroidFlat(pixels, i, numChannels, centroids)
     const nearestColor = centroids[nearestIndex]
     quantized.setPixel(x, y, [Math.round(nearestColor[0]), Math.round(nearestColor[1]), Math.round(nearestColor[2]), a])
@@ -376,6 +408,9 @@ function orderedDitherInternal(
         b,
         a,
       ] = imageData.getPixel(x, y)
+      if (a === 0) {
+        continue
+      }
       const threshold = bayerMatrix[y % patternSize][x % patternSize]
 
       // Find nearest palette color
@@ -428,6 +463,10 @@ function errorDiffusionDitherInternal(
         b,
         a,
       ] = result.getPixel(x, y)
+      if (a === 0) {
+        result.setPixel(x, y, [0, 0, 0, 0])
+        continue
+      }
 
       // Find nearest palette color
       const quantizedColor = findNearestPaletteColor([r, g, b], palette)
@@ -453,6 +492,9 @@ function errorDiffusionDitherInternal(
             nb,
             na,
           ] = result.getPixel(nx, ny)
+          if (na === 0) {
+            continue
+          }
 
           // Add weighted error
           const newR = clamp(nr + errorR * weight, 0, 255)
@@ -565,6 +607,9 @@ export function quantizeToPalette(
           b,
           a,
         ] = imageData.getPixel(x, y)
+        if (a === 0) {
+          continue
+        }
         const quantizedColor = findNearestColorInPalette([r, g, b], palette.colors)
         result.setPixel(x, y, [
           Math.round(clamp(quantizedColor[0], 0, 255)),
@@ -584,17 +629,34 @@ export function quantizeToPalette(
 }
 
 /**
- * Apply quantization and dithering combined (with weights support)
+ * Apply quantization and dithering combined (with weights support).
+ * `maxIterations` caps the K-means refinement (default 50).
  */
 export function quantizeAndDither(
   imageData: PixelImageData,
   numCentroids: number = 32,
   ditherMethod: 'none' | 'ordered' | 'error_diffusion' = 'none',
   weights?: Float32Array,
+  maxIterations?: number,
 ): PixelImageData {
+  return quantizeAndDitherWithCentroids(imageData, numCentroids, ditherMethod, weights, maxIterations).result
+}
+
+/**
+ * {@link quantizeAndDither}, also returning the K-means centroids the
+ * result was mapped to, rounded to bytes.
+ */
+export function quantizeAndDitherWithCentroids(
+  imageData: PixelImageData,
+  numCentroids: number = 32,
+  ditherMethod: 'none' | 'ordered' | 'error_diffusion' = 'none',
+  weights?: Float32Array,
+  maxIterations?: number,
+): { result: PixelImageData, centroids: number[][] } {
   // First perform K-means quantization (with weights if available)
   const { centroids } = colorQuantizationKMeans(imageData, {
     numCentroids,
+    maxIterations,
     weights: weights || undefined,
   })
 
@@ -611,6 +673,9 @@ export function quantizeAndDither(
           b,
           a,
         ] = imageData.getPixel(x, y)
+        if (a === 0) {
+          continue
+        }
         const quantizedColor = findNearestPaletteColor([r, g, b], centroids)
         result.setPixel(x, y, [
           Math.round(clamp(quantizedColor[0], 0, 255)),
@@ -621,10 +686,90 @@ export function quantizeAndDither(
       }
     }
 
-    return result
+    return { result, centroids: centroids.map(centroid => centroid.map(c => Math.round(clamp(c, 0, 255)))) }
   }
   else {
-    // Apply dithering directly here to avoid dependency issues
-    return applyDitheringInternal(imageData, centroids, ditherMethod)
+    // Apply dithering directly here to avoid dependency issues. The
+    // dithered pixels are stored as is, so the byte array does the rounding
+    return {
+      result: applyDitheringInternal(imageData, centroids, ditherMethod),
+      centroids: centroids.map(centroid => [...Uint8ClampedArray.from(centroid)]),
+    }
+  }
+}
+
+function rgbKey(data: Uint8ClampedArray, p: number): number {
+  return (data[p] << 16) | (data[p + 1] << 8) | data[p + 2]
+}
+
+/**
+ * Move every visible pixel to its nearest color in `colors`, e.g. to bring
+ * a recolored (color matched) quantized image back onto its palette.
+ * Alpha is kept.
+ */
+export function snapToColors(image: PixelImageData, colors: readonly number[][]): PixelImageData {
+  const result = image.clone()
+  const { data } = result
+  const nearest = new Map<number, number[]>()
+  for (let p = 0; p < data.length; p += 4) {
+    if (data[p + 3] === 0) {
+      continue
+    }
+    const key = rgbKey(data, p)
+    let color = nearest.get(key)
+    if (!color) {
+      color = findNearestColorInPalette([data[p], data[p + 1], data[p + 2]], colors)
+      nearest.set(key, color)
+    }
+    data[p] = color[0]
+    data[p + 1] = color[1]
+    data[p + 2] = color[2]
   }
+  return result
+}
+
+/**
+ * The colors of `palette` that visible pixels of `image` use, in palette
+ * order and without duplicates
+ */
+export function usedColors(image: PixelImageData, palette: readonly number[][]): number[][] {
+  const used = new Set<number>()
+  const { data } = image
+  for (let p = 0; p < data.length; p += 4) {
+    if (data[p + 3] !== 0) {
+      used.add(rgbKey(data, p))
+    }
+  }
+  const seen = new Set<number>()
+  return palette.filter(([r, g, b]) => {
+    const key = (r << 16) | (g << 8) | b
+    const keep = used.has(key) && !seen.has(key)
+    seen.add(key)
+    return keep
+  })
+}
+
+/**
+ * Follow palette colors through a recoloring that maps each color to one
+ * color (e.g. styling) from `before` to `after`, an image of the same
+ * size. Colors `before` doesn't use are kept; duplicates are dropped.
+ */
+export function remapColors(palette: readonly number[][], before: PixelImageData, after: PixelImageData): number[][] {
+  const mapped = new Map<number, number>()
+  const { data } = before
+  for (let p = 0; p < data.length; p += 4) {
+    if (data[p + 3] !== 0) {
+      mapped.set(rgbKey(data, p), rgbKey(after.data, p))
+    }
+  }
+  const seen = new Set<number>()
+  const result: number[][] = []
+  for (const [r, g, b] of palette) {
+    const key = mapped.get((r << 16) | (g << 8) | b) ?? ((r << 16) | (g << 8) | b)
+    if (!seen.has(key)) {
+      seen.add(key)
+      result.push([key >> 16, (key >> 8) & 0xFF, key & 0xFF])
+    }
+  }
+  return result
 }
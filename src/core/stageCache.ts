@@ -0,0 +1,103 @@
+import type { PixelOEOptions } from '../pixeloe'
+import type { StageName } from './cancellation'
+import type { PixelImageData } from './imageData'
+import type { PipelineContext, PipelineStage } from './pipeline'
+
+/**
+ * Memoized stage outputs, so a rerun after an option change only redoes
+ * the stages that read that option and everything after them.
+ *
+ * Keys chain: the prepared input's key covers the input object and the
+ * options preprocessing reads; every stage's key extends its input's key
+ * with the stage itself and the values of its `dependsOn` options. A stage
+ * without `dependsOn` can't be keyed, so neither can anything after it.
+ *
+ * Entries are the stage outputs themselves; `PixelOE` hands stages and
+ * callers copies of them, so nothing downstream can change a cached image.
+ */
+
+/** Options the input preparation (maxPixels cap, target resize) reads */
+export const PREPROCESS_OPTIONS = [
+  'pixelSize',
+  'targetSize',
+  'targetWidth',
+  'targetHeight',
+  'fit',
+  'noUpscale',
+  'noDownscale',
+  'maxPixels',
+  'tiled',
+] as const satisfies (keyof PixelOEOptions)[]
+
+/** The run state stages write besides their output image */
+export type StageState = Pick<PipelineContext, 'weights' | 'palette'>
+
+interface StageCacheEntry {
+  key: string
+  image: PixelImageData
+  /** The context's state as the stage left it */
+  state: StageState
+}
+
+const objectIds = new WeakMap<object, number>()
+let nextObjectId = 0
+
+function objectId(object: object): number {
+  let id = objectIds.get(object)
+  if (id === undefined) {
+    id = nextObjectId++
+    objectIds.set(object, id)
+  }
+  return id
+}
+
+function optionValues(options: PixelOEOptions, keys: readonly (keyof PixelOEOptions)[]): string {
+  return JSON.stringify(keys.map(key => options[key] ?? null))
+}
+
+/**
+ * Key of the prepared input. Inputs are told apart by object identity, so
+ * an image changed in place needs {@link StageCache.clear}. `variant`
+ * separates runs that differ in more than options (e.g. returned weights).
+ */
+export function inputCacheKey(input: PixelImageData, options: PixelOEOptions, variant: string = ''): string {
+  return `input:${objectId(input)}:${variant}:${optionValues(options, PREPROCESS_OPTIONS)}`
+}
+
+/** Key of a stage's output given its input's key; null when uncacheable */
+export function stageCacheKey(inputKey: string | null, stage: PipelineStage, options: PixelOEOptions): string | null {
+  if (inputKey === null || !stage.dependsOn) {
+    return null
+  }
+  return `${inputKey}|${stage.name}:${objectId(stage)}:${optionValues(options, stage.dependsOn)}`
+}
+
+/** The most recent output of every stage, with its key */
+export class StageCache {
+  private readonly entries = new Map<StageName, StageCacheEntry>()
+
+  /** The stored output of `stage` if it was made under `key` */
+  get(stage: StageName, key: string | null): StageCacheEntry | undefined {
+    const entry = key === null ? undefined : this.entries.get(stage)
+    return entry?.key === key ? entry : undefined
+  }
+
+  /** Store an output, replacing the stage's previous one; a null key just drops it */
+  set(stage: StageName, key: string | null, image: PixelImageData, state: StageState = {}): void {
+    if (key === null) {
+      this.entries.delete(stage)
+    }
+    else {
+      this.entries.set(stage, { key, image, state })
+    }
+  }
+
+  /** Stages with a stored output */
+  get size(): number {
+    return this.entries.size
+  }
+
+  clear(): void {
+    this.entries.clear()
+  }
+}
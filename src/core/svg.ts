@@ -0,0 +1,195 @@
+import type { PixelImageData } from './imageData'
+import { rgbToHex } from './palettes'
+
+/**
+ * SVG export of a pixel grid (one image pixel per cell): same-color cells
+ * are merged into rectangles or traced outlines, and every color is one
+ * CSS class in a `<style>` block so the palette can be edited in one place.
+ */
+
+export interface SvgOptions {
+  /** Size of one grid cell in the output's width and height (default: 1) */
+  pixelSize?: number
+  /**
+   * 'rects' (default) merges each color's cells into rectangles; 'paths'
+   * traces each color's regions as one path of outlines, holes included
+   */
+  shape?: 'rects' | 'paths'
+  /** CSS color drawn behind the grid; transparent when unset */
+  background?: string
+  /** Colors getting the first classes (`c0`, `c1`, ...) in this order when the grid uses them, e.g. a `ColorPalette`'s */
+  colors?: readonly number[][]
+}
+
+interface ColorCells {
+  rgba: number[]
+  /** Cell indices (y * width + x) of this color, in reading order */
+  cells: number[]
+}
+
+/** Visible cells grouped by RGBA color; `colors` first, then by first appearance */
+function groupColors(image: PixelImageData, colors: readonly number[][]): ColorCells[] {
+  const groups = new Map<string, ColorCells>()
+  for (const [r, g, b, a = 255] of colors) {
+    groups.set(`${r},${g},${b},${a}`, { rgba: [r, g, b, a], cells: [] })
+  }
+  const { data } = image
+  for (let i = 0; i < image.width * image.height; i++) {
+    const p = i * 4
+    if (data[p + 3] === 0) {
+      continue
+    }
+    const key = `${data[p]},${data[p + 1]},${data[p + 2]},${data[p + 3]}`
+    let group = groups.get(key)
+    if (!group) {
+      group = { rgba: [...data.subarray(p, p + 4)], cells: [] }
+      groups.set(key, group)
+    }
+    group.cells.push(i)
+  }
+  return [...groups.values()].filter(group => group.cells.length > 0)
+}
+
+/**
+ * Cover a color's cells with rectangles: each uncovered cell starts a
+ * horizontal run as wide as possible, grown down while the rows below
+ * repeat it.
+ */
+function mergeRects(cells: readonly number[], width: number, height: number): [number, number, number, number][] {
+  const mine = new Uint8Array(width * height)
+  for (const cell of cells) {
+    mine[cell] = 1
+  }
+  const rects: [number, number, number, number][] = []
+  for (const cell of cells) {
+    if (mine[cell] !== 1) {
+      continue
+    }
+    const x = cell % width
+    const y = (cell - x) / width
+    let w = 1
+    while (x + w < width && mine[cell + w] === 1) {
+      w++
+    }
+    let h = 1
+    while (y + h < height && mine.subarray((y + h) * width + x, (y + h) * width + x + w).every(v => v === 1)) {
+      h++
+    }
+    for (let row = y; row < y + h; row++) {
+      mine.fill(2, row * width + x, row * width + x + w)
+    }
+    rects.push([x, y, w, h])
+  }
+  return rects
+}
+
+/**
+ * Outline a color's cells as a path: the cell edges facing other colors,
+ * oriented clockwise and chained into closed loops, straight runs joined.
+ * Rendered with the even-odd rule, the loops fill exactly the cells.
+ */
+function tracePath(cells: readonly number[], width: number, height: number): string {
+  const mine = new Uint8Array(width * height)
+  for (const cell of cells) {
+    mine[cell] = 1
+  }
+  const has = (x: number, y: number): boolean => x >= 0 && y >= 0 && x < width && y < height && mine[y * width + x] === 1
+  // Vertices are numbered y * (width + 1) + x; edges go from vertex to vertex
+  const stride = width + 1
+  const outgoing = new Map<number, number[]>()
+  const addEdge = (from: number, to: number): void => {
+    const targets = outgoing.get(from)
+    if (targets) {
+      targets.push(to)
+    }
+    else {
+      outgoing.set(from, [to])
+    }
+  }
+  for (const cell of cells) {
+    const x = cell % width
+    const y = (cell - x) / width
+    const topLeft = y * stride + x
+    if (!has(x, y - 1)) {
+      addEdge(topLeft, topLeft + 1)
+    }
+    if (!has(x + 1, y)) {
+      addEdge(topLeft + 1, topLeft + 1 + stride)
+    }
+    if (!has(x, y + 1)) {
+      addEdge(topLeft + 1 + stride, topLeft + stride)
+    }
+    if (!has(x - 1, y)) {
+      addEdge(topLeft + stride, topLeft)
+    }
+  }
+
+  let d = ''
+  for (const [start, targets] of outgoing) {
+    while (targets.length > 0) {
+      // Follow edges back to the start, keeping the corner vertices
+      const corners = [start]
+      let from = start
+      let to = targets.pop()!
+      while (to !== start) {
+        const next = outgoing.get(to)!.pop()!
+        // A corner where the direction changes
+        if (next - to !== to - from) {
+          corners.push(to)
+        }
+        from = to
+        to = next
+      }
+      d += `M${start % stride} ${Math.floor(start / stride)}`
+      for (let i = 1; i < corners.length; i++) {
+        const delta = corners[i] - corners[i - 1]
+        const dx = corners[i] % stride - corners[i - 1] % stride
+        d += dx === 0 ? `v${delta / stride}` : `h${dx}`
+      }
+      d += 'z'
+    }
+  }
+  return d
+}
+
+function cssColor([r, g, b, a]: readonly number[]): string {
+  const fill = `fill:${rgbToHex(r, g, b)}`
+  return a === 255 ? fill : `${fill};fill-opacity:${Math.round(a / 255 * 1000) / 1000}`
+}
+
+/** Keep CSS colors from breaking out of the attribute */
+function escapeAttribute(value: string): string {
+  return value.replaceAll('&', '&amp;').replaceAll('"', '&quot;').replaceAll('<', '&lt;')
+}
+
+/**
+ * Encode a pixel grid as SVG markup. The view box is the grid in cells,
+ * scaled by `pixelSize` through the width and height, and edges are
+ * rendered crisp. Fully transparent cells are left empty; partial alpha
+ * becomes the class's `fill-opacity`.
+ */
+export function encodeSvg(image: PixelImageData, options: SvgOptions = {}): string {
+  const { pixelSize = 1, shape = 'rects', background, colors = [] } = options
+  const { width, height } = image
+  const groups = groupColors(image, colors)
+
+  const lines = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width * pixelSize}" height="${height * pixelSize}" viewBox="0 0 ${width} ${height}" shape-rendering="crispEdges">`,
+    '<style>',
+    ...groups.map((group, i) => `.c${i}{${cssColor(group.rgba)}}`),
+    '</style>',
+  ]
+  if (background !== undefined) {
+    lines.push(`<rect width="${width}" height="${height}" fill="${escapeAttribute(background)}"/>`)
+  }
+  for (const [i, { cells }] of groups.entries()) {
+    if (shape === 'paths') {
+      lines.push(`<path class="c${i}" fill-rule="evenodd" d="${tracePath(cells, width, height)}"/>`)
+      continue
+    }
+    const rects = mergeRects(cells, width, height).map(([x, y, w, h]) => `<rect x="${x}" y="${y}" width="${w}" height="${h}"/>`)
+    lines.push(`<g class="c${i}">`, ...rects, '</g>')
+  }
+  lines.push('</svg>')
+  return `${lines.join('\n')}\n`
+}
@@ -0,0 +1,252 @@
+import type { TaskControl } from './cancellation'
+import type { WorkerTaskMap, WorkerTaskName, WorkerTaskRequest, WorkerTaskResponse } from './workerTasks'
+import { PixelOEAbortError, throwIfAborted } from './cancellation'
+
+/**
+ * A pool of workers running {@link WorkerTaskMap} tasks, independent of the
+ * threading backend: Web Workers in the browser ({@link createWebWorkerPool})
+ * or worker_threads in Node (`createNodeWorkerPool` in `src/node`).
+ *
+ * One pool can serve any number of `PixelOE` instances through the
+ * `workerPool` option; workers start on first use and live until
+ * {@link WorkerPool.dispose}.
+ */
+
+/** A started worker, wrapped to the shape the pool needs */
+export interface PoolWorker {
+  postMessage: (message: WorkerTaskRequest, transfer: ArrayBuffer[]) => void
+  terminate: () => void
+}
+
+/** Start a worker that reports replies to `onMessage` and crashes to `onError` */
+export type PoolWorkerFactory = (
+  onMessage: (response: WorkerTaskResponse) => void,
+  onError: (error: Error) => void,
+) => PoolWorker
+
+/** One unit of work for {@link WorkerPool.runAll} */
+export interface PoolTask<K extends WorkerTaskName = WorkerTaskName> {
+  task: K
+  input: WorkerTaskMap[K]['input']
+  /** Buffers of `input` to transfer rather than copy */
+  transfer?: ArrayBuffer[]
+}
+
+interface PendingTask {
+  slot: number
+  resolve: (output: unknown) => void
+  reject: (error: unknown) => void
+}
+
+/**
+ * What the pipeline needs from a pool; structural, so reactive wrappers
+ * (e.g. Vue's `reactive` options) still fit
+ */
+export type TaskRunner = Pick<WorkerPool, 'size' | 'runAll'>
+
+/** Default pool size: one worker per spare core, at most 8 */
+export function defaultPoolSize(cores = globalThis.navigator?.hardwareConcurrency ?? 4): number {
+  return Math.min(8, Math.max(1, cores - 1))
+}
+
+export class WorkerPool {
+  readonly size: number
+  private readonly createWorker: PoolWorkerFactory
+  private readonly workers: (PoolWorker | undefined)[]
+  private readonly pending = new Map<number, PendingTask>()
+  private nextId = 0
+  private nextSlot = 0
+  private isDisposed = false
+
+  constructor(createWorker: PoolWorkerFactory, size: number = defaultPoolSize()) {
+    if (!Number.isInteger(size) || size < 1) {
+      throw new RangeError(`Worker pool size must be a positive integer, got ${size}`)
+    }
+    this.createWorker = createWorker
+    this.size = size
+    this.workers = Array.from({ length: size })
+  }
+
+  get disposed(): boolean {
+    return this.isDisposed
+  }
+
+  /** Tasks posted and not yet answered */
+  get busy(): number {
+    return this.pending.size
+  }
+
+  /**
+   * Run tasks concurrently, spread round-robin over the workers, and
+   * resolve with their outputs in order. `control.onProgress` fires as
+   * tasks complete; aborting `control.signal` rejects with a
+   * {@link PixelOEAbortError} and terminates the workers busy only with
+   * these tasks (replacing them). Other calls' tasks are left running.
+   */
+  async runAll<K extends WorkerTaskName>(tasks: PoolTask<K>[], control: TaskControl = {}): Promise<WorkerTaskMap[K]['output'][]> {
+    const { signal, onProgress } = control
+    throwIfAborted(signal)
+    if (this.isDisposed) {
+      throw new Error('Worker pool has been disposed')
+    }
+
+    const ids: number[] = []
+    const jobs: Promise<WorkerTaskMap[K]['output']>[] = []
+    let completed = 0
+    try {
+      for (const { task, input, transfer = [] } of tasks) {
+        const id = this.nextId++
+        ids.push(id)
+        const slot = this.nextSlot
+        this.nextSlot = (this.nextSlot + 1) % this.size
+        const promise = new Promise<WorkerTaskMap[K]['output']>((resolve, reject) => {
+          this.pending.set(id, { slot, resolve: output => resolve(output as WorkerTaskMap[K]['output']), reject })
+        })
+        void promise.then(() => onProgress?.(++completed / tasks.length), () => {})
+        jobs.push(promise)
+        this.worker(slot).postMessage({ id, task, input }, transfer)
+      }
+    }
+    catch (error) {
+      // e.g. the worker script failed to start
+      this.cancel(ids, error)
+      throw error
+    }
+
+    const onAbort = (): void => this.cancel(ids, new PixelOEAbortError(signal?.reason))
+    signal?.addEventListener('abort', onAbort, { once: true })
+    try {
+      return await Promise.all(jobs)
+    }
+    catch (error) {
+      // One failed task fails the batch: don't leave its siblings running
+      this.cancel(ids, error)
+      throw error
+    }
+    finally {
+      signal?.removeEventListener('abort', onAbort)
+    }
+  }
+
+  /** Terminate every worker and reject everything pending. The pool can't be used afterwards. */
+  dispose(): void {
+    this.isDisposed = true
+    for (const [id, task] of this.pending) {
+      this.pending.delete(id)
+      task.reject(new Error('Worker pool has been disposed'))
+    }
+    for (const [slot, worker] of this.workers.entries()) {
+      worker?.terminate()
+      this.workers[slot] = undefined
+    }
+  }
+
+  private worker(slot: number): PoolWorker {
+    const current = this.workers[slot]
+    if (current) {
+      return current
+    }
+    const worker = this.createWorker(
+      response => this.settle(response),
+      (error) => {
+        // Ignore late errors from a worker that was already replaced
+        if (this.workers[slot] === worker) {
+          this.fail(slot, error)
+        }
+      },
+    )
+    this.workers[slot] = worker
+    return worker
+  }
+
+  private settle(response: WorkerTaskResponse): void {
+    const task = this.pending.get(response.id)
+    if (!task) {
+      return
+    }
+    this.pending.delete(response.id)
+    if ('error' in response) {
+      task.reject(new Error(response.error))
+    }
+    else {
+      task.resolve(response.output)
+    }
+  }
+
+  /** Reject everything queued on a slot and restart its worker on next use */
+  private fail(slot: number, error: unknown): void {
+    for (const [id, task] of this.pending) {
+      if (task.slot === slot) {
+        this.pending.delete(id)
+        task.reject(error)
+      }
+    }
+    this.workers[slot]?.terminate()
+    this.workers[slot] = undefined
+  }
+
+  /**
+   * Reject the given tasks and terminate the workers running them (a
+   * worker cannot be interrupted any other way). A worker still holding
+   * other callers' tasks keeps running them instead; its replies to the
+   * rejected tasks are dropped.
+   */
+  private cancel(ids: number[], error: unknown): void {
+    const slots = new Set<number>()
+    for (const id of ids) {
+      const task = this.pending.get(id)
+      if (task) {
+        this.pending.delete(id)
+        task.reject(error)
+        slots.add(task.slot)
+      }
+    }
+    for (const task of this.pending.values()) {
+      slots.delete(task.slot)
+    }
+    for (const slot of slots) {
+      this.workers[slot]?.terminate()
+      this.workers[slot] = undefined
+    }
+  }
+}
+
+function webPoolWorker(
+  onMessage: (response: WorkerTaskResponse) => void,
+  onError: (error: Error) => void,
+): PoolWorker {
+  const worker = new Worker(new URL('../workers/pool.worker.ts', import.meta.url), { type: 'module' })
+  worker.addEventListener('message', (event: MessageEvent<WorkerTaskResponse>) => onMessage(event.data))
+  worker.addEventListener('error', (event) => {
+    event.preventDefault()
+    onError(new Error(event.message || 'Pool worker failed'))
+  })
+  return worker
+}
+
+/** A pool of Web Workers, or null where Workers are unavailable */
+export function createWebWorkerPool(size: number = defaultPoolSize()): WorkerPool | null {
+  return typeof Worker === 'undefined' ? null : new WorkerPool(webPoolWorker, size)
+}
+
+let sharedPool: WorkerPool | null | undefined
+
+/**
+ * The Web Worker pool used when no `workerPool` option is given. Created on
+ * first use; null without Workers or on single-core machines.
+ */
+export function getSharedWorkerPool(): WorkerPool | null {
+  if (sharedPool === undefined || sharedPool?.disposed) {
+    const size = defaultPoolSize()
+    sharedPool = size > 1 ? createWebWorkerPool(size) : null
+  }
+  return sharedPool
+}
+
+/** Images below this pixel count stay on the calling thread: posting them costs more than it saves */
+export const MIN_PARALLEL_PIXELS = 500_000
+
+/** The pool a parallel helper runs on: `workerPool` if given (null for none), else the shared pool */
+export function resolveWorkerPool(workerPool?: TaskRunner | null): TaskRunner | null {
+  return workerPool === undefined ? getSharedWorkerPool() : workerPool
+}
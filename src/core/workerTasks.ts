@@ -0,0 +1,123 @@
+import { contrastDownscaleBand } from './downscaleBand'
+import { expansionWeightBand, processOutlineBand } from './outlineBand'
+
+/**
+ * Work a {@link WorkerPool} worker can do, shared by the Web Worker and
+ * worker_threads entries. Buffers are passed as transferables in both
+ * directions, so no copies cross the thread boundary.
+ */
+
+export interface OutlineBandInput {
+  src: ArrayBuffer
+  weights: ArrayBuffer
+  width: number
+  rows: number
+  erodeIters: number
+  dilateIters: number
+  trimTop: number
+  trimBottom: number
+}
+
+export interface ExpansionWeightBandInput {
+  src: ArrayBuffer
+  width: number
+  rows: number
+  stride: number
+  patchSize: number
+  avgScale: number
+  distScale: number
+  trimTop: number
+  trimBottom: number
+}
+
+export interface ExpansionWeightBandOutput {
+  /** Raw Float32 weights of the band's field rows */
+  weights: ArrayBuffer
+  min: number
+  max: number
+}
+
+export interface ContrastDownscaleBandInput {
+  /** Source rows [rowStart, ...) covered by the band's patches */
+  src: ArrayBuffer
+  width: number
+  height: number
+  rowStart: number
+  outWidth: number
+  outHeight: number
+  oyStart: number
+  oyEnd: number
+}
+
+/** Task name -> input and output message types */
+export interface WorkerTaskMap {
+  outlineBand: { input: OutlineBandInput, output: ArrayBuffer }
+  expansionWeightBand: { input: ExpansionWeightBandInput, output: ExpansionWeightBandOutput }
+  contrastDownscaleBand: { input: ContrastDownscaleBandInput, output: ArrayBuffer }
+}
+
+export type WorkerTaskName = keyof WorkerTaskMap
+
+export interface WorkerTaskRequest<K extends WorkerTaskName = WorkerTaskName> {
+  id: number
+  task: K
+  input: WorkerTaskMap[K]['input']
+}
+
+export type WorkerTaskResponse
+  = | { id: number, output: unknown }
+    | { id: number, error: string }
+
+type TaskHandler<K extends WorkerTaskName> = (input: WorkerTaskMap[K]['input']) => { output: WorkerTaskMap[K]['output'], transfer: ArrayBuffer[] }
+
+const HANDLERS: { [K in WorkerTaskName]: TaskHandler<K> } = {
+  outlineBand: ({ src, weights, width, rows, erodeIters, dilateIters, trimTop, trimBottom }) => {
+    const out = processOutlineBand(
+      new Uint8ClampedArray(src),
+      width,
+      rows,
+      new Float32Array(weights),
+      erodeIters,
+      dilateIters,
+      trimTop,
+      trimBottom,
+    )
+    const buffer = out.buffer as ArrayBuffer
+    return { output: buffer, transfer: [buffer] }
+  },
+  expansionWeightBand: ({ src, width, rows, stride, patchSize, avgScale, distScale, trimTop, trimBottom }) => {
+    const { weights, min, max } = expansionWeightBand(
+      new Uint8ClampedArray(src),
+      width,
+      rows,
+      stride,
+      patchSize,
+      avgScale,
+      distScale,
+      trimTop,
+      trimBottom,
+    )
+    const buffer = weights.buffer as ArrayBuffer
+    return { output: { weights: buffer, min, max }, transfer: [buffer] }
+  },
+  contrastDownscaleBand: ({ src, width, height, rowStart, outWidth, outHeight, oyStart, oyEnd }) => {
+    const out = contrastDownscaleBand(new Uint8ClampedArray(src), width, height, rowStart, outWidth, outHeight, oyStart, oyEnd)
+    const buffer = out.buffer as ArrayBuffer
+    return { output: buffer, transfer: [buffer] }
+  },
+}
+
+/** Worker side: run one request and build the reply with its transfer list. */
+export function runWorkerTask(request: WorkerTaskRequest): { response: WorkerTaskResponse, transfer: ArrayBuffer[] } {
+  try {
+    const handler = HANDLERS[request.task] as TaskHandler<WorkerTaskName> | undefined
+    if (!handler) {
+      throw new Error(`Unknown worker task: ${request.task}`)
+    }
+    const { output, transfer } = handler(request.input)
+    return { response: { id: request.id, output }, transfer }
+  }
+  catch (error) {
+    return { response: { id: request.id, error: error instanceof Error ? error.message : String(error) }, transfer: [] }
+  }
+}
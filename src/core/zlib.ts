@@ -0,0 +1,804 @@
+/**
+ * Minimal zlib (RFC 1950) / DEFLATE (RFC 1951) codec for PNG data.
+ *
+ * The decoder handles every block type. The encoder does hash-chain LZ77
+ * matching with lazy evaluation and writes dynamic-Huffman blocks.
+ */
+
+const LENGTH_BASE = new Uint16Array([
+  3,
+  4,
+  5,
+  6,
+  7,
+  8,
+  9,
+  10,
+  11,
+  13,
+  15,
+  17,
+  19,
+  23,
+  27,
+  31,
+  35,
+  43,
+  51,
+  59,
+  67,
+  83,
+  99,
+  115,
+  131,
+  163,
+  195,
+  227,
+  258,
+])
+const LENGTH_EXTRA = new Uint8Array([
+  0,
+  0,
+  0,
+  0,
+  0,
+  0,
+  0,
+  0,
+  1,
+  1,
+  1,
+  1,
+  2,
+  2,
+  2,
+  2,
+  3,
+  3,
+  3,
+  3,
+  4,
+  4,
+  4,
+  4,
+  5,
+  5,
+  5,
+  5,
+  0,
+])
+const DIST_BASE = new Uint16Array([
+  1,
+  2,
+  3,
+  4,
+  5,
+  7,
+  9,
+  13,
+  17,
+  25,
+  33,
+  49,
+  65,
+  97,
+  129,
+  193,
+  257,
+  385,
+  513,
+  769,
+  1025,
+  1537,
+  2049,
+  3073,
+  4097,
+  6145,
+  8193,
+  12_289,
+  16_385,
+  24_577,
+])
+const DIST_EXTRA = new Uint8Array([
+  0,
+  0,
+  0,
+  0,
+  1,
+  1,
+  2,
+  2,
+  3,
+  3,
+  4,
+  4,
+  5,
+  5,
+  6,
+  6,
+  7,
+  7,
+  8,
+  8,
+  9,
+  9,
+  10,
+  10,
+  11,
+  11,
+  12,
+  12,
+  13,
+  13,
+])
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15]
+
+export function adler32(bytes: Uint8Array): number {
+  let a = 1
+  let b = 0
+  for (let i = 0; i < bytes.length;) {
+    // 5552 is the largest run that cannot overflow before the modulo
+    const end = Math.min(bytes.length, i + 5552)
+    for (; i < end; i++) {
+      a += bytes[i]
+      b += a
+    }
+    a %= 65_521
+    b %= 65_521
+  }
+  return ((b << 16) | a) >>> 0
+}
+
+function reverseBits(code: number, length: number): number {
+  let reversed = 0
+  for (let i = 0; i < length; i++) {
+    reversed = (reversed << 1) | ((code >>> i) & 1)
+  }
+  return reversed
+}
+
+/** Canonical codes (RFC 1951 3.2.2) for the given code lengths. */
+function canonicalCodes(lengths: Uint8Array): Uint16Array {
+  const count = new Uint16Array(16)
+  for (const length of lengths) {
+    count[length]++
+  }
+  count[0] = 0
+  const next = new Uint16Array(16)
+  for (let bits = 1, code = 0; bits < 16; bits++) {
+    code = (code + count[bits - 1]) << 1
+    next[bits] = code
+  }
+  const codes = new Uint16Array(lengths.length)
+  for (const [symbol, length] of lengths.entries()) {
+    if (length) {
+      codes[symbol] = next[length]++
+    }
+  }
+  return codes
+}
+
+interface HuffmanTable {
+  /** Indexed by the next `bits` input bits: symbol << 4 | code length, -1 if invalid */
+  entries: Int32Array
+  bits: number
+}
+
+function buildHuffmanTable(lengths: Uint8Array): HuffmanTable {
+  const bits = Math.max(1, ...lengths)
+  const entries = new Int32Array(1 << bits).fill(-1)
+  const codes = canonicalCodes(lengths)
+  for (const [symbol, length] of lengths.entries()) {
+    if (!length) {
+      continue
+    }
+    for (let i = reverseBits(codes[symbol], length); i < entries.length; i += 1 << length) {
+      entries[i] = (symbol << 4) | length
+    }
+  }
+  return { entries, bits }
+}
+
+function fixedLiteralLengths(): Uint8Array {
+  const lengths = new Uint8Array(288)
+  lengths.fill(8, 0, 144)
+  lengths.fill(9, 144, 256)
+  lengths.fill(7, 256, 280)
+  lengths.fill(8, 280, 288)
+  return lengths
+}
+
+let fixedTables: { literal: HuffmanTable, distance: HuffmanTable } | undefined
+
+function getFixedTables(): { literal: HuffmanTable, distance: HuffmanTable } {
+  fixedTables ??= {
+    literal: buildHuffmanTable(fixedLiteralLengths()),
+    distance: buildHuffmanTable(new Uint8Array(30).fill(5)),
+  }
+  return fixedTables
+}
+
+class Inflater {
+  private input: Uint8Array
+  private pos: number
+  private bitBuffer = 0
+  private bitCount = 0
+  private out: Uint8Array
+  private length = 0
+
+  constructor(input: Uint8Array, start: number, sizeHint: number) {
+    this.input = input
+    this.pos = start
+    this.out = new Uint8Array(Math.max(1024, sizeHint))
+  }
+
+  private need(count: number): void {
+    while (this.bitCount < count) {
+      if (this.pos >= this.input.length) {
+        throw new Error('Unexpected end of deflate data')
+      }
+      this.bitBuffer |= this.input[this.pos++] << this.bitCount
+      this.bitCount += 8
+    }
+  }
+
+  private bits(count: number): number {
+    if (count === 0) {
+      return 0
+    }
+    this.need(count)
+    const value = this.bitBuffer & ((1 << count) - 1)
+    this.bitBuffer >>>= count
+    this.bitCount -= count
+    return value
+  }
+
+  private symbol(table: HuffmanTable): number {
+    // Near the end of the input the table may be wider than the bits left
+    while (this.bitCount < table.bits && this.pos < this.input.length) {
+      this.bitBuffer |= this.input[this.pos++] << this.bitCount
+      this.bitCount += 8
+    }
+    const entry = table.entries[this.bitBuffer & ((1 << table.bits) - 1)]
+    const length = entry & 15
+    if (entry < 0 || length > this.bitCount) {
+      throw new Error('Invalid deflate Huffman code')
+    }
+    this.bitBuffer >>>= length
+    this.bitCount -= length
+    return entry >> 4
+  }
+
+  private reserve(count: number): void {
+    if (this.length + count <= this.out.length) {
+      return
+    }
+    const grown = new Uint8Array(Math.max(this.out.length * 2, this.length + count))
+    grown.set(this.out.subarray(0, this.length))
+    this.out = grown
+  }
+
+  /** Inflate the raw deflate stream; returns the output and the end offset. */
+  run(): { data: Uint8Array, end: number } {
+    let final = 0
+    while (!final) {
+      final = this.bits(1)
+      const type = this.bits(2)
+      switch (type) {
+        case 0: {
+          this.storedBlock()
+
+          break
+        }
+        case 1: {
+          const { literal, distance } = getFixedTables()
+          this.huffmanBlock(literal, distance)
+
+          break
+        }
+        case 2: {
+          const { literal, distance } = this.dynamicTables()
+          this.huffmanBlock(literal, distance)
+
+          break
+        }
+        default: {
+          throw new Error('Invalid deflate block type')
+        }
+      }
+    }
+    return { data: this.out.subarray(0, this.length), end: this.pos - (this.bitCount >> 3) }
+  }
+
+  private storedBlock(): void {
+    // Byte-align: give back whole bytes still sitting in the bit buffer
+    this.pos -= this.bitCount >> 3
+    this.bitBuffer = 0
+    this.bitCount = 0
+    if (this.pos + 4 > this.input.length) {
+      throw new Error('Unexpected end of deflate data')
+    }
+    const length = this.input[this.pos] | (this.input[this.pos + 1] << 8)
+    const inverse = this.input[this.pos + 2] | (this.input[this.pos + 3] << 8)
+    if ((length ^ 0xFF_FF) !== inverse) {
+      throw new Error('Invalid stored block length')
+    }
+    this.pos += 4
+    if (this.pos + length > this.input.length) {
+      throw new Error('Unexpected end of deflate data')
+    }
+    this.reserve(length)
+    this.out.set(this.input.subarray(this.pos, this.pos + length), this.length)
+    this.length += length
+    this.pos += length
+  }
+
+  private dynamicTables(): { literal: HuffmanTable, distance: HuffmanTable } {
+    const literalCount = this.bits(5) + 257
+    const distanceCount = this.bits(5) + 1
+    const codeLengthCount = this.bits(4) + 4
+
+    const codeLengthLengths = new Uint8Array(19)
+    for (let i = 0; i < codeLengthCount; i++) {
+      codeLengthLengths[CODE_LENGTH_ORDER[i]] = this.bits(3)
+    }
+    const codeLengthTable = buildHuffmanTable(codeLengthLengths)
+
+    const lengths = new Uint8Array(literalCount + distanceCount)
+    for (let i = 0; i < lengths.length;) {
+      const symbol = this.symbol(codeLengthTable)
+      if (symbol < 16) {
+        lengths[i++] = symbol
+        continue
+      }
+      let repeat: number
+      let value = 0
+      if (symbol === 16) {
+        if (i === 0) {
+          throw new Error('Invalid deflate code lengths')
+        }
+        value = lengths[i - 1]
+        repeat = 3 + this.bits(2)
+      }
+      else {
+        repeat = symbol === 17 ? 3 + this.bits(3) : 11 + this.bits(7)
+      }
+      if (i + repeat > lengths.length) {
+        throw new Error('Invalid deflate code lengths')
+      }
+      lengths.fill(value, i, i + repeat)
+      i += repeat
+    }
+
+    return {
+      literal: buildHuffmanTable(lengths.subarray(0, literalCount)),
+      distance: buildHuffmanTable(lengths.subarray(literalCount)),
+    }
+  }
+
+  private huffmanBlock(literal: HuffmanTable, distance: HuffmanTable): void {
+    for (;;) {
+      const symbol = this.symbol(literal)
+      if (symbol < 256) {
+        this.reserve(1)
+        this.out[this.length++] = symbol
+        continue
+      }
+      if (symbol === 256) {
+        return
+      }
+      const lengthCode = symbol - 257
+      if (lengthCode >= LENGTH_BASE.length) {
+        throw new Error('Invalid deflate length code')
+      }
+      const length = LENGTH_BASE[lengthCode] + this.bits(LENGTH_EXTRA[lengthCode])
+      const distanceCode = this.symbol(distance)
+      if (distanceCode >= DIST_BASE.length) {
+        throw new Error('Invalid deflate distance code')
+      }
+      const dist = DIST_BASE[distanceCode] + this.bits(DIST_EXTRA[distanceCode])
+      if (dist > this.length) {
+        throw new Error('Invalid deflate distance')
+      }
+      this.reserve(length)
+      const out = this.out
+      for (let i = 0, from = this.length - dist; i < length; i++) {
+        out[this.length++] = out[from + i]
+      }
+    }
+  }
+}
+
+/** Decompress a raw DEFLATE stream. */
+export function inflateRaw(data: Uint8Array, sizeHint: number = data.length * 4): Uint8Array {
+  return new Inflater(data, 0, sizeHint).run().data
+}
+
+/**
+ * Decompress a zlib stream and verify its Adler-32 checksum. `sizeHint`
+ * (the expected output size, if known) avoids growing the output buffer.
+ */
+export function inflate(data: Uint8Array, sizeHint: number = data.length * 4): Uint8Array {
+  if (data.length < 6) {
+    throw new Error('Truncated zlib data')
+  }
+  const cmf = data[0]
+  const flg = data[1]
+  if ((cmf & 15) !== 8 || ((cmf << 8) | flg) % 31 !== 0) {
+    throw new Error('Invalid zlib header')
+  }
+  if (flg & 0x20) {
+    throw new Error('zlib preset dictionaries are not supported')
+  }
+  const { data: out, end } = new Inflater(data, 2, sizeHint).run()
+  if (end + 4 <= data.length) {
+    const expected = ((data[end] << 24) | (data[end + 1] << 16) | (data[end + 2] << 8) | data[end + 3]) >>> 0
+    if (adler32(out) !== expected) {
+      throw new Error('zlib checksum mismatch')
+    }
+  }
+  return out
+}
+
+class BitWriter {
+  private out: Uint8Array
+  private length = 0
+  private bitBuffer = 0
+  private bitCount = 0
+
+  constructor(sizeHint: number) {
+    this.out = new Uint8Array(Math.max(1024, sizeHint))
+  }
+
+  private push(byte: number): void {
+    if (this.length === this.out.length) {
+      const grown = new Uint8Array(this.out.length * 2)
+      grown.set(this.out)
+      this.out = grown
+    }
+    this.out[this.length++] = byte
+  }
+
+  /** Append `count` (≤ 16) bits, least significant first. */
+  write(value: number, count: number): void {
+    this.bitBuffer |= value << this.bitCount
+    this.bitCount += count
+    while (this.bitCount >= 8) {
+      this.push(this.bitBuffer & 0xFF)
+      this.bitBuffer >>>= 8
+      this.bitCount -= 8
+    }
+  }
+
+  writeBytes(bytes: Uint8Array): void {
+    for (const byte of bytes) {
+      this.push(byte)
+    }
+  }
+
+  finish(): Uint8Array<ArrayBuffer> {
+    if (this.bitCount > 0) {
+      this.push(this.bitBuffer & 0xFF)
+      this.bitBuffer = 0
+      this.bitCount = 0
+    }
+    return this.out.slice(0, this.length)
+  }
+}
+
+// Match length (3..258) -> length code index
+const LENGTH_CODE = (() => {
+  const table = new Uint8Array(259)
+  for (let code = 0; code < LENGTH_BASE.length; code++) {
+    table.fill(code, LENGTH_BASE[code], code + 1 < LENGTH_BASE.length ? LENGTH_BASE[code + 1] : 259)
+  }
+  return table
+})()
+
+function distanceCode(dist: number): number {
+  let code = 0
+  while (code < 29 && DIST_BASE[code + 1] <= dist) {
+    code++
+  }
+  return code
+}
+
+/** Huffman code lengths for `freqs`, at most `maxBits` long. */
+function huffmanLengths(freqs: Uint32Array, maxBits: number): Uint8Array {
+  const lengths = new Uint8Array(freqs.length)
+  let weights = [...freqs]
+  for (;;) {
+    const leaves = weights.flatMap((weight, symbol) => (weight > 0 ? [symbol] : []))
+      .sort((a, b) => weights[a] - weights[b])
+    if (leaves.length <= 1) {
+      // A single used symbol still needs a one-bit code
+      lengths.fill(0)
+      lengths[leaves[0] ?? 0] = 1
+      return lengths
+    }
+
+    // Two-queue Huffman construction: leaves and merged nodes each come
+    // out in non-decreasing weight order
+    const nodeWeight: number[] = []
+    const parent = new Int32Array(leaves.length * 2 - 1).fill(-1)
+    let leaf = 0
+    let merged = 0
+    const takeSmallest = (): number => {
+      const mergedIndex = leaves.length + merged
+      if (leaf < leaves.length && (mergedIndex >= leaves.length + nodeWeight.length || weights[leaves[leaf]] <= nodeWeight[merged])) {
+        return leaf++
+      }
+      merged++
+      return mergedIndex
+    }
+    const weightOf = (node: number): number => (node < leaves.length ? weights[leaves[node]] : nodeWeight[node - leaves.length])
+    for (let n = 0; n < leaves.length - 1; n++) {
+      const a = takeSmallest()
+      const b = takeSmallest()
+      const node = leaves.length + nodeWeight.length
+      nodeWeight.push(weightOf(a) + weightOf(b))
+      parent[a] = node
+      parent[b] = node
+    }
+
+    // Parents always have higher indices, so depths fill in one backward pass
+    const depth = new Uint8Array(parent.length)
+    for (let node = parent.length - 2; node >= 0; node--) {
+      depth[node] = depth[parent[node]] + 1
+    }
+    let longest = 0
+    lengths.fill(0)
+    for (const [i, leaf_] of leaves.entries()) {
+      lengths[leaf_] = depth[i]
+      longest = Math.max(longest, depth[i])
+    }
+    if (longest <= maxBits) {
+      return lengths
+    }
+    // Flatten the distribution and retry; converges to a balanced tree
+    weights = weights.map(weight => (weight > 0 ? Math.max(1, weight >> 1) : 0))
+  }
+}
+
+/** Run-length encode literal/distance code lengths with symbols 16-18. */
+function encodeCodeLengths(lengths: Uint8Array): { symbols: number[], extras: number[] } {
+  const symbols: number[] = []
+  const extras: number[] = []
+  for (let i = 0; i < lengths.length;) {
+    const value = lengths[i]
+    let run = 1
+    while (i + run < lengths.length && lengths[i + run] === value) {
+      run++
+    }
+    i += run
+    if (value === 0) {
+      for (; run >= 11; run -= Math.min(run, 138)) {
+        symbols.push(18)
+        extras.push(Math.min(run, 138) - 11)
+      }
+      for (; run >= 3; run -= Math.min(run, 10)) {
+        symbols.push(17)
+        extras.push(Math.min(run, 10) - 3)
+      }
+    }
+    else {
+      symbols.push(value)
+      extras.push(0)
+      run--
+      for (; run >= 3; run -= Math.min(run, 6)) {
+        symbols.push(16)
+        extras.push(Math.min(run, 6) - 3)
+      }
+    }
+    for (; run > 0; run--) {
+      symbols.push(value)
+      extras.push(0)
+    }
+  }
+  return { symbols, extras }
+}
+
+function reversedCodes(lengths: Uint8Array): Uint16Array {
+  return canonicalCodes(lengths).map((code, symbol) => reverseBits(code, lengths[symbol]))
+}
+
+/** Pending LZ77 output of one block: literal/length symbols with their distances (0 for literals). */
+interface TokenBlock {
+  symbols: Uint16Array
+  values: Uint16Array
+  distances: Uint16Array
+  count: number
+}
+
+const BLOCK_TOKENS = 1 << 16
+
+/** Write one dynamic-Huffman block. */
+function writeBlock(writer: BitWriter, block: TokenBlock, final: boolean): void {
+  const literalFreqs = new Uint32Array(286)
+  const distanceFreqs = new Uint32Array(30)
+  for (let t = 0; t < block.count; t++) {
+    literalFreqs[block.symbols[t]]++
+    if (block.distances[t]) {
+      distanceFreqs[distanceCode(block.distances[t])]++
+    }
+  }
+  literalFreqs[256] = 1
+
+  const literalLengths = huffmanLengths(literalFreqs, 15)
+  const distanceLengths = huffmanLengths(distanceFreqs, 15)
+  let literalCount = 286
+  while (literalCount > 257 && !literalLengths[literalCount - 1]) {
+    literalCount--
+  }
+  let distanceCount = 30
+  while (distanceCount > 1 && !distanceLengths[distanceCount - 1]) {
+    distanceCount--
+  }
+
+  const allLengths = new Uint8Array(literalCount + distanceCount)
+  allLengths.set(literalLengths.subarray(0, literalCount))
+  allLengths.set(distanceLengths.subarray(0, distanceCount), literalCount)
+  const { symbols, extras } = encodeCodeLengths(allLengths)
+  const codeLengthFreqs = new Uint32Array(19)
+  for (const symbol of symbols) {
+    codeLengthFreqs[symbol]++
+  }
+  const codeLengthLengths = huffmanLengths(codeLengthFreqs, 7)
+  let codeLengthCount = 19
+  while (codeLengthCount > 4 && !codeLengthLengths[CODE_LENGTH_ORDER[codeLengthCount - 1]]) {
+    codeLengthCount--
+  }
+
+  writer.write(final ? 1 : 0, 1)
+  writer.write(2, 2)
+  writer.write(literalCount - 257, 5)
+  writer.write(distanceCount - 1, 5)
+  writer.write(codeLengthCount - 4, 4)
+  for (let i = 0; i < codeLengthCount; i++) {
+    writer.write(codeLengthLengths[CODE_LENGTH_ORDER[i]], 3)
+  }
+  const codeLengthCodes = reversedCodes(codeLengthLengths)
+  const repeatBits = [2, 3, 7]
+  for (const [i, symbol] of symbols.entries()) {
+    writer.write(codeLengthCodes[symbol], codeLengthLengths[symbol])
+    if (symbol >= 16) {
+      writer.write(extras[i], repeatBits[symbol - 16])
+    }
+  }
+
+  const literalCodes = reversedCodes(literalLengths)
+  const distanceCodes = reversedCodes(distanceLengths)
+  for (let t = 0; t < block.count; t++) {
+    const symbol = block.symbols[t]
+    writer.write(literalCodes[symbol], literalLengths[symbol])
+    const dist = block.distances[t]
+    if (!dist) {
+      continue
+    }
+    const code = symbol - 257
+    writer.write(block.values[t] - LENGTH_BASE[code], LENGTH_EXTRA[code])
+    const dCode = distanceCode(dist)
+    writer.write(distanceCodes[dCode], distanceLengths[dCode])
+    writer.write(dist - DIST_BASE[dCode], DIST_EXTRA[dCode])
+  }
+  writer.write(literalCodes[256], literalLengths[256])
+}
+
+const WINDOW_SIZE = 32_768
+const HASH_BITS = 15
+const MIN_MATCH = 3
+const MAX_MATCH = 258
+/** Matches at least this long are taken without trying the next position */
+const LAZY_LIMIT = 32
+
+/**
+ * Compress to a raw DEFLATE stream of dynamic-Huffman blocks. `maxChain`
+ * bounds the match candidates tried per position: higher is smaller and
+ * slower.
+ */
+export function deflateRaw(data: Uint8Array, maxChain: number = 128): Uint8Array<ArrayBuffer> {
+  const writer = new BitWriter(data.length / 2 + 64)
+  const head = new Int32Array(1 << HASH_BITS).fill(-1)
+  const prev = new Int32Array(WINDOW_SIZE)
+  const hashAt = (i: number): number =>
+    Math.imul((data[i] << 16) | (data[i + 1] << 8) | data[i + 2], 0x9E_37_79_B1) >>> (32 - HASH_BITS)
+  const insert = (i: number): void => {
+    if (i + MIN_MATCH <= data.length) {
+      const hash = hashAt(i)
+      prev[i & (WINDOW_SIZE - 1)] = head[hash]
+      head[hash] = i
+    }
+  }
+
+  let matchDist = 0
+  // Longest earlier match for position i (inserted positions only)
+  const findMatch = (i: number): number => {
+    let bestLength = 0
+    if (i + MIN_MATCH > data.length) {
+      return 0
+    }
+    const limit = Math.min(MAX_MATCH, data.length - i)
+    let candidate = head[hashAt(i)]
+    for (let chain = maxChain; candidate >= 0 && i - candidate <= WINDOW_SIZE && chain > 0; chain--) {
+      if (data[candidate + bestLength] === data[i + bestLength]) {
+        let length = 0
+        while (length < limit && data[candidate + length] === data[i + length]) {
+          length++
+        }
+        if (length > bestLength) {
+          bestLength = length
+          matchDist = i - candidate
+          if (length === limit) {
+            break
+          }
+        }
+      }
+      candidate = prev[candidate & (WINDOW_SIZE - 1)]
+    }
+    return bestLength >= MIN_MATCH ? bestLength : 0
+  }
+
+  const block: TokenBlock = {
+    symbols: new Uint16Array(BLOCK_TOKENS),
+    values: new Uint16Array(BLOCK_TOKENS),
+    distances: new Uint16Array(BLOCK_TOKENS),
+    count: 0,
+  }
+  const push = (symbol: number, value: number, dist: number): void => {
+    if (block.count === BLOCK_TOKENS) {
+      writeBlock(writer, block, false)
+      block.count = 0
+    }
+    block.symbols[block.count] = symbol
+    block.values[block.count] = value
+    block.distances[block.count++] = dist
+  }
+
+  let i = 0
+  while (i < data.length) {
+    let length = findMatch(i)
+    let dist = matchDist
+    if (length && length < LAZY_LIMIT) {
+      // Lazy matching: prefer a longer match starting one byte later
+      insert(i)
+      const next = findMatch(i + 1)
+      if (next > length) {
+        push(data[i], 0, 0)
+        i++
+        length = next
+        dist = matchDist
+      }
+      else {
+        for (let j = i + 1; j < i + length; j++) {
+          insert(j)
+        }
+        push(257 + LENGTH_CODE[length], length, dist)
+        i += length
+        continue
+      }
+    }
+    if (!length) {
+      push(data[i], 0, 0)
+      insert(i)
+      i++
+      continue
+    }
+    push(257 + LENGTH_CODE[length], length, dist)
+    for (const end = i + length; i < end; i++) {
+      insert(i)
+    }
+  }
+  writeBlock(writer, block, true)
+  return writer.finish()
+}
+
+/** Compress to a zlib stream. */
+export function deflate(data: Uint8Array, maxChain: number = 128): Uint8Array<ArrayBuffer> {
+  const raw = deflateRaw(data, maxChain)
+  const out = new Uint8Array(raw.length + 6)
+  out[0] = 0x78
+  out[1] = 0x9C
+  out.set(raw, 2)
+  new DataView(out.buffer).setUint32(raw.length + 2, adler32(data))
+  return out
+}
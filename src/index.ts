@@ -1,23 +1,49 @@
+export * from './core/alpha'
+export * from './core/aseprite'
+export * from './core/cancellation'
 export * from './core/color'
+export * from './core/colorIndex'
 export * from './core/colorSpace'
+export * from './core/decode'
 
 export * from './core/dithering'
 export * from './core/downscale'
+export * from './core/gif'
+export * from './core/grid'
 // Core exports
 export { PixelImageData } from './core/imageData'
 export * from './core/imageResize'
+export * from './core/imageSource'
+export * from './core/jpeg'
+export * from './core/logger'
+export * from './core/metadata'
 export * from './core/morphology'
+export * from './core/options'
 export * from './core/outline'
 
+export * from './core/paletteExtraction'
+export * from './core/paletteFiles'
 export * from './core/palettes'
+export * from './core/pipeline'
+export * from './core/pipelineWorker'
 export * from './core/planes'
+export * from './core/png'
 // New Python-ported features
 export * from './core/quantization'
+export * from './core/regions'
 export * from './core/sharpen'
 export * from './core/slidingStats'
+export * from './core/stageCache'
+export * from './core/svg'
+export * from './core/workerPool'
+export * from './core/workerTasks'
+export * from './core/zlib'
 // Main exports
 export { PixelOE } from './pixeloe'
-export type { PixelOEOptions, PixelOEResult } from './pixeloe'
-
+export type { PixelizeRunOptions, PixelOEOptions, PixelOEResult, PixelOETimings } from './pixeloe'
 // Utilities
 export * from './utils/math'
+export { VERSION } from './version'
+
+export { PixelOEWorkerClient } from './workerClient'
+export type { WorkerPixelizeRunOptions } from './workerClient'
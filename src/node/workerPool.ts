@@ -0,0 +1,86 @@
+/**
+ * worker_threads backend for {@link WorkerPool}, so `pixelizeAsync` gets
+ * the same multi-core outline expansion in Node as in the browser:
+ *
+ * ```ts
+ * const pool = createNodeWorkerPool()
+ * const pixelOE = new PixelOE({ workerPool: pool })
+ * await pixelOE.pixelizeAsync(image)
+ * pool.dispose()
+ * ```
+ *
+ * Workers load `workerUrl`, by default this module itself (or the bundle
+ * it was built into), and serve tasks when started with the pool's
+ * `workerData` marker. A custom entry calls {@link servePoolTasks}.
+ */
+
+import type { MessagePort } from 'node:worker_threads'
+import type { PoolWorker } from '../core/workerPool'
+import type { WorkerTaskRequest, WorkerTaskResponse } from '../core/workerTasks'
+import { availableParallelism } from 'node:os'
+import { isMainThread, parentPort, Worker, workerData } from 'node:worker_threads'
+import { defaultPoolSize, WorkerPool } from '../core/workerPool'
+import { runWorkerTask } from '../core/workerTasks'
+
+const POOL_WORKER_MARKER = 'pixeloe:pool-worker'
+
+export interface NodeWorkerPoolOptions {
+  /** Worker count (default: one per spare core, at most 8) */
+  size?: number
+  /** Worker entry module (default: this module) */
+  workerUrl?: URL | string
+  /** Extra `execArgv` for the worker threads, e.g. loader hooks */
+  execArgv?: string[]
+}
+
+/** Whether this thread was started by a {@link createNodeWorkerPool} pool */
+export function isPoolWorker(): boolean {
+  return !isMainThread && (workerData as Record<string, unknown> | null)?.[POOL_WORKER_MARKER] === true
+}
+
+/** Worker side: answer pool task requests arriving on `port` */
+export function servePoolTasks(port: MessagePort): void {
+  port.on('message', (request: WorkerTaskRequest) => {
+    const { response, transfer } = runWorkerTask(request)
+    port.postMessage(response, transfer)
+  })
+}
+
+export function createNodeWorkerPool(options: NodeWorkerPoolOptions = {}): WorkerPool {
+  const { size = defaultPoolSize(availableParallelism()), workerUrl = import.meta.url, execArgv } = options
+  return new WorkerPool((onMessage, onError): PoolWorker => {
+    const worker = new Worker(workerUrl, { workerData: { [POOL_WORKER_MARKER]: true }, execArgv })
+    let busy = 0
+    let terminated = false
+    worker.on('message', (response: WorkerTaskResponse) => {
+      // Idle workers must not keep the process alive
+      if (--busy === 0) {
+        worker.unref()
+      }
+      onMessage(response)
+    })
+    worker.on('error', onError)
+    worker.on('exit', (code) => {
+      if (!terminated && code !== 0) {
+        onError(new Error(`Pool worker exited with code ${code}`))
+      }
+    })
+    worker.unref()
+    return {
+      postMessage: (message, transfer) => {
+        if (busy++ === 0) {
+          worker.ref()
+        }
+        worker.postMessage(message, transfer)
+      },
+      terminate: () => {
+        terminated = true
+        void worker.terminate()
+      },
+    }
+  }, size)
+}
+
+if (isPoolWorker() && parentPort) {
+  servePoolTasks(parentPort)
+}
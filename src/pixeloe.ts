@@ -1,17 +1,31 @@
+import type { AsepriteLayer, AsepriteOptions } from './core/aseprite'
+import type { ProgressCallback, StageName } from './core/cancellation'
 import type { DitherMethod } from './core/dithering'
+import type { GifFrame, GifOptions } from './core/gif'
+import type { FitPolicy } from './core/grid'
+import type { PixelImageData } from './core/imageData'
+import type { ImageSource } from './core/imageSource'
+import type { PixelOELogger } from './core/logger'
+import type { ExportMetadata, PixelOEMetadata } from './core/metadata'
 import type { ColorPalette } from './core/palettes'
+import type { Pipeline, PipelineContext, PipelineStage } from './core/pipeline'
+import type { PixelOERegion } from './core/regions'
 import type { SharpenMode } from './core/sharpen'
-import { colorStyling } from './core/color'
-import { matchColorFast } from './core/colorOptimizedFast'
-import { contrastDownscale } from './core/downscale'
-import { contourDownscale } from './core/contourPixelize'
-import { contrastDownscaleMRF } from './core/downscaleMRF'
-import { PixelImageData } from './core/imageData'
+import type { SvgOptions } from './core/svg'
+import type { TaskRunner } from './core/workerPool'
+import { encodeAseprite } from './core/aseprite'
+import { throwIfAborted } from './core/cancellation'
+import { encodeGif } from './core/gif'
+import { cropImage, resolveGridSize } from './core/grid'
 import { resizeImageSync } from './core/imageResize'
-import { outlineExpansion, outlineExpansionOptimized, outlineExpansionOptimizedAsync } from './core/outline'
-// Morphology imports removed as no longer needed
-import { quantizeAndDither, quantizeToPalette } from './core/quantization'
-import { applySharpen } from './core/sharpen'
+import { encodeWithCanvas, readImageSource } from './core/imageSource'
+import { resolveLogger } from './core/logger'
+import { embedPngMetadata, hashImage, readPngMetadata } from './core/metadata'
+import { createDefaultPipeline, resolveDownscaleTarget } from './core/pipeline'
+import { encodeIndexedPng, encodePng } from './core/png'
+import { compositeRegions, regionMaskToGrid } from './core/regions'
+import { inputCacheKey, StageCache, stageCacheKey } from './core/stageCache'
+import { encodeSvg } from './core/svg'
 
 /**
  * PixelOE configuration options
@@ -20,6 +34,9 @@ export interface PixelOEOptions {
   pixelSize: number // patch_size in Python demo
   thickness: number // thickness in Python demo
   targetSize?: number // target_size in Python demo (new parameter)
+  targetWidth?: number // Exact output grid width; overrides targetSize
+  targetHeight?: number // Exact output grid height; overrides targetSize
+  fit?: FitPolicy // Aspect mismatch policy when both targetWidth and targetHeight are set
   mode: 'contrast'
   downscaleMethod?: 'contrast' | 'mrf' | 'mrf-rescue' | 'contour' // greedy heuristic / MRF labeling / greedy+MRF rescue / contour re-rasterization (experimental)
   mrfAA?: boolean // MRF only: blend low-coverage structure patches toward center (pixel-art AA convention)
@@ -48,8 +65,32 @@ export interface PixelOEOptions {
   edgeDetectionThreshold?: number // Edge detection sensitivity (0.0-1.0)
   useEdgeOptimization?: boolean // Enable edge-aware processing
   adaptiveProcessing?: boolean // Use adaptive region-of-interest processing
+
+  // Large images
+  maxPixels?: number // Larger inputs are downscaled before processing (default: 2,000,000); ignored when tiled
+  tiled?: boolean // Run outline expansion and contrast downscale in overlapping bands, no maxPixels cap and no stage cache; sharpening, color matching and the input copy stay full-resolution
+  tileRows?: number // Rows per band in tiled mode (default: 256)
+
+  // Transparency
+  alphaThreshold?: number // Downscaled cells with alpha >= threshold become opaque, the rest transparent (0-255)
+
+  // Caching
+  cacheStages?: boolean // Reuse stage outputs across runs on the same input while the options they read are unchanged (default: off; ignored when tiled)
+
+  // Workers
+  workerPool?: TaskRunner | null // Pool for pixelizeAsync's parallel stages (default: shared Web Worker pool; null runs on the calling thread)
+
+  // Diagnostics
+  logger?: PixelOELogger // Receives stage timings and notices, e.g. `console` (default: none)
+  silent?: boolean // Suppress all logging, overriding `logger`
 }
 
+/**
+ * Wall-clock milliseconds per stage that ran (including custom stages) and
+ * for the whole run.
+ */
+export type PixelOETimings = Partial<Record<StageName, number>> & { total: number }
+
 /**
  * PixelOE processing result
  */
@@ -57,6 +98,55 @@ export interface PixelOEResult {
   result: PixelImageData
   intermediate?: PixelImageData
   weights?: Float32Array
+  /**
+   * Colors of a quantized result (`doQuantization` or `usePalette`): the
+   * K-means centroids or `selectedPalette` colors it uses, after color
+   * matching and styling. Reusable through the palette file writers.
+   */
+  palette?: number[][]
+  timings: PixelOETimings
+  /** Snapshots requested through {@link PixelizeRunOptions.capture}, keyed by stage */
+  stages?: Partial<Record<StageName, PixelImageData>>
+}
+
+/**
+ * Per-run controls for {@link PixelOE.pixelize} / {@link PixelOE.pixelizeAsync}
+ */
+export interface PixelizeRunOptions {
+  returnIntermediate?: boolean
+  /** Aborting rejects (async) or throws (sync) with a `PixelOEAbortError` */
+  signal?: AbortSignal
+  /** Called with 0 when a stage starts, 1 when it ends, and in between where a stage can tell */
+  onProgress?: ProgressCallback
+  /**
+   * Stages whose output to snapshot into `PixelOEResult.stages` ('all' for
+   * every stage, 'preprocess' included). A skipped stage's snapshot is the
+   * image as it passed through.
+   */
+  capture?: StageName[] | 'all'
+  /**
+   * Masked regions processed with their own option overrides and painted
+   * over the base result on its output grid (later regions win). Stage
+   * captures, intermediates, weights and the palette come from the base run.
+   * A region overriding only `pixelSize` gets the base grid scaled by the
+   * ratio of the pixel sizes, e.g. cells twice as large at double the size.
+   */
+  regions?: PixelOERegion[]
+  /**
+   * Receives a quick draft before the full pipeline runs: the same output
+   * grid, computed from the input reduced to two pixels per cell with the
+   * contrast downscale, no color matching, no dithering and a short
+   * K-means. Not emitted for region runs, with `noDownscale` (there is
+   * no grid) or when the stage cache already covers the downscale.
+   */
+  onDraft?: (draft: PixelOEResult) => void
+}
+
+/** Pixels per output cell of the reduced input a draft is computed from */
+const DRAFT_PATCH_SIZE = 2
+
+function normalizeRunOptions(options: boolean | PixelizeRunOptions): PixelizeRunOptions {
+  return typeof options === 'boolean' ? { returnIntermediate: options } : options
 }
 
 /**
@@ -65,7 +155,30 @@ export interface PixelOEResult {
 export class PixelOE {
   private options: PixelOEOptions
 
-  constructor(options: Partial<PixelOEOptions> = {}) {
+  /**
+   * Stages run after input preparation, in order. Customize per instance,
+   * e.g. `pixelOE.pipeline.insertBefore('downscale', keyOutStage)`, or
+   * pass one to the constructor to share it between instances.
+   */
+  readonly pipeline: Pipeline
+
+  /** Set on the derived instance computing a draft */
+  private isDraft = false
+
+  /** Last output of every stage; see {@link clearCache} */
+  private readonly stageCache: StageCache
+
+  /**
+   * A `stageCache` may be shared too, e.g. by successive instances that
+   * process the same input.
+   */
+  constructor(
+    options: Partial<PixelOEOptions> = {},
+    pipeline: Pipeline = createDefaultPipeline(),
+    stageCache: StageCache = new StageCache(),
+  ) {
+    this.pipeline = pipeline
+    this.stageCache = stageCache
     this.options = {
       pixelSize: 6, // patch_size
       thickness: 3, // thickness
@@ -98,6 +211,17 @@ export class PixelOE {
       useEdgeOptimization: true,
       adaptiveProcessing: true,
 
+      // Large image defaults
+      maxPixels: 2_000_000,
+      tiled: false,
+      tileRows: 256,
+
+      // Transparency defaults
+      alphaThreshold: 128,
+
+      // Caching defaults
+      cacheStages: false,
+
       ...options,
     }
   }
@@ -117,100 +241,41 @@ export class PixelOE {
   }
 
   /**
-   * Load image from various sources
+   * Drop every cached stage output. Runs are cached per input object, so
+   * call this after changing an input's pixels in place.
    */
-  async loadImage(source: string | HTMLImageElement | File | PixelImageData): Promise<PixelImageData> {
-    if (source instanceof PixelImageData) {
-      return source
-    }
-
-    if (typeof source === 'string') {
-      return this.loadImageFromUrl(source)
-    }
-
-    if (source instanceof HTMLImageElement) {
-      return this.imageElementToPixelImageData(source)
-    }
-
-    if (source instanceof File) {
-      return this.loadImageFromFile(source)
-    }
-
-    throw new Error('Unsupported image source type')
+  clearCache(): void {
+    this.stageCache.clear()
   }
 
   /**
-   * Load image from URL
+   * Load image from various sources. Blobs decode through
+   * `createImageBitmap`; everything but DOM elements works in a Worker.
    */
-  private async loadImageFromUrl(url: string): Promise<PixelImageData> {
-    return new Promise((resolve, reject) => {
-      const img = new Image()
-      img.crossOrigin = 'anonymous'
-
-      img.addEventListener('load', () => {
-        try {
-          const pixelImageData = this.imageElementToPixelImageData(img)
-          resolve(pixelImageData)
-        }
-        catch (error) {
-          reject(error)
-        }
-      })
-
-      img.addEventListener('error', () => reject(new Error('Failed to load image')))
-      img.src = url
-    })
+  async loadImage(source: ImageSource): Promise<PixelImageData> {
+    return readImageSource(source)
   }
 
   /**
-   * Load image from File object
+   * Read the settings embedded by {@link exportBlob} from a PNG, e.g. to
+   * restore them when an exported image is loaded again. Returns null when
+   * the file carries no PixelOE metadata.
    */
-  private async loadImageFromFile(file: File): Promise<PixelImageData> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader()
-
-      reader.addEventListener('load', async (e) => {
-        try {
-          const imageData = await this.loadImageFromUrl(e.target?.result as string)
-          resolve(imageData)
-        }
-        catch (error) {
-          reject(error)
-        }
-      })
-
-      reader.addEventListener('error', () => reject(new Error('Failed to read file')))
-      reader.readAsDataURL(file)
-    })
-  }
-
-  /**
-   * Convert HTMLImageElement to PixelImageData
-   */
-  private imageElementToPixelImageData(img: HTMLImageElement): PixelImageData {
-    const canvas = document.createElement('canvas')
-    canvas.width = img.width
-    canvas.height = img.height
-
-    const ctx = canvas.getContext('2d')
-    if (!ctx) {
-      throw new Error('Failed to get canvas context')
-    }
-
-    ctx.drawImage(img, 0, 0)
-    const imageData = ctx.getImageData(0, 0, img.width, img.height)
-
-    return PixelImageData.fromCanvasImageData(imageData)
+  async readImageMetadata(source: Blob | ArrayBuffer | Uint8Array): Promise<PixelOEMetadata | null> {
+    const bytes = source instanceof Uint8Array
+      ? source
+      : new Uint8Array(source instanceof ArrayBuffer ? source : await source.arrayBuffer())
+    return readPngMetadata(bytes)
   }
 
   /**
    * Preprocess image to handle large images
    */
   private preprocessImage(imageData: PixelImageData): PixelImageData {
-    const maxPixels = 2_000_000 // 2MP limit to avoid memory issues
+    const maxPixels = this.options.maxPixels || 2_000_000 // Pixel cap to avoid memory issues
     const currentPixels = imageData.width * imageData.height
 
-    if (currentPixels <= maxPixels) {
+    if (currentPixels <= maxPixels || this.options.tiled) {
       return imageData
     }
 
@@ -219,7 +284,7 @@ export class PixelOE {
     const newWidth = Math.floor(imageData.width * scale)
     const newHeight = Math.floor(imageData.height * scale)
 
-    console.log(`Large image detected (${imageData.width}x${imageData.height}), resizing to ${newWidth}x${newHeight}`)
+    resolveLogger(this.options).warn(`[PixelOE] Large image (${imageData.width}x${imageData.height}) resized to ${newWidth}x${newHeight}`)
 
     return resizeImageSync(imageData, newWidth, newHeight, 'bilinear')
   }
@@ -228,6 +293,9 @@ export class PixelOE {
    * Apply target size resize (matching Python pixelize.py logic) with smart optimization
    */
   private applyTargetSizeResize(imageData: PixelImageData): PixelImageData {
+    if (this.options.targetWidth || this.options.targetHeight) {
+      return this.applyTargetGridResize(imageData)
+    }
     const { width: w, height: h } = imageData
     const ratio = w / h
     const targetSize = this.options.targetSize || 256
@@ -241,20 +309,20 @@ export class PixelOE {
       Math.floor(targetOrgSize), // height
     ]
 
-    console.log(`Target size calculation: targetSize=${targetSize}, patchSize=${patchSize}, ratio=${ratio}`)
-    console.log(`targetOrgSize=${targetOrgSize}, targetOrgHW=[${targetOrgHW[0]}, ${targetOrgHW[1]}]`)
+    const logger = resolveLogger(this.options)
+    logger.debug(`[PixelOE] Target size: targetSize=${targetSize}, patchSize=${patchSize}, targetOrgHW=[${targetOrgHW[0]}, ${targetOrgHW[1]}]`)
 
     // Respect noUp/noDown flags while keeping aspect ratio
     const desiredScale = Math.min(targetOrgHW[0] / w, targetOrgHW[1] / h)
 
     if (this.options.noDownscale && desiredScale < 1) {
-      console.log('⏭️ [PixelOE] Skip target resize: noDownscale enabled')
+      logger.debug('[PixelOE] Skip target resize: noDownscale enabled')
       return imageData
     }
 
     const cappedScale = this.options.noUpscale ? Math.min(desiredScale, 1) : desiredScale
     if (cappedScale >= 1 && this.options.noUpscale) {
-      console.log('⏭️ [PixelOE] Skip target resize: noUpscale enabled and target is larger')
+      logger.debug('[PixelOE] Skip target resize: noUpscale enabled and target is larger')
       return imageData
     }
 
@@ -269,233 +337,375 @@ export class PixelOE {
     return resizeImageSync(imageData, finalWidth, finalHeight, 'bilinear')
   }
 
+  /**
+   * Exact-grid variant of the target resize: crop per the fit policy, then
+   * scale to exactly grid × pixelSize so every patch is pixelSize square
+   * (stretched for 'fill').
+   */
+  private applyTargetGridResize(imageData: PixelImageData): PixelImageData {
+    const patchSize = this.options.pixelSize
+    const grid = resolveGridSize(imageData.width, imageData.height, this.options)
+    const cropped = cropImage(imageData, grid.crop.x, grid.crop.y, grid.crop.width, grid.crop.height)
+    const finalWidth = grid.width * patchSize
+    const finalHeight = grid.height * patchSize
+
+    const logger = resolveLogger(this.options)
+    logger.debug(`[PixelOE] Target grid: ${grid.width}x${grid.height}, patchSize=${patchSize}, fit=${this.options.fit || 'fit'}`)
+
+    const scale = Math.max(finalWidth / cropped.width, finalHeight / cropped.height)
+    if ((this.options.noDownscale && scale < 1) || (this.options.noUpscale && scale > 1)) {
+      logger.debug('[PixelOE] Skip target resize: noDownscale/noUpscale enabled')
+      return cropped
+    }
+    if (finalWidth === cropped.width && finalHeight === cropped.height) {
+      return cropped
+    }
+    return resizeImageSync(cropped, finalWidth, finalHeight, 'bilinear')
+  }
+
   /**
    * Preprocess + target-size resize, shared by sync and async pipelines.
+   * Cached under `key` like a stage; without a key the cache is emptied,
+   * so no earlier run's images stay alive.
    */
-  private prepareForOutline(imageData: PixelImageData): PixelImageData {
-    const preprocessStart = performance.now()
-    let processedImageData = this.preprocessImage(imageData)
-    const preprocessTime = performance.now() - preprocessStart
-    console.log(`📦 [PixelOE] Preprocessing: ${preprocessTime.toFixed(1)}ms`)
+  private prepareForOutline(imageData: PixelImageData, run: PixelizeRunOptions, key: string | null): PixelImageData {
+    throwIfAborted(run.signal)
+    run.onProgress?.('preprocess', 0)
+    if (key === null) {
+      this.stageCache.clear()
+    }
 
-    const targetResizeStart = performance.now()
-    processedImageData = this.applyTargetSizeResize(processedImageData)
-    const targetResizeTime = performance.now() - targetResizeStart
-    console.log(`🎯 [PixelOE] Target size resize: ${targetResizeTime.toFixed(1)}ms`)
+    const processedImageData = this.stageCache.get('preprocess', key)?.image
+      ?? this.applyTargetSizeResize(this.preprocessImage(imageData))
+    this.stageCache.set('preprocess', key, processedImageData)
 
+    run.onProgress?.('preprocess', 1)
     return processedImageData
   }
 
+  /** Cache key of a run's prepared input; null when caching is off, as in tiled mode */
+  private inputKey(imageData: PixelImageData, run: PixelizeRunOptions): string | null {
+    if (!this.options.cacheStages || this.options.tiled) {
+      return null
+    }
+    // Returned weights are only computed on request, so they change the outline output
+    return inputCacheKey(imageData, this.options, String(!!run.returnIntermediate))
+  }
+
   /**
-   * Main pixelize processing function
+   * Whether every stage up to the downscale will come from the cache, so
+   * only quick grid-level work is left and a draft isn't worth it
    */
-  pixelize(imageData: PixelImageData, returnIntermediate: boolean = false): PixelOEResult {
-    const totalStart = performance.now()
-    console.log(`🎨 [PixelOE] Starting pixelize process for ${imageData.width}x${imageData.height} image`)
+  private cachedThroughDownscale(ctx: PipelineContext, key: string | null): boolean {
+    for (const stage of this.pipeline.list()) {
+      if (stage.enabled && !stage.enabled(ctx)) {
+        continue
+      }
+      key = stageCacheKey(key, stage, this.options)
+      if (!this.stageCache.get(stage.name, key)) {
+        return false
+      }
+      if (stage.name === 'downscale') {
+        return true
+      }
+    }
+    return false
+  }
 
-    const processedImageData = this.prepareForOutline(imageData)
-    const originalImageData = processedImageData.clone()
-    let result = processedImageData
-    let expansionWeights: Float32Array | undefined
-
-    // Step 1: Outline expansion (before sharpening, matching Python)
-    const outlineStart = performance.now()
-    if (this.options.thickness > 0) {
-      const edgeMode = this.options.edgeExpansionMode || 'optimized'
-      console.log(`🎯 [PixelOE] Using edge expansion mode: ${edgeMode}`)
-
-      const expansion = edgeMode === 'optimized' && this.options.useEdgeOptimization
-        ? outlineExpansionOptimized(
-            result,
-            this.options.thickness,
-            this.options.thickness,
-            this.options.pixelSize,
-            9, // avgScale
-            4, // distScale
-            this.options.edgeDetectionThreshold || 0.1,
-            true, // useOptimization
-            returnIntermediate, // computeReturnWeights
-          )
-        : outlineExpansion(
-            result,
-            this.options.thickness,
-            this.options.thickness,
-            this.options.pixelSize,
-            9,
-            4,
-          )
-      result = expansion.result
-      expansionWeights = expansion.weights
-    }
-    const outlineTime = performance.now() - outlineStart
-    console.log(`📜 [PixelOE] Outline expansion (${this.options.edgeExpansionMode}): ${outlineTime.toFixed(1)}ms`)
-
-    result = this.finishPipeline(result, originalImageData)
-
-    const totalTime = performance.now() - totalStart
-    console.log(`✅ [PixelOE] Total processing time: ${totalTime.toFixed(1)}ms`)
-    console.log(`🏁 [PixelOE] Final result: ${result.width}x${result.height}`)
+  /**
+   * The cached output of `stage` under `key`, restoring the state the
+   * stage left; undefined on a miss.
+   */
+  private cachedStage(stage: PipelineStage, key: string | null, ctx: PipelineContext): PixelImageData | undefined {
+    const entry = this.stageCache.get(stage.name, key)
+    if (entry) {
+      ctx.weights = entry.state.weights
+      ctx.palette = entry.state.palette
+    }
+    return entry?.image
+  }
 
+  private createContext(original: PixelImageData, run: PixelizeRunOptions): PipelineContext {
     return {
-      result,
-      intermediate: returnIntermediate ? originalImageData : undefined,
-      weights: returnIntermediate ? expansionWeights : undefined,
+      options: this.options,
+      logger: resolveLogger(this.options),
+      original,
+      returnIntermediate: run.returnIntermediate ?? false,
+      draft: this.isDraft,
+      signal: run.signal,
+      reportProgress: () => {},
     }
   }
 
   /**
-   * Async pixelize: same output as {@link pixelize}, but the outline
-   * morphology runs on a Web Worker pool when available (multi-core),
-   * keeping the main thread responsive. Falls back to the synchronous
-   * path in environments without Workers.
+   * Point `ctx.reportProgress` at the stage about to run.
    */
-  async pixelizeAsync(imageData: PixelImageData, returnIntermediate: boolean = false): Promise<PixelOEResult> {
-    const totalStart = performance.now()
-    console.log(`🎨 [PixelOE] Starting async pixelize process for ${imageData.width}x${imageData.height} image`)
-
-    const processedImageData = this.prepareForOutline(imageData)
-    const originalImageData = processedImageData.clone()
-    let result = processedImageData
-    let expansionWeights: Float32Array | undefined
-
-    const outlineStart = performance.now()
-    if (this.options.thickness > 0) {
-      const edgeMode = this.options.edgeExpansionMode || 'optimized'
-
-      if (edgeMode === 'optimized' && this.options.useEdgeOptimization) {
-        const expansion = await outlineExpansionOptimizedAsync(
-          result,
-          this.options.thickness,
-          this.options.thickness,
-          this.options.pixelSize,
-          9,
-          4,
-          this.options.edgeDetectionThreshold || 0.1,
-          true,
-          returnIntermediate,
-        )
-        result = expansion.result
-        expansionWeights = expansion.weights
-      }
-      else {
-        const expansion = outlineExpansion(
-          result,
-          this.options.thickness,
-          this.options.thickness,
-          this.options.pixelSize,
-          9,
-          4,
-        )
-        result = expansion.result
-        expansionWeights = expansion.weights
-      }
+  private enterStage(stage: PipelineStage, ctx: PipelineContext, run: PixelizeRunOptions): boolean {
+    if (stage.enabled && !stage.enabled(ctx)) {
+      return false
     }
-    const outlineTime = performance.now() - outlineStart
-    console.log(`📜 [PixelOE] Outline expansion (parallel): ${outlineTime.toFixed(1)}ms`)
+    throwIfAborted(run.signal)
+    ctx.reportProgress = fraction => run.onProgress?.(stage.name, fraction)
+    ctx.reportProgress(0)
+    return true
+  }
 
-    result = this.finishPipeline(result, originalImageData)
+  /**
+   * Close a stage: final progress event, timing entry, debug log line.
+   */
+  private leaveStage(name: StageName, ctx: PipelineContext, start: number, timings: PixelOETimings, cached: boolean): void {
+    ctx.reportProgress(1)
+    const elapsed = performance.now() - start
+    timings[name] = elapsed
+    ctx.logger.debug(`[PixelOE] ${name}: ${cached ? 'cached' : `${elapsed.toFixed(1)}ms`}`)
+  }
 
-    const totalTime = performance.now() - totalStart
-    console.log(`✅ [PixelOE] Total processing time: ${totalTime.toFixed(1)}ms`)
+  private captureStage(name: StageName, image: PixelImageData, run: PixelizeRunOptions, stages: PixelOEResult['stages']): void {
+    if (stages && (run.capture === 'all' || run.capture?.includes(name))) {
+      stages[name] = image.clone()
+    }
+  }
 
+  /**
+   * Grid-level runners for a region run: the base options and every
+   * region's overrides, all stopping before the final upscale.
+   */
+  private regionRunners(run: PixelizeRunOptions): { base: PixelOE, layers: PixelOE[] } {
+    const derive = (overrides: Partial<PixelOEOptions>): PixelOE =>
+      new PixelOE({ ...this.options, ...overrides, noPostUpscale: true }, this.pipeline)
     return {
-      result,
-      intermediate: returnIntermediate ? originalImageData : undefined,
-      weights: returnIntermediate ? expansionWeights : undefined,
+      base: derive({}),
+      layers: (run.regions ?? []).map(region => derive({ ...this.regionGrid(region.options), ...region.options })),
     }
   }
 
   /**
-   * Pipeline steps after outline expansion (shared by sync/async paths).
+   * Target size of a region overriding only `pixelSize`: the base grid
+   * scaled by the ratio of the pixel sizes. The input is resized to the
+   * target size first, so the pixel size alone would not change the grid.
    */
-  private finishPipeline(input: PixelImageData, originalImageData: PixelImageData): PixelImageData {
-    let result = input
-
-    // Step 2: Optional sharpening (after outline expansion, matching Python)
-    const sharpenStart = performance.now()
-    if (this.options.sharpenMode && this.options.sharpenMode !== 'none') {
-      result = applySharpen(result, this.options.sharpenMode, this.options.sharpenStrength || 1)
+  private regionGrid({ pixelSize, targetWidth, targetHeight, targetSize }: Partial<PixelOEOptions>): Partial<PixelOEOptions> {
+    if (pixelSize === undefined || pixelSize === this.options.pixelSize || targetWidth || targetHeight || targetSize) {
+      return {}
+    }
+    const scale = (size: number | undefined): number | undefined =>
+      size ? Math.max(1, Math.round(size * this.options.pixelSize / pixelSize)) : size
+    if (this.options.targetWidth || this.options.targetHeight) {
+      return { targetWidth: scale(this.options.targetWidth), targetHeight: scale(this.options.targetHeight) }
     }
-    const sharpenTime = performance.now() - sharpenStart
-    console.log(`✨ [PixelOE] Sharpening: ${sharpenTime.toFixed(1)}ms`)
+    // A target size of 0 resizes to 256 cells, like `applyTargetSizeResize`
+    return { targetSize: scale(this.options.targetSize || 256) }
+  }
 
-    // Step 3: First color matching (using optimized version)
-    const colorMatchStart = performance.now()
-    if (this.options.colorMatching) {
-      result = matchColorFast(result, originalImageData)
+  private composeRegions(
+    imageData: PixelImageData,
+    regions: PixelOERegion[],
+    base: PixelOEResult,
+    layers: PixelImageData[],
+    totalStart: number,
+  ): PixelOEResult {
+    const { width: gridWidth, height: gridHeight } = base.result
+    const crop = this.options.targetWidth || this.options.targetHeight
+      ? resolveGridSize(imageData.width, imageData.height, this.options).crop
+      : undefined
+    let result = compositeRegions(base.result, layers.map((image, i) => ({
+      image,
+      cells: regionMaskToGrid(regions[i].mask, imageData.width, imageData.height, gridWidth, gridHeight, crop),
+    })))
+
+    if (!this.options.noUpscale && !this.options.noPostUpscale) {
+      const scale = this.options.pixelSize
+      result = resizeImageSync(result, gridWidth * scale, gridHeight * scale, 'nearest')
     }
-    const colorMatchTime = performance.now() - colorMatchStart
-    console.log(`🎨 [PixelOE] First color matching: ${colorMatchTime.toFixed(1)}ms`)
 
-    // Step 4: Downscaling
-    const downscaleStart = performance.now()
-    if (!this.options.noDownscale) {
-      // Use targetSize parameter if provided, otherwise calculate from pixelSize (backward compatibility)
-      const targetSize = this.options.targetSize
-        || Math.floor(Math.sqrt(originalImageData.width * originalImageData.height) / this.options.pixelSize)
+    const timings = { ...base.timings, total: performance.now() - totalStart }
+    resolveLogger(this.options).debug(`[PixelOE] ${regions.length} region(s) composited: ${timings.total.toFixed(1)}ms`)
+    return { ...base, result, timings }
+  }
 
-      console.log(`🔽 [PixelOE] Starting ${this.options.downscaleMethod ?? 'contrast'} downscaling (target: ${targetSize})`)
-      if (this.options.downscaleMethod === 'mrf' || this.options.downscaleMethod === 'mrf-rescue') {
-        result = contrastDownscaleMRF(result, targetSize, { aa: this.options.mrfAA, rescue: this.options.downscaleMethod === 'mrf-rescue' })
-      }
-      else if (this.options.downscaleMethod === 'contour') {
-        result = contourDownscale(result, targetSize)
-      }
-      else {
-        result = contrastDownscale(result, targetSize)
-      }
+  /**
+   * Quick preview of a run on `prepared` (see
+   * {@link PixelizeRunOptions.onDraft}): a derived instance runs the same
+   * pipeline on an exact-grid copy of {@link DRAFT_PATCH_SIZE} pixels per
+   * cell, with the outline thickness scaled down to match and
+   * `PipelineContext.draft` set.
+   */
+  private draft(prepared: PixelImageData, run: PixelizeRunOptions): PixelOEResult {
+    const start = performance.now()
+    const { pixelSize, thickness } = this.options
+    const grid = resolveGridSize(prepared.width, prepared.height, resolveDownscaleTarget({ options: this.options, original: prepared }))
+    const patch = Math.min(DRAFT_PATCH_SIZE, pixelSize)
+    const runner = new PixelOE({
+      ...this.options,
+      pixelSize: patch,
+      thickness: thickness > 0 ? Math.max(1, Math.round(thickness * patch / pixelSize)) : 0,
+      targetWidth: grid.width,
+      targetHeight: grid.height,
+      fit: 'fill',
+      downscaleMethod: 'contrast',
+      colorMatching: false,
+      ditherMethod: 'none',
+      tiled: false,
+      noUpscale: false,
+      noDownscale: false,
+      noPostUpscale: true,
+      silent: true,
+      cacheStages: false,
+    }, this.pipeline)
+    runner.isDraft = true
+    const draft = runner.pixelize(prepared, { signal: run.signal })
+
+    let result = draft.result
+    if (!this.options.noUpscale && !this.options.noPostUpscale) {
+      result = resizeImageSync(result, grid.width * pixelSize, grid.height * pixelSize, 'nearest')
     }
-    const downscaleTime = performance.now() - downscaleStart
-    console.log(`🔽 [PixelOE] Downscaling completed: ${downscaleTime.toFixed(1)}ms`)
+    return { result, timings: { ...draft.timings, total: performance.now() - start } }
+  }
 
-    // Step 5: Color quantization and dithering (with palette support)
-    const quantizationStart = performance.now()
-    const preQuantResult = result // Store for second color matching
+  /**
+   * Assemble the run's result. With `cached` the result, weights and
+   * palette may be cache entries, so the caller gets copies.
+   */
+  private buildResult(
+    result: PixelImageData,
+    ctx: PipelineContext,
+    timings: PixelOETimings,
+    totalStart: number,
+    stages: PixelOEResult['stages'],
+    cached: boolean,
+  ): PixelOEResult {
+    timings.total = performance.now() - totalStart
+    ctx.logger.debug(`[PixelOE] total: ${timings.total.toFixed(1)}ms -> ${result.width}x${result.height}`)
+
+    const weights = ctx.returnIntermediate ? ctx.weights : undefined
+    return {
+      result: cached ? result.clone() : result,
+      intermediate: ctx.returnIntermediate ? ctx.original : undefined,
+      weights: cached ? weights?.slice() : weights,
+      palette: cached ? ctx.palette?.map(color => [...color]) : ctx.palette,
+      timings,
+      stages,
+    }
+  }
 
-    if (this.options.usePalette && this.options.selectedPalette) {
-      // Use predefined palette
-      result = quantizeToPalette(
-        result,
-        this.options.selectedPalette,
-        this.options.ditherMethod || 'none',
-      )
-      console.log(`🎨 [PixelOE] Applied palette: ${this.options.selectedPalette.name} (${this.options.selectedPalette.colors.length} colors)`)
+  /**
+   * Main pixelize processing function.
+   *
+   * The second argument is either the legacy `returnIntermediate` flag or a
+   * {@link PixelizeRunOptions} bag. Runs every stage of {@link pipeline}
+   * through its synchronous `run`.
+   *
+   * With `cacheStages` a rerun on the same input object only redoes the
+   * stages whose `dependsOn` options changed and those after them; e.g.
+   * changing `saturation` reruns just the styling and upscale.
+   */
+  pixelize(imageData: PixelImageData, options: boolean | PixelizeRunOptions = false): PixelOEResult {
+    const run = normalizeRunOptions(options)
+    const totalStart = performance.now()
+    if (run.regions?.length) {
+      const { base, layers } = this.regionRunners(run)
+      const baseResult = base.pixelize(imageData, { ...run, regions: undefined, onDraft: undefined })
+      const layerResults = layers.map(layer => layer.pixelize(imageData, { signal: run.signal, onProgress: run.onProgress }).result)
+      return this.composeRegions(imageData, run.regions, baseResult, layerResults, totalStart)
     }
-    else if (this.options.doQuantization) {
-      // Use K-means quantization
-      result = quantizeAndDither(
-        result,
-        this.options.numColors || 32,
-        this.options.ditherMethod || 'none',
-      )
+    const timings: PixelOETimings = { total: 0 }
+
+    const stages: PixelOEResult['stages'] = run.capture ? {} : undefined
+
+    let key = this.inputKey(imageData, run)
+    const cached = key !== null
+    const processedImageData = this.prepareForOutline(imageData, run, key)
+    timings.preprocess = performance.now() - totalStart
+    this.captureStage('preprocess', processedImageData, run, stages)
+    const ctx = this.createContext(processedImageData.clone(), run)
+    if (run.onDraft && !this.options.noDownscale && !this.cachedThroughDownscale(ctx, key)) {
+      run.onDraft(this.draft(processedImageData, run))
     }
-
-    // Second color matching after quantization (key difference from original)
-    if ((this.options.usePalette || this.options.doQuantization) && this.options.colorMatching) {
-      result = matchColorFast(result, preQuantResult)
+    let result = processedImageData
+    let shared = cached
+
+    for (const stage of this.pipeline.list()) {
+      if (this.enterStage(stage, ctx, run)) {
+        const stageStart = performance.now()
+        key = stageCacheKey(key, stage, this.options)
+        const hit = this.cachedStage(stage, key, ctx)
+        // Stages get copies of cached images, so they may work in place
+        result = hit ?? stage.run(shared ? result.clone() : result, ctx)
+        this.stageCache.set(stage.name, key, result, { weights: ctx.weights, palette: ctx.palette })
+        shared = key !== null
+        this.leaveStage(stage.name, ctx, stageStart, timings, !!hit)
+      }
+      this.captureStage(stage.name, result, run, stages)
     }
 
-    const quantizationTime = performance.now() - quantizationStart
-    console.log(`🌈 [PixelOE] Color quantization: ${quantizationTime.toFixed(1)}ms`)
+    return this.buildResult(result, ctx, timings, totalStart, stages, cached)
+  }
 
-    // Step 6: Color styling
-    const stylingingStart = performance.now()
-    if (this.options.contrast !== 1 || this.options.saturation !== 1) {
-      result = colorStyling(result, this.options.saturation, this.options.contrast)
+  /**
+   * Async pixelize: same output as {@link pixelize}, but stages with a
+   * `runAsync` implementation may leave the main thread — the outline
+   * weights and morphology and the contrast downscale run in bands on
+   * `options.workerPool` (multi-core), by default the shared Web Worker
+   * pool. Falls back to the synchronous path without a pool, e.g. in Node
+   * unless a `createNodeWorkerPool` pool is passed.
+   *
+   * Aborting `signal` also terminates bands still running on workers; the
+   * promise rejects with a `PixelOEAbortError`.
+   */
+  async pixelizeAsync(imageData: PixelImageData, options: boolean | PixelizeRunOptions = false): Promise<PixelOEResult> {
+    const run = normalizeRunOptions(options)
+    const totalStart = performance.now()
+    if (run.regions?.length) {
+      const { base, layers } = this.regionRunners(run)
+      const baseResult = await base.pixelizeAsync(imageData, { ...run, regions: undefined, onDraft: undefined })
+      const layerResults: PixelImageData[] = []
+      for (const layer of layers) {
+        const { result } = await layer.pixelizeAsync(imageData, { signal: run.signal, onProgress: run.onProgress })
+        layerResults.push(result)
+      }
+      return this.composeRegions(imageData, run.regions, baseResult, layerResults, totalStart)
     }
-    const stylingTime = performance.now() - stylingingStart
-    console.log(`🎨 [PixelOE] Color styling: ${stylingTime.toFixed(1)}ms`)
-
-    // Step 7: Upscaling (unless disabled)
-    const upscaleStart = performance.now()
-    const shouldUpscale = !this.options.noUpscale && !this.options.noPostUpscale
-    if (shouldUpscale) {
-      result = resizeImageSync(result, result.width * this.options.pixelSize, result.height * this.options.pixelSize, 'nearest')
+    const timings: PixelOETimings = { total: 0 }
+
+    const stages: PixelOEResult['stages'] = run.capture ? {} : undefined
+
+    let key = this.inputKey(imageData, run)
+    const cached = key !== null
+    const processedImageData = this.prepareForOutline(imageData, run, key)
+    timings.preprocess = performance.now() - totalStart
+    this.captureStage('preprocess', processedImageData, run, stages)
+    const ctx = this.createContext(processedImageData.clone(), run)
+    if (run.onDraft && !this.options.noDownscale && !this.cachedThroughDownscale(ctx, key)) {
+      run.onDraft(this.draft(processedImageData, run))
+      // Let the caller paint the draft before the full run takes over
+      await new Promise(resolve => setTimeout(resolve, 0))
+      throwIfAborted(run.signal)
+    }
+    let result = processedImageData
+    let shared = cached
+
+    for (const stage of this.pipeline.list()) {
+      if (this.enterStage(stage, ctx, run)) {
+        const stageStart = performance.now()
+        key = stageCacheKey(key, stage, this.options)
+        const hit = this.cachedStage(stage, key, ctx)
+        if (hit) {
+          result = hit
+        }
+        else {
+          // Stages get copies of cached images, so they may work in place
+          const input = shared ? result.clone() : result
+          result = stage.runAsync ? await stage.runAsync(input, ctx) : stage.run(input, ctx)
+          throwIfAborted(run.signal)
+        }
+        this.stageCache.set(stage.name, key, result, { weights: ctx.weights, palette: ctx.palette })
+        shared = key !== null
+        this.leaveStage(stage.name, ctx, stageStart, timings, !!hit)
+      }
+      this.captureStage(stage.name, result, run, stages)
     }
-    const upscaleTime = performance.now() - upscaleStart
-    console.log(`⬆️ [PixelOE] Upscaling: ${upscaleTime.toFixed(1)}ms`)
 
-    return result
+    return this.buildResult(result, ctx, timings, totalStart, stages, cached)
   }
 
   /**
@@ -518,23 +728,115 @@ export class PixelOE {
   }
 
   /**
-   * Export image as blob
+   * Encode a result as PNG. With `usePalette` or `doQuantization` on, it is
+   * written indexed when it has at most 256 colors, palette indices
+   * following `selectedPalette.colors`; otherwise as RGB(A).
    */
-  async exportBlob(pixelImageData: PixelImageData, mimeType: string = 'image/png'): Promise<Blob> {
-    const canvas = this.toCanvas(pixelImageData)
+  toPng(pixelImageData: PixelImageData): Uint8Array<ArrayBuffer> {
+    const { usePalette, selectedPalette, doQuantization } = this.options
+    const indexed = usePalette || doQuantization
+      ? encodeIndexedPng(pixelImageData, usePalette ? selectedPalette?.colors : undefined)
+      : null
+    return indexed ?? encodePng(pixelImageData)
+  }
 
-    return new Promise((resolve, reject) => {
-      canvas.toBlob((blob) => {
-        if (blob) {
-          resolve(blob)
-        }
-        else {
-          reject(new Error('Failed to create blob'))
-        }
-      }, mimeType)
+  /**
+   * Encode results (e.g. the frames of an animation, pixelized one by one)
+   * as a GIF, with their exact colors: quantize them or use a palette. With
+   * `usePalette` on, the color table starts with `selectedPalette.colors`.
+   */
+  toGif(frames: readonly (PixelImageData | GifFrame)[], options: GifOptions = {}): Uint8Array<ArrayBuffer> {
+    const { usePalette, selectedPalette } = this.options
+    return encodeGif(frames, { colors: usePalette ? selectedPalette?.colors : undefined, ...options })
+  }
+
+  /**
+   * The output grid of a result, one pixel per cell: the result itself
+   * when it wasn't upscaled, otherwise a nearest downsample by `pixelSize`.
+   */
+  private outputGrid(image: PixelImageData): PixelImageData {
+    const { noUpscale, noPostUpscale, pixelSize } = this.options
+    return noUpscale || noPostUpscale
+      ? image
+      : resizeImageSync(image, image.width / pixelSize, image.height / pixelSize, 'nearest')
+  }
+
+  /**
+   * Encode a run's result as an Aseprite sprite for touching up: its output
+   * grid (one pixel per cell, even when the result was upscaled) as the
+   * top layer, in indexed color mode when it fits a 256-color palette
+   * (starting with `selectedPalette.colors` when `usePalette` is on).
+   * Stage snapshots captured on the grid (e.g. with
+   * `capture: ['downscale']`, the unquantized downscale) go below it as
+   * hidden reference layers; in indexed mode, their colors are mapped to
+   * the nearest of the result's palette.
+   */
+  toAseprite(result: PixelOEResult, options: AsepriteOptions = {}): Uint8Array<ArrayBuffer> {
+    const { usePalette, selectedPalette } = this.options
+    const grid = this.outputGrid(result.result)
+    const references: AsepriteLayer[] = []
+    for (const [stage, image] of Object.entries(result.stages ?? {})) {
+      if (image?.width === grid.width && image.height === grid.height) {
+        references.push({ name: stage, image, visible: false })
+      }
+    }
+    return encodeAseprite(
+      [...references, { name: 'PixelOE', image: grid }],
+      { colors: usePalette ? selectedPalette?.colors : undefined, ...options },
+    )
+  }
+
+  /**
+   * Encode a result as SVG on its output grid, each cell `pixelSize` units
+   * wide unless `options.pixelSize` says otherwise, so it stays crisp at
+   * any print or display size. With `usePalette` on, the color classes
+   * follow `selectedPalette.colors`.
+   */
+  toSvg(pixelImageData: PixelImageData, options: SvgOptions = {}): string {
+    const { usePalette, selectedPalette, pixelSize } = this.options
+    return encodeSvg(this.outputGrid(pixelImageData), {
+      pixelSize,
+      colors: usePalette ? selectedPalette?.colors : undefined,
+      ...options,
     })
   }
 
+  /**
+   * Export image as blob. PNG is encoded without a canvas (exact alpha,
+   * works in Node and workers) by {@link toPng}, GIF by {@link toGif} and
+   * SVG by {@link toSvg}; other types go through an OffscreenCanvas (or a DOM canvas where that
+   * is missing).
+   *
+   * For PNG, `metadata` (or `true` for the current options only) embeds the
+   * serialized options, library version and source hash as text chunks;
+   * see {@link readImageMetadata}.
+   */
+  async exportBlob(
+    pixelImageData: PixelImageData,
+    mimeType: string = 'image/png',
+    metadata?: ExportMetadata | boolean,
+  ): Promise<Blob> {
+    if (mimeType === 'image/gif') {
+      return new Blob([this.toGif([pixelImageData])], { type: mimeType })
+    }
+    if (mimeType === 'image/svg+xml') {
+      return new Blob([this.toSvg(pixelImageData)], { type: mimeType })
+    }
+    if (mimeType !== 'image/png') {
+      return encodeWithCanvas(pixelImageData, mimeType)
+    }
+
+    let png = this.toPng(pixelImageData)
+    if (metadata) {
+      const { options = this.options, source } = metadata === true ? {} : metadata
+      png = embedPngMetadata(png, {
+        options,
+        sourceHash: source ? await hashImage(source) : undefined,
+      })
+    }
+    return new Blob([png], { type: 'image/png' })
+  }
+
   /**
    * Simple weighted blend for ultra-fast mode
    */
@@ -0,0 +1,2 @@
+/** Library version, kept in sync with package.json */
+export const VERSION = '0.0.0'
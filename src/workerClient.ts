@@ -0,0 +1,251 @@
+import type { WorkerPixelizeRequest, WorkerPixelizeResponse } from './core/pipelineWorker'
+import type { PixelizeRunOptions, PixelOEOptions, PixelOEResult } from './pixeloe'
+import { PixelOEAbortError } from './core/cancellation'
+import { PixelImageData } from './core/imageData'
+import { resolveLogger } from './core/logger'
+import { serializeOptions } from './core/options'
+import { packImage, unpackImage, unpackResult } from './core/pipelineWorker'
+
+/**
+ * Run options for {@link PixelOEWorkerClient.pixelize}
+ */
+export interface WorkerPixelizeRunOptions extends PixelizeRunOptions {
+  /**
+   * Hand the input's pixel buffer to the worker instead of copying it.
+   * Saves a copy of large images, but leaves the caller's image empty once
+   * the request is posted.
+   */
+  transferInput?: boolean
+}
+
+interface QueuedJob {
+  request: WorkerPixelizeRequest
+  /** Packed into `request` on posting, unless the worker already holds it */
+  input: PixelImageData
+  transfer: ArrayBuffer[]
+  run: WorkerPixelizeRunOptions
+  resolve: (result: PixelOEResult) => void
+  reject: (error: unknown) => void
+  onAbort?: () => void
+}
+
+function createPipelineWorker(): Worker {
+  // Vite only bundles the worker for a `./`-relative URL
+  // eslint-disable-next-line unicorn/relative-url-style
+  return new Worker(new URL('./workers/pixeloe.worker.ts', import.meta.url), { type: 'module' })
+}
+
+/**
+ * Runs the whole {@link PixelOE} pipeline on a dedicated Web Worker, so
+ * weight calculation, downscaling, quantization and dithering never block
+ * the calling thread.
+ *
+ * Requests are queued and processed one at a time. Aborting a queued
+ * request just drops it; aborting the running one terminates the worker
+ * (the pipeline can't be interrupted mid-stage) and the next request starts
+ * on a fresh worker. Custom pipelines don't cross the worker boundary: the
+ * worker always runs the default one.
+ */
+export class PixelOEWorkerClient {
+  private options: Partial<PixelOEOptions>
+  private readonly createWorker: () => Worker
+  private worker: Worker | null = null
+  /** Key of the input the current worker holds */
+  private workerImageKey: number | undefined
+  private readonly queue: QueuedJob[] = []
+  private active: QueuedJob | null = null
+  private nextId = 0
+  /** Keys the worker recognizes inputs by; see {@link clearCache} */
+  private imageKeys = new WeakMap<PixelImageData, number>()
+  private nextImageKey = 0
+
+  constructor(options: Partial<PixelOEOptions> = {}, createWorker: () => Worker = createPipelineWorker) {
+    this.options = { ...options }
+    this.createWorker = createWorker
+  }
+
+  /**
+   * Update options; requests already queued keep the options they were
+   * made with
+   */
+  setOptions(options: Partial<PixelOEOptions>): void {
+    this.options = { ...this.options, ...options }
+  }
+
+  getOptions(): Partial<PixelOEOptions> {
+    return { ...this.options }
+  }
+
+  /**
+   * Make the next request recompute every stage. The worker caches stage
+   * outputs per input object, so call this after changing an input's
+   * pixels in place.
+   */
+  clearCache(): void {
+    this.imageKeys = new WeakMap()
+  }
+
+  /** Requests queued or running */
+  get pending(): number {
+    return this.queue.length + (this.active ? 1 : 0)
+  }
+
+  /**
+   * Same contract as {@link PixelOE.pixelize}, resolved off-thread. The
+   * input is copied unless `transferInput` is set, and not sent at all
+   * when the worker still holds it from the previous request.
+   */
+  async pixelize(imageData: PixelImageData, options: boolean | WorkerPixelizeRunOptions = false): Promise<PixelOEResult> {
+    const run = typeof options === 'boolean' ? { returnIntermediate: options } : options
+    if (run.signal?.aborted) {
+      throw new PixelOEAbortError(run.signal.reason)
+    }
+
+    const transfer: ArrayBuffer[] = []
+    const request: WorkerPixelizeRequest = {
+      id: this.nextId++,
+      options: serializeOptions(this.options),
+      imageKey: this.imageKey(imageData),
+      returnIntermediate: run.returnIntermediate,
+      capture: run.capture,
+      regions: run.regions?.map(({ mask, options }) => ({
+        mask: mask instanceof PixelImageData ? packImage(mask, transfer, true) : mask,
+        options: serializeOptions(options),
+      })),
+      progress: !!run.onProgress,
+      log: !!this.options.logger && !this.options.silent,
+      draft: !!run.onDraft,
+    }
+
+    return new Promise((resolve, reject) => {
+      const job: QueuedJob = { request, input: imageData, transfer, run, resolve, reject }
+      if (run.signal) {
+        const signal = run.signal
+        job.onAbort = () => this.abort(job, signal.reason)
+        signal.addEventListener('abort', job.onAbort, { once: true })
+      }
+      this.queue.push(job)
+      this.pump()
+    })
+  }
+
+  /** Reject every queued and running request */
+  cancelAll(reason?: unknown): void {
+    for (const job of [...this.queue, ...(this.active ? [this.active] : [])]) {
+      this.abort(job, reason)
+    }
+  }
+
+  /** Cancel everything and stop the worker; a later request starts a new one */
+  terminate(): void {
+    this.cancelAll()
+    this.worker?.terminate()
+    this.worker = null
+  }
+
+  private imageKey(image: PixelImageData): number {
+    let key = this.imageKeys.get(image)
+    if (key === undefined) {
+      key = this.nextImageKey++
+      this.imageKeys.set(image, key)
+    }
+    return key
+  }
+
+  private pump(): void {
+    if (this.active) {
+      return
+    }
+    const job = this.queue.shift()
+    if (!job) {
+      return
+    }
+    this.active = job
+    if (!this.worker) {
+      this.worker = this.spawn()
+      this.workerImageKey = undefined
+    }
+    if (job.request.imageKey !== this.workerImageKey) {
+      job.request.image = packImage(job.input, job.transfer, !job.run.transferInput)
+      this.workerImageKey = job.request.imageKey
+    }
+    this.worker.postMessage(job.request, job.transfer)
+  }
+
+  private spawn(): Worker {
+    const worker = this.createWorker()
+    worker.addEventListener('message', (event: MessageEvent<WorkerPixelizeResponse>) => this.handleMessage(event.data))
+    worker.addEventListener('error', (event: ErrorEvent) => {
+      event.preventDefault()
+      // The worker may be in any state after an uncaught error
+      worker.terminate()
+      if (this.worker === worker) {
+        this.worker = null
+      }
+      const job = this.active
+      if (job) {
+        this.settle(job)
+        job.reject(new Error(event.message || 'PixelOE worker failed'))
+      }
+    })
+    return worker
+  }
+
+  private handleMessage(message: WorkerPixelizeResponse): void {
+    const job = this.active
+    if (!job || job.request.id !== message.id) {
+      return
+    }
+    switch (message.type) {
+      case 'progress': {
+        job.run.onProgress?.(message.stage, message.fraction)
+        break
+      }
+      case 'draft': {
+        job.run.onDraft?.({ result: unpackImage(message.result), timings: message.timings })
+        break
+      }
+      case 'log': {
+        resolveLogger(this.options)[message.level](message.message)
+        break
+      }
+      case 'result': {
+        this.settle(job)
+        job.resolve(unpackResult(message))
+        break
+      }
+      case 'error': {
+        this.settle(job)
+        job.reject(new Error(message.message))
+        break
+      }
+    }
+  }
+
+  private abort(job: QueuedJob, reason: unknown): void {
+    if (job === this.active) {
+      this.worker?.terminate()
+      this.worker = null
+    }
+    else {
+      const index = this.queue.indexOf(job)
+      if (index === -1) {
+        return
+      }
+      this.queue.splice(index, 1)
+    }
+    this.settle(job)
+    job.reject(new PixelOEAbortError(reason))
+  }
+
+  /** Detach a finished job and start the next one */
+  private settle(job: QueuedJob): void {
+    if (job.onAbort) {
+      job.run.signal?.removeEventListener('abort', job.onAbort)
+    }
+    if (this.active === job) {
+      this.active = null
+    }
+    this.pump()
+  }
+}
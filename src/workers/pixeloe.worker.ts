@@ -0,0 +1,15 @@
+import type { WorkerPixelizeRequest } from '../core/pipelineWorker'
+import { createWorkerSession, runPixelizeRequest } from '../core/pipelineWorker'
+
+/**
+ * Dedicated worker running the full pipeline for {@link PixelOEWorkerClient}.
+ * The client sends one request at a time; result buffers are transferred
+ * back. The session keeps the last input and its stage cache between
+ * requests.
+ */
+
+const session = createWorkerSession()
+
+globalThis.addEventListener('message', (event: MessageEvent<WorkerPixelizeRequest>) => {
+  void runPixelizeRequest(event.data, (message, transfer = []) => globalThis.postMessage(message, { transfer }), session)
+})
@@ -0,0 +1,12 @@
+import type { WorkerTaskRequest } from '../core/workerTasks'
+import { runWorkerTask } from '../core/workerTasks'
+
+/**
+ * Web Worker entry of {@link WorkerPool}: runs one task per message and
+ * transfers the result back.
+ */
+
+globalThis.addEventListener('message', (event: MessageEvent<WorkerTaskRequest>) => {
+  const { response, transfer } = runWorkerTask(event.data)
+  globalThis.postMessage(response, { transfer })
+})
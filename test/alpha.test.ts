@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest'
+import { applyAlphaThreshold, premultiplyAlpha, unpremultiplyAlpha } from '../src/core/alpha'
+import { contourDownscale } from '../src/core/contourPixelize'
+import { contrastDownscale } from '../src/core/downscale'
+import { contrastDownscaleMRF } from '../src/core/downscaleMRF'
+import { PixelImageData } from '../src/core/imageData'
+import { outlineExpansionOptimized } from '../src/core/outline'
+import { colorQuantizationKMeans, quantizeToPalette } from '../src/core/quantization'
+import { PixelOE } from '../src/pixeloe'
+
+const HIDDEN_GREEN: [number, number, number, number] = [0, 255, 0, 0]
+
+/** Red disc on a transparent background whose hidden color is bright green */
+function sprite(size: number): PixelImageData {
+  const image = new PixelImageData(size, size)
+  const c = size / 2
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const inside = (x - c) ** 2 + (y - c) ** 2 < (size / 3) ** 2
+      image.setPixel(x, y, inside ? [200, 40, 40, 255] : HIDDEN_GREEN)
+    }
+  }
+  return image
+}
+
+function visiblePixels(image: PixelImageData): number[][] {
+  const pixels: number[][] = []
+  for (let i = 0; i < image.data.length; i += 4) {
+    if (image.data[i + 3] > 0) {
+      pixels.push([...image.data.subarray(i, i + 4)])
+    }
+  }
+  return pixels
+}
+
+describe('alpha support', () => {
+  it('premultiplies and restores color', () => {
+    const image = new PixelImageData(2, 1, new Uint8ClampedArray([200, 100, 50, 128, 10, 20, 30, 0]))
+    const premultiplied = premultiplyAlpha(image)
+    expect([...premultiplied.data]).toEqual([100, 50, 25, 128, 0, 0, 0, 0])
+    expect([...unpremultiplyAlpha(premultiplied).data]).toEqual([199, 100, 50, 128, 0, 0, 0, 0])
+  })
+
+  it('thresholds alpha to 1 bit', () => {
+    const image = new PixelImageData(3, 1, new Uint8ClampedArray([9, 9, 9, 40, 9, 9, 9, 128, 9, 9, 9, 255]))
+    expect([...applyAlphaThreshold(image, 128).data]).toEqual([0, 0, 0, 0, 9, 9, 9, 255, 9, 9, 9, 255])
+  })
+
+  it('downscales with coverage alpha and ignores hidden colors', () => {
+    const image = sprite(96)
+    for (const down of [contrastDownscale(image, 24), contrastDownscaleMRF(image, 24), contourDownscale(image, 24)]) {
+      expect(down.getPixel(0, 0)[3]).toBe(0)
+      expect(down.getPixel(12, 12)[3]).toBe(255)
+      for (const [r, g, b, a] of visiblePixels(down)) {
+        if (a === 255) {
+          expect(g, `${r},${g},${b}`).toBeLessThan(100)
+        }
+      }
+    }
+  })
+
+  it('keeps opaque downscales fully opaque', () => {
+    const image = sprite(64)
+    for (let i = 3; i < image.data.length; i += 4) {
+      image.data[i] = 255
+    }
+    expect(visiblePixels(contrastDownscale(image, 16)).every(p => p[3] === 255)).toBe(true)
+  })
+
+  it('does not smear hidden colors through outline expansion', () => {
+    const { result } = outlineExpansionOptimized(sprite(64), 2, 2, 4)
+    expect(result.getPixel(0, 0)[3]).toBe(0)
+    for (const [, g] of visiblePixels(result)) {
+      expect(g).toBeLessThan(100)
+    }
+  })
+
+  it('never quantizes transparent pixels', () => {
+    const image = sprite(32)
+    const { quantized, centroids, labels } = colorQuantizationKMeans(image, { numCentroids: 2 })
+    expect(centroids.every(c => c[1] < 100)).toBe(true)
+    expect(quantized.getPixel(0, 0)).toEqual([0, 0, 0, 0])
+    expect(labels[0]).toBe(-1)
+
+    const palette = { name: 'Duo', description: '', colors: [[0, 255, 0], [255, 0, 0]] }
+    for (const dither of ['none', 'ordered', 'error_diffusion'] as const) {
+      const mapped = quantizeToPalette(image, palette, dither)
+      expect(mapped.getPixel(0, 0), dither).toEqual([0, 0, 0, 0])
+      expect(mapped.getPixel(16, 16), dither).toEqual([255, 0, 0, 255])
+    }
+  })
+
+  it('produces crisp 1-bit transparency through the pipeline', () => {
+    const { result } = new PixelOE({ pixelSize: 4, thickness: 1, targetSize: 24, doQuantization: true, numColors: 4, silent: true })
+      .pixelize(sprite(96))
+    const alphas = new Set<number>()
+    for (let i = 3; i < result.data.length; i += 4) {
+      alphas.add(result.data[i])
+    }
+    expect([...alphas].toSorted((a, b) => a - b)).toEqual([0, 255])
+    expect(result.getPixel(0, 0)[3]).toBe(0)
+    expect(result.getPixel(48, 48)[3]).toBe(255)
+  })
+})
@@ -0,0 +1,183 @@
+import { describe, expect, it } from 'vitest'
+import { encodeAseprite } from '../src/core/aseprite'
+import { PixelImageData } from '../src/core/imageData'
+import { getPaletteByName } from '../src/core/palettes'
+import { inflate } from '../src/core/zlib'
+import { PixelOE } from '../src/pixeloe'
+
+interface ParsedSprite {
+  width: number
+  height: number
+  depth: number
+  transparentIndex: number
+  palette: number[][]
+  layers: { name: string, visible: boolean }[]
+  /** RGBA pixels of each layer's cel, resolved through the palette in indexed mode */
+  cels: number[][]
+}
+
+/** Reads the subset of the format the writer produces */
+function parseAseprite(bytes: Uint8Array): ParsedSprite {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  expect(view.getUint32(0, true)).toBe(bytes.length)
+  expect(view.getUint16(4, true)).toBe(0xA5_E0)
+  const sprite: ParsedSprite = {
+    width: view.getUint16(8, true),
+    height: view.getUint16(10, true),
+    depth: view.getUint16(12, true),
+    transparentIndex: bytes[28],
+    palette: [],
+    layers: [],
+    cels: [],
+  }
+
+  expect(view.getUint32(128, true)).toBe(bytes.length - 128)
+  expect(view.getUint16(132, true)).toBe(0xF1_FA)
+  const chunks = view.getUint32(140, true)
+  let offset = 144
+  for (let chunk = 0; chunk < chunks; chunk++) {
+    const size = view.getUint32(offset, true)
+    const type = view.getUint16(offset + 4, true)
+    const body = offset + 6
+    switch (type) {
+      case 0x20_19: {
+        const count = view.getUint32(body, true)
+        for (let i = 0, entry = body + 20; i < count; i++, entry += 6) {
+          sprite.palette.push([...bytes.subarray(entry + 2, entry + 6)])
+        }
+        break
+      }
+      case 0x20_04: {
+        const length = view.getUint16(body + 16, true)
+        sprite.layers.push({
+          name: new TextDecoder().decode(bytes.subarray(body + 18, body + 18 + length)),
+          visible: (view.getUint16(body, true) & 1) === 1,
+        })
+        break
+      }
+      case 0x20_05: {
+        expect(view.getUint16(body + 7, true)).toBe(2)
+        const [width, height] = [view.getUint16(body + 16, true), view.getUint16(body + 18, true)]
+        const pixels = inflate(bytes.subarray(body + 20, offset + size))
+        sprite.cels[view.getUint16(body, true)] = sprite.depth === 8
+          ? [...pixels.subarray(0, width * height)].flatMap(index => index === sprite.transparentIndex ? [0, 0, 0, 0] : sprite.palette[index])
+          : [...pixels.subarray(0, width * height * 4)]
+        break
+      }
+    }
+    offset += size
+  }
+  expect(offset).toBe(bytes.length)
+  return sprite
+}
+
+function patternImage(width: number, height: number, colors: number[][]): PixelImageData {
+  const image = new PixelImageData(width, height)
+  for (let i = 0; i < width * height; i++) {
+    image.data.set(colors[(i * 3 + (i >> 2)) % colors.length], i * 4)
+  }
+  return image
+}
+
+/** A layer's pixels mapped to their nearest opaque palette entry, as the writer maps reference layers */
+function nearestPixels(image: PixelImageData, palette: number[][]): number[] {
+  const pixels: number[] = []
+  for (let p = 0; p < image.data.length; p += 4) {
+    const [r, g, b, a] = image.data.subarray(p, p + 4)
+    let nearest = palette.find(entry => entry.join(',') === `${r},${g},${b},${a}`)
+    let best = Infinity
+    for (const entry of nearest || a === 0 ? [] : palette) {
+      const distance = (entry[0] - r) ** 2 + (entry[1] - g) ** 2 + (entry[2] - b) ** 2
+      if (entry[3] !== 0 && distance < best) {
+        best = distance
+        nearest = entry
+      }
+    }
+    pixels.push(...(a === 0 ? [0, 0, 0, 0] : nearest!))
+  }
+  return pixels
+}
+
+describe('aseprite writer', () => {
+  it('writes an indexed sprite with the palette in order and a transparent index', () => {
+    const palette = getPaletteByName('Gameboy')!.colors
+    const image = patternImage(10, 6, [[...palette[2], 255], [0, 0, 0, 0], [...palette[0], 255]])
+    const sprite = parseAseprite(encodeAseprite([{ name: 'Art', image }], { colors: palette }))
+
+    expect([sprite.width, sprite.height, sprite.depth]).toEqual([10, 6, 8])
+    expect(sprite.palette.slice(0, 4)).toEqual(palette.map(color => [...color, 255]))
+    expect(sprite.palette[sprite.transparentIndex][3]).toBe(0)
+    expect(sprite.layers).toEqual([{ name: 'Art', visible: true }])
+    expect(sprite.cels[0]).toEqual([...image.data])
+  })
+
+  it('adds a transparent entry to opaque indexed sprites', () => {
+    const image = patternImage(4, 4, [[1, 2, 3, 255], [4, 5, 6, 255]])
+    const sprite = parseAseprite(encodeAseprite([{ name: 'Art', image }]))
+    expect(sprite.palette).toEqual([[1, 2, 3, 255], [4, 5, 6, 255], [0, 0, 0, 0]])
+    expect(sprite.transparentIndex).toBe(2)
+  })
+
+  it('falls back to rgba past 256 colors and keeps layer order and visibility', () => {
+    const few = patternImage(20, 20, [[200, 100, 0, 255], [0, 0, 0, 0]])
+    const many = patternImage(20, 20, Array.from({ length: 300 }, (_, i) => [i % 256, i >> 8, 7, 255]))
+    const sprite = parseAseprite(encodeAseprite([{ name: 'Reference', image: few, visible: false }, { name: 'Ünïcode', image: many }]))
+
+    expect(sprite.depth).toBe(32)
+    expect(sprite.layers).toEqual([{ name: 'Reference', visible: false }, { name: 'Ünïcode', visible: true }])
+    expect(sprite.cels).toEqual([[...few.data], [...many.data]])
+    expect(sprite.palette).toEqual([])
+    expect(() => encodeAseprite([{ name: 'a', image: few }, { name: 'b', image: new PixelImageData(2, 2) }])).toThrow('20x20')
+  })
+
+  it('indexes on the top layer and maps lower layers to its nearest colors', () => {
+    const many = patternImage(20, 20, Array.from({ length: 300 }, (_, i) => [i % 256, i >> 8, 7, 255]))
+    const few = patternImage(20, 20, [[200, 100, 0, 255], [0, 0, 0, 0], [10, 0, 7, 255]])
+    const sprite = parseAseprite(encodeAseprite([{ name: 'Reference', image: many, visible: false }, { name: 'Art', image: few }]))
+
+    expect(sprite.depth).toBe(8)
+    expect(sprite.palette).toEqual([[200, 100, 0, 255], [0, 0, 0, 0], [10, 0, 7, 255]])
+    expect(sprite.cels[1]).toEqual([...few.data])
+    expect(sprite.cels[0]).toEqual(nearestPixels(many, sprite.palette))
+  })
+
+  it('exports a pixelize result on its grid with captured stages as hidden layers', () => {
+    const input = new PixelImageData(64, 64)
+    for (let i = 0; i < 64 * 64; i++) {
+      input.data.set([(i * 5) % 256, (i >> 6) * 4, 90, 255], i * 4)
+    }
+    const pixelOE = new PixelOE({ pixelSize: 4, thickness: 1, targetSize: 16, doQuantization: true, numColors: 5, silent: true })
+    const result = pixelOE.pixelize(input, { capture: ['downscale', 'upscale'] })
+    const sprite = parseAseprite(pixelOE.toAseprite(result))
+    const grid = result.stages!.downscale!
+
+    expect([sprite.width, sprite.height]).toEqual([grid.width, grid.height])
+    expect(sprite.layers).toEqual([{ name: 'downscale', visible: false }, { name: 'PixelOE', visible: true }])
+    // The unquantized reference doesn't fit the result's palette, so it is mapped onto it
+    expect(sprite.depth).toBe(8)
+    expect(sprite.cels[0]).toEqual(nearestPixels(grid, sprite.palette))
+    for (let y = 0; y < grid.height; y++) {
+      for (let x = 0; x < grid.width; x++) {
+        expect(sprite.cels[1].slice((y * grid.width + x) * 4, (y * grid.width + x + 1) * 4)).toEqual(result.result.getPixel(x * 4, y * 4))
+      }
+    }
+  })
+
+  it('writes default-option palette and quantized results in indexed mode', () => {
+    const input = new PixelImageData(128, 128)
+    for (let i = 0; i < 128 * 128; i++) {
+      input.data.set([(i * 37) % 256, (i >> 7) * 2, i % 3 ? 200 : 40, 255], i * 4)
+    }
+    const pico8 = getPaletteByName('Pico-8')!
+    for (const options of [{ usePalette: true, selectedPalette: pico8 }, { doQuantization: true }]) {
+      const pixelOE = new PixelOE({ silent: true, ...options })
+      const result = pixelOE.pixelize(input, { capture: ['downscale'] })
+      const sprite = parseAseprite(pixelOE.toAseprite(result))
+      expect(sprite.depth).toBe(8)
+      expect(sprite.layers.map(layer => layer.name)).toEqual(['downscale', 'PixelOE'])
+      if (options.usePalette) {
+        expect(sprite.palette.slice(0, pico8.colors.length)).toEqual(pico8.colors.map(color => [...color, 255]))
+      }
+    }
+  }, 30_000)
+})
@@ -0,0 +1,153 @@
+import type { CliIO } from '../src/cli/run'
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { afterEach, describe, expect, it } from 'vitest'
+import { CliUsageError, parseCliArgs } from '../src/cli/args'
+import { formatOutputName, planJobs, resolveOptions, runCli } from '../src/cli/run'
+import { readPngMetadata } from '../src/core/metadata'
+import { decodePng } from '../src/core/png'
+
+const dirs: string[] = []
+
+function tempDir(): string {
+  const dir = mkdtempSync(path.join(tmpdir(), 'pixeloe-cli-'))
+  dirs.push(dir)
+  return dir
+}
+
+function captureIO(): CliIO & { lines: string[], errors: string[] } {
+  const lines: string[] = []
+  const errors: string[] = []
+  return { lines, errors, out: line => lines.push(line), err: line => errors.push(line) }
+}
+
+afterEach(() => {
+  for (const dir of dirs.splice(0)) {
+    rmSync(dir, { recursive: true, force: true })
+  }
+})
+
+describe('parsecliargs', () => {
+  it('maps flags to options and settings', () => {
+    const settings = parseCliArgs(['-p', 'gameboy', '--pixel-size=4', '--thickness', '2', '--no-color-matching', '--dither-method', 'ordered', '-j', '3', 'a.png', '--', '-b.png'])
+    expect(settings.preset).toBe('gameboy')
+    expect(settings.concurrency).toBe(3)
+    expect(settings.options).toEqual({ pixelSize: 4, thickness: 2, colorMatching: false, ditherMethod: 'ordered' })
+    expect(settings.inputs).toEqual(['a.png', '-b.png'])
+  })
+
+  it('rejects unknown flags and bad values', () => {
+    expect(() => parseCliArgs(['--bogus'])).toThrow(CliUsageError)
+    expect(() => parseCliArgs(['--pixel-size', 'big'])).toThrow('expects a number')
+    expect(() => parseCliArgs(['--fit', 'nope'])).toThrow('must be one of')
+    expect(() => parseCliArgs(['-j', '0'])).toThrow('positive integer')
+    expect(() => parseCliArgs(['--out'])).toThrow('expects a value')
+  })
+})
+
+describe('resolveoptions', () => {
+  it('layers preset, config, palette and flags', () => {
+    const settings = parseCliArgs(['--preset', 'chunky', '--palette', 'Gameboy', '--thickness', '1', 'x.png'])
+    const { options, presetId } = resolveOptions(settings, { settings: { preset: 'fine' }, options: { thickness: 3, contrast: 1.5 } })
+    expect(presetId).toBe('chunky')
+    expect(options.thickness).toBe(1)
+    expect(options.contrast).toBe(1.5)
+    expect(options.usePalette).toBe(true)
+    expect(options.selectedPalette?.name).toBe('Gameboy')
+    expect(options.silent).toBe(true)
+  })
+
+  it('keeps out-of-range values and warns about them', () => {
+    const { options, warnings } = resolveOptions(parseCliArgs(['--target-size', '1024', '--pixel-size', '4.6', '-p', 'nes', 'x.png']))
+    expect(options.targetSize).toBe(1024)
+    expect(options.pixelSize).toBe(5)
+    expect(warnings).toEqual(['pixelSize must be an integer (got 4.6)', 'targetSize outside the supported range 64-512 (got 1024)'])
+  })
+
+  it('reports unknown presets and palettes', () => {
+    expect(() => resolveOptions(parseCliArgs(['-p', 'nope']))).toThrow('Unknown preset')
+    expect(() => resolveOptions(parseCliArgs(['--palette', 'nope']))).toThrow('Unknown palette')
+  })
+})
+
+describe('output naming', () => {
+  it('fills template placeholders', () => {
+    expect(formatOutputName('{name}-{pixelSize}.{ext}.png', { name: 'cat', pixelSize: 6, ext: 'jpg' })).toBe('cat-6.jpg.png')
+    expect(() => formatOutputName('{nope}', {})).toThrow('Unknown placeholder')
+  })
+
+  it('mirrors subdirectories and refuses clashing outputs', () => {
+    const { options } = resolveOptions(parseCliArgs([]))
+    const jobs = planJobs([{ file: path.join('in', 'sub', 'a.png'), relativeDir: 'sub' }], { out: 'out', name: '{index}-{name}.png' }, options)
+    expect(jobs[0].output).toBe(path.join('out', 'sub', '1-a.png'))
+    const clash = [{ file: 'a.png', relativeDir: '' }, { file: 'a.jpg', relativeDir: '' }]
+    expect(() => planJobs(clash, {}, options)).toThrow('would both be written')
+  })
+})
+
+describe('runcli', () => {
+  it('processes a directory and embeds the options', async () => {
+    const dir = tempDir()
+    mkdirSync(path.join(dir, 'in', 'sub'), { recursive: true })
+    writeFileSync(path.join(dir, 'in', 'logo.png'), readFileSync('test/python-logo.png'))
+    writeFileSync(path.join(dir, 'in', 'sub', 'logo.jpg'), readFileSync('test/python-logo.jpg'))
+    writeFileSync(path.join(dir, 'in', 'notes.txt'), 'skipped')
+    writeFileSync(path.join(dir, 'config.json'), JSON.stringify({ pixelSize: 4, out: 'out', recursive: true }))
+
+    const io = captureIO()
+    const code = await runCli(['-c', path.join(dir, 'config.json'), '-j', '1', path.join(dir, 'in')], io)
+    expect(io.errors).toEqual([])
+    expect(code).toBe(0)
+    expect(io.lines.at(-1)).toBe('2 of 2 images written')
+
+    const png = new Uint8Array(readFileSync(path.join(dir, 'out', 'sub', 'logo.pixel.png')))
+    expect(decodePng(png).width).toBeGreaterThan(0)
+    expect(readPngMetadata(png)?.options.pixelSize).toBe(4)
+  })
+
+  it('returns 2 on usage errors and 1 on failed images', async () => {
+    const usage = captureIO()
+    expect(await runCli(['--bogus'], usage)).toBe(2)
+    expect(usage.errors[0]).toContain('Unknown option')
+
+    const dir = tempDir()
+    writeFileSync(path.join(dir, 'broken.png'), 'not an image')
+    const failed = captureIO()
+    expect(await runCli(['-j', '1', path.join(dir, 'broken.png')], failed)).toBe(1)
+    expect(failed.errors[0]).toContain('broken.png')
+  })
+
+  it('reports unknown config keys', async () => {
+    const dir = tempDir()
+    writeFileSync(path.join(dir, 'config.json'), JSON.stringify({ pixelsize: 4, out: 'out', thickness: 2 }))
+    writeFileSync(path.join(dir, 'a.png'), readFileSync('test/python-logo.png'))
+    const io = captureIO()
+    expect(await runCli(['-c', path.join(dir, 'config.json'), path.join(dir, 'a.png')], io)).toBe(2)
+    expect(io.errors[0]).toContain('Unknown key in config')
+    expect(io.errors[0]).toContain('pixelsize')
+  })
+
+  it('fails the jobs of crashed workers and keeps going', async () => {
+    const dir = tempDir()
+    // Crashes on a.png, exits on b.png and succeeds otherwise
+    const worker = path.join(dir, 'crash.mjs')
+    writeFileSync(worker, `import { parentPort } from 'node:worker_threads'
+parentPort.on('message', ({ input }) => {
+  if (input.endsWith('a.png')) throw new Error('boom')
+  if (input.endsWith('b.png')) process.exit(3)
+  parentPort.postMessage({ ok: true })
+})
+`)
+    const inputs = ['a', 'b', 'c', 'd', 'e'].map((name) => {
+      const file = path.join(dir, `${name}.png`)
+      writeFileSync(file, 'unused')
+      return file
+    })
+    const io = captureIO()
+    expect(await runCli(['-j', '2', ...inputs], io, pathToFileURL(worker))).toBe(1)
+    expect(io.errors.toSorted()).toEqual([`${inputs[0]}: boom`, `${inputs[1]}: Worker thread exited with code 3`])
+    expect(io.lines.at(-1)).toBe('3 of 5 images written, 2 failed')
+  })
+})
@@ -0,0 +1,78 @@
+import { readFileSync } from 'node:fs'
+import { describe, expect, it } from 'vitest'
+import { decodeImage, detectImageFormat } from '../src/core/decode'
+import { PixelImageData } from '../src/core/imageData'
+import { decodeJpeg } from '../src/core/jpeg'
+import { decodePng } from '../src/core/png'
+import { PixelOE } from '../src/pixeloe'
+
+const jpeg = new Uint8Array(readFileSync('test/python-logo.jpg'))
+const ppm = readFileSync('test/python-logo.ppm')
+const reference = ppm.subarray(ppm.length - 16 * 16 * 3)
+
+/** jsdom's Blob has no arrayBuffer() */
+async function blobBytes(blob: Blob): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.addEventListener('load', () => resolve(new Uint8Array(reader.result as ArrayBuffer)))
+    reader.addEventListener('error', () => reject(reader.error))
+    // eslint-disable-next-line unicorn/prefer-blob-reading-methods
+    reader.readAsArrayBuffer(blob)
+  })
+}
+
+function luma(r: number, g: number, b: number): number {
+  return 0.299 * r + 0.587 * g + 0.114 * b
+}
+
+describe('jpeg decoder', () => {
+  it('decodes a 4:2:0 baseline jpeg close to the source pixels', () => {
+    const decoded = decodeJpeg(jpeg)
+    expect([decoded.width, decoded.height]).toEqual([16, 16])
+
+    let lumaError = 0
+    let colorError = 0
+    for (let i = 0; i < 16 * 16; i++) {
+      const [r, g, b, a] = decoded.data.subarray(i * 4, i * 4 + 4)
+      const [sr, sg, sb] = reference.subarray(i * 3, i * 3 + 3)
+      expect(a).toBe(255)
+      lumaError += Math.abs(luma(r, g, b) - luma(sr, sg, sb))
+      colorError += (Math.abs(r - sr) + Math.abs(g - sg) + Math.abs(b - sb)) / 3
+    }
+    // Quantization noise only; a block or chroma placement bug is far larger
+    expect(lumaError / 256).toBeLessThan(5)
+    expect(colorError / 256).toBeLessThan(12)
+  })
+
+  it('rejects progressive jpegs', () => {
+    const progressive = new Uint8Array(jpeg)
+    const sof = progressive.findIndex((byte, i) => byte === 0xFF && progressive[i + 1] === 0xC0)
+    progressive[sof + 1] = 0xC2
+    expect(() => decodeJpeg(progressive)).toThrow('Progressive')
+  })
+})
+
+describe('decodeimage', () => {
+  it('detects formats by signature', () => {
+    expect(detectImageFormat(jpeg)).toBe('jpeg')
+    expect(detectImageFormat(new TextEncoder().encode('RIFF\0\0\0\0WEBPVP8 '))).toBe('webp')
+    expect(detectImageFormat(new TextEncoder().encode('GIF89a'))).toBe('gif')
+    expect(detectImageFormat(new Uint8Array(4))).toBe('unknown')
+  })
+
+  it('decodes from arraybuffer or uint8array and rejects other formats', () => {
+    expect(decodeImage(new Uint8Array(jpeg).buffer).data).toEqual(decodeJpeg(jpeg).data)
+    expect(() => decodeImage(new TextEncoder().encode('RIFF\0\0\0\0WEBPVP8 '))).toThrow('WEBP')
+    expect(() => decodeImage(new Uint8Array(8))).toThrow('Unrecognized')
+  })
+
+  it('loads bytes and exports png without a canvas', async () => {
+    const pixelOE = new PixelOE({ silent: true })
+    const image = await pixelOE.loadImage(jpeg)
+    expect(image).toBeInstanceOf(PixelImageData)
+
+    const blob = await pixelOE.exportBlob(image)
+    const roundTrip = decodePng(await blobBytes(blob))
+    expect(roundTrip.data).toEqual(image.data)
+  })
+})
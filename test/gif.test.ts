@@ -0,0 +1,190 @@
+import { describe, expect, it } from 'vitest'
+import { encodeGif } from '../src/core/gif'
+import { PixelImageData } from '../src/core/imageData'
+import { getPaletteByName } from '../src/core/palettes'
+import { PixelOE } from '../src/pixeloe'
+
+interface DecodedGif {
+  width: number
+  height: number
+  globalTable?: number[][]
+  loop?: number
+  frames: { delay: number, disposal: number, transparent?: number, localTable?: number[][], indices: number[], rgba: number[] }[]
+}
+
+/** Reference LZW decoder, per the GIF89a spec */
+function lzwDecode(data: number[], minCodeSize: number, pixels: number): number[] {
+  const clearCode = 1 << minCodeSize
+  const endCode = clearCode + 1
+  let codeSize = minCodeSize + 1
+  let table: number[][] = []
+  const reset = (): void => {
+    table = Array.from({ length: clearCode }, (_, i) => [i])
+    table.push([], [])
+    codeSize = minCodeSize + 1
+  }
+  reset()
+  const out: number[] = []
+  let previous: number[] | undefined
+  let bit = 0
+  while (bit + codeSize <= data.length * 8) {
+    let code = 0
+    for (let i = 0; i < codeSize; i++, bit++) {
+      code |= ((data[bit >> 3] >> (bit & 7)) & 1) << i
+    }
+    if (code === clearCode) {
+      reset()
+      previous = undefined
+      continue
+    }
+    if (code === endCode) {
+      break
+    }
+    const entry = code < table.length ? table[code] : [...previous!, previous![0]]
+    out.push(...entry)
+    if (previous && table.length < 4096) {
+      table.push([...previous, entry[0]])
+    }
+    if (table.length === 1 << codeSize && codeSize < 12) {
+      codeSize++
+    }
+    previous = entry
+  }
+  expect(out).toHaveLength(pixels)
+  return out
+}
+
+function decodeGif(bytes: Uint8Array): DecodedGif {
+  let offset = 0
+  const byte = (): number => bytes[offset++]
+  const word = (): number => byte() | (byte() << 8)
+  const table = (bits: number): number[][] => Array.from({ length: 1 << bits }, () => [byte(), byte(), byte()])
+  const subBlocks = (): number[] => {
+    const data: number[] = []
+    for (let size = byte(); size > 0; size = byte()) {
+      data.push(...bytes.subarray(offset, offset + size))
+      offset += size
+    }
+    return data
+  }
+
+  expect(String.fromCodePoint(...bytes.subarray(0, 6))).toBe('GIF89a')
+  offset = 6
+  const gif: DecodedGif = { width: word(), height: word(), frames: [] }
+  const screen = byte()
+  offset += 2
+  if (screen & 0x80) {
+    gif.globalTable = table((screen & 7) + 1)
+  }
+  let control = { delay: 0, disposal: 0, transparent: undefined as number | undefined }
+  for (let block = byte(); block !== 0x3B; block = byte()) {
+    if (block === 0x21) {
+      const label = byte()
+      const data = subBlocks()
+      if (label === 0xF9) {
+        control = { delay: data[1] | (data[2] << 8), disposal: (data[0] >> 2) & 7, transparent: data[0] & 1 ? data[3] : undefined }
+      }
+      else if (label === 0xFF && String.fromCodePoint(...data.slice(0, 11)) === 'NETSCAPE2.0') {
+        gif.loop = data[12] | (data[13] << 8)
+      }
+      continue
+    }
+    expect(block).toBe(0x2C)
+    offset += 8
+    const descriptor = byte()
+    const localTable = descriptor & 0x80 ? table((descriptor & 7) + 1) : undefined
+    const minCodeSize = byte()
+    const indices = lzwDecode(subBlocks(), minCodeSize, gif.width * gif.height)
+    const colors = (localTable ?? gif.globalTable)!
+    const rgba = indices.flatMap(index => index === control.transparent ? [0, 0, 0, 0] : [...colors[index], 255])
+    gif.frames.push({ ...control, localTable, indices, rgba })
+  }
+  return gif
+}
+
+function frameImage(width: number, height: number, colors: number[][], shift: number = 0): PixelImageData {
+  const image = new PixelImageData(width, height)
+  for (let i = 0; i < width * height; i++) {
+    image.data.set(colors[(i + shift) % colors.length], i * 4)
+  }
+  return image
+}
+
+describe('gif encoder', () => {
+  it('round-trips an animation on a global table with delays and looping', () => {
+    const colors = [[255, 0, 0, 255], [0, 255, 0, 255], [0, 0, 255, 255], [9, 9, 9, 255], [0, 0, 0, 0]]
+    const frames = [0, 1, 2].map(shift => frameImage(7, 5, colors, shift))
+    const gif = decodeGif(encodeGif([frames[0], { image: frames[1], delay: 250 }, frames[2]], { delay: 80 }))
+
+    expect([gif.width, gif.height, gif.loop]).toEqual([7, 5, 0])
+    expect(gif.globalTable).toHaveLength(8)
+    expect(gif.frames.map(frame => [frame.delay, frame.disposal, frame.localTable])).toEqual([[8, 2, undefined], [25, 2, undefined], [8, 2, undefined]])
+    for (const [i, frame] of gif.frames.entries()) {
+      expect(frame.rgba).toEqual([...frames[i].data])
+    }
+  })
+
+  it('compresses long runs past the 4096-code limit', () => {
+    const image = new PixelImageData(300, 200)
+    for (let i = 0; i < 300 * 200; i++) {
+      const v = (i * 31 + (i >> 7)) % 61 < 30 ? 200 : (i * 7) % 13
+      image.data.set([v, (v * 3) % 256, 255 - v, 255], i * 4)
+    }
+    const gif = decodeGif(encodeGif([image]))
+    expect(gif.loop).toBeUndefined()
+    expect(gif.frames[0].rgba).toEqual([...image.data])
+  })
+
+  it('leads the table with palette colors and writes loop counts', () => {
+    const palette = getPaletteByName('Gameboy')!.colors
+    const image = frameImage(4, 4, [[...palette[3], 255], [...palette[1], 255]])
+    const gif = decodeGif(encodeGif([image, image], { colors: palette, loop: 3 }))
+    expect(gif.globalTable!.slice(0, 4)).toEqual(palette)
+    expect(gif.frames[0].indices.slice(0, 2)).toEqual([3, 1])
+    expect(gif.loop).toBe(3)
+    expect(decodeGif(encodeGif([image, image], { loop: false })).loop).toBeUndefined()
+  })
+
+  it('falls back to local tables when frames exceed 256 colors together', () => {
+    const first = frameImage(16, 10, Array.from({ length: 160 }, (_, i) => [i, 0, 0, 255]))
+    const second = frameImage(16, 10, Array.from({ length: 160 }, (_, i) => [0, i, 0, 255]))
+    const gif = decodeGif(encodeGif([first, second]))
+    expect(gif.globalTable).toBeUndefined()
+    expect(gif.frames.map(frame => frame.localTable?.length)).toEqual([256, 256])
+    expect(gif.frames[1].rgba).toEqual([...second.data])
+
+    expect(() => encodeGif([first, second], { palette: 'global' })).toThrow('more than 256 colors')
+    expect(() => encodeGif([frameImage(20, 20, Array.from({ length: 300 }, (_, i) => [i % 256, i >> 8, 0, 255]))])).toThrow('frame 0')
+    expect(() => encodeGif([first, frameImage(2, 2, [[0, 0, 0, 255]])])).toThrow('16x10')
+  })
+
+  it('encodes quantized pixelize results without requantizing', async () => {
+    const pixelOE = new PixelOE({ pixelSize: 4, thickness: 1, targetSize: 12, doQuantization: true, numColors: 6, silent: true })
+    const frames = [40, 48].map((size) => {
+      const image = new PixelImageData(size, size)
+      for (let i = 0; i < size * size; i++) {
+        image.data.set([(i * 5) % 256, (i * 11) % 256, i % size * 4, 255], i * 4)
+      }
+      return pixelOE.pixelize(image).result
+    })
+    const gif = decodeGif(pixelOE.toGif([frames[0]]))
+    expect(gif.frames[0].rgba).toEqual([...frames[0].data])
+
+    const blob = await pixelOE.exportBlob(frames[1], 'image/gif')
+    expect(blob.type).toBe('image/gif')
+  })
+
+  it('encodes palette and quantized results made with default options', () => {
+    const input = new PixelImageData(256, 256)
+    for (let i = 0; i < 256 * 256; i++) {
+      input.data.set([(i * 37) % 256, (i >> 8) * 3 % 256, i % 3 ? 200 : 40, 255], i * 4)
+    }
+    for (const options of [{ usePalette: true, selectedPalette: getPaletteByName('Pico-8')! }, { doQuantization: true }]) {
+      const pixelOE = new PixelOE({ silent: true, ...options })
+      const { result } = pixelOE.pixelize(input)
+      const gif = decodeGif(pixelOE.toGif([result]))
+      // Byte comparison; toEqual is slow on full-size results
+      expect(Buffer.from(gif.frames[0].rgba).equals(Buffer.from(result.data))).toBe(true)
+    }
+  }, 30_000)
+})
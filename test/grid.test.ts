@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { contourDownscale } from '../src/core/contourPixelize'
+import { contrastDownscale } from '../src/core/downscale'
+import { contrastDownscaleMRF } from '../src/core/downscaleMRF'
+import { cropImage, resolveGridSize } from '../src/core/grid'
+import { PixelImageData } from '../src/core/imageData'
+import { PixelOE } from '../src/pixeloe'
+
+/** Left half red, right half blue */
+function splitImage(width: number, height: number): PixelImageData {
+  const image = new PixelImageData(width, height)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      image.setPixel(x, y, x < width / 2 ? [220, 30, 30, 255] : [30, 30, 220, 255])
+    }
+  }
+  return image
+}
+
+describe('output grid sizing', () => {
+  it('keeps the area-based size for a plain targetsize', () => {
+    expect(resolveGridSize(300, 200, 128)).toMatchObject({ width: 156, height: 104 })
+    expect(resolveGridSize(300, 200, { targetSize: 128 })).toMatchObject({ width: 156, height: 104 })
+  })
+
+  it('derives the missing dimension from the aspect ratio', () => {
+    expect(resolveGridSize(300, 200, { targetWidth: 48 })).toMatchObject({ width: 48, height: 32 })
+    expect(resolveGridSize(300, 200, { targetHeight: 50 })).toMatchObject({ width: 75, height: 50 })
+  })
+
+  it('applies the fit policy on aspect mismatch', () => {
+    const box = { targetWidth: 32, targetHeight: 48 }
+    expect(resolveGridSize(300, 200, { ...box, fit: 'fill' })).toEqual({ width: 32, height: 48, crop: { x: 0, y: 0, width: 300, height: 200 } })
+    expect(resolveGridSize(300, 200, { ...box, fit: 'fit' })).toMatchObject({ width: 32, height: 21 })
+    expect(resolveGridSize(300, 200, { ...box, fit: 'crop' })).toEqual({ width: 32, height: 48, crop: { x: 83, y: 0, width: 133, height: 200 } })
+  })
+
+  it('crops a region', () => {
+    const cropped = cropImage(splitImage(10, 4), 3, 1, 4, 2)
+    expect([cropped.width, cropped.height]).toEqual([4, 2])
+    expect(cropped.getPixel(1, 0)).toEqual([220, 30, 30, 255])
+    expect(cropped.getPixel(2, 1)).toEqual([30, 30, 220, 255])
+  })
+
+  it('gives every downscale method the exact grid', () => {
+    const image = splitImage(192, 96)
+    const target = { targetWidth: 32, targetHeight: 48, fit: 'fill' } as const
+    for (const down of [contrastDownscale(image, target), contrastDownscaleMRF(image, target), contourDownscale(image, target)]) {
+      expect([down.width, down.height]).toEqual([32, 48])
+    }
+  })
+
+  it('produces a 160x144 grid through the pipeline with integer patches', () => {
+    const pixelOE = new PixelOE({ pixelSize: 4, thickness: 1, targetWidth: 160, targetHeight: 144, fit: 'crop', silent: true })
+    const { result, stages } = pixelOE.pixelize(splitImage(640, 360), { capture: ['preprocess', 'downscale'] })
+    expect([stages!.preprocess!.width, stages!.preprocess!.height]).toEqual([640, 576])
+    expect([stages!.downscale!.width, stages!.downscale!.height]).toEqual([160, 144])
+    expect([result.width, result.height]).toEqual([640, 576])
+  })
+})
@@ -0,0 +1,108 @@
+import { Blob as NodeBlob } from 'node:buffer'
+import { readFileSync } from 'node:fs'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { PixelImageData } from '../src/core/imageData'
+import { readImageSource } from '../src/core/imageSource'
+import { decodeJpeg } from '../src/core/jpeg'
+import { PixelOE } from '../src/pixeloe'
+
+const jpeg = new Uint8Array(readFileSync('test/python-logo.jpg'))
+
+class FakeImageData {
+  data: Uint8ClampedArray
+  width: number
+  height: number
+
+  constructor(data: Uint8ClampedArray, width: number, height: number) {
+    this.data = data
+    this.width = width
+    this.height = height
+  }
+}
+
+class FakeBitmap {
+  width = 2
+  height = 1
+  closed = false
+
+  close(): void {
+    this.closed = true
+  }
+}
+
+/** Records draws and converts; reads back a fixed 2x1 red/green image */
+class FakeOffscreenCanvas {
+  static converted: { type?: string }[] = []
+  width: number
+  height: number
+
+  constructor(width: number, height: number) {
+    this.width = width
+    this.height = height
+  }
+
+  getContext(): unknown {
+    return {
+      canvas: this,
+      drawImage: vi.fn(),
+      putImageData: vi.fn(),
+      getImageData: (_x: number, _y: number, w: number, h: number) =>
+        new FakeImageData(new Uint8ClampedArray([255, 0, 0, 255, 0, 255, 0, 128]), w, h),
+    }
+  }
+
+  async convertToBlob(options: { type?: string }): Promise<Blob> {
+    FakeOffscreenCanvas.converted.push(options)
+    return new Blob([], { type: options.type })
+  }
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  FakeOffscreenCanvas.converted = []
+})
+
+describe('readimagesource', () => {
+  it('copies imagedata', async () => {
+    vi.stubGlobal('ImageData', FakeImageData)
+    const source = new FakeImageData(new Uint8ClampedArray([1, 2, 3, 4]), 1, 1)
+    const image = await readImageSource(source as unknown as ImageData)
+    expect(image).toBeInstanceOf(PixelImageData)
+    expect([...image.data]).toEqual([1, 2, 3, 4])
+    source.data[0] = 9
+    expect(image.data[0]).toBe(1)
+  })
+
+  it('decodes blobs through createimagebitmap and closes the bitmap', async () => {
+    const bitmap = new FakeBitmap()
+    const createImageBitmap = vi.fn(async () => bitmap)
+    vi.stubGlobal('createImageBitmap', createImageBitmap)
+    vi.stubGlobal('OffscreenCanvas', FakeOffscreenCanvas)
+
+    const image = await readImageSource(new Blob([jpeg]))
+    expect(createImageBitmap).toHaveBeenCalledOnce()
+    expect(bitmap.closed).toBe(true)
+    expect([image.width, image.height]).toEqual([2, 1])
+    expect(image.getPixel(1, 0)).toEqual([0, 255, 0, 128])
+  })
+
+  it('falls back to the built-in decoders without createimagebitmap', async () => {
+    vi.stubGlobal('Blob', NodeBlob)
+    const image = await readImageSource(new NodeBlob([jpeg]) as unknown as Blob)
+    expect(image.data).toEqual(decodeJpeg(jpeg).data)
+  })
+
+  it('rejects unsupported sources', async () => {
+    await expect(readImageSource({} as unknown as Blob)).rejects.toThrow('Unsupported')
+  })
+})
+
+describe('exportblob', () => {
+  it('encodes non-png types with offscreencanvas.converttoblob', async () => {
+    vi.stubGlobal('ImageData', FakeImageData)
+    vi.stubGlobal('OffscreenCanvas', FakeOffscreenCanvas)
+    const blob = await new PixelOE({ silent: true }).exportBlob(new PixelImageData(2, 1), 'image/webp')
+    expect(blob.type).toBe('image/webp')
+    expect(FakeOffscreenCanvas.converted).toEqual([{ type: 'image/webp', quality: undefined }])
+  })
+})
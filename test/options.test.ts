@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { deserializeOptions, serializeOptions, validateOptions } from '../src/core/options'
+import { getPaletteByName } from '../src/core/palettes'
+import { BASE_OPTIONS, PRESETS } from '../src/core/presets'
+
+describe('validateoptions', () => {
+  it('accepts the base options and every preset', () => {
+    expect(validateOptions(BASE_OPTIONS)).toMatchObject({ valid: true, errors: [], warnings: [] })
+    for (const preset of PRESETS) {
+      const validation = validateOptions({ ...BASE_OPTIONS, ...preset.options })
+      expect(validation.errors, preset.id).toEqual([])
+      expect(validation.warnings, preset.id).toEqual([])
+    }
+  })
+
+  it('reports impossible values as errors and clamps them', () => {
+    const { valid, errors, options } = validateOptions({ pixelSize: -3, targetSize: 0, numColors: 1, contrast: Number.NaN })
+    expect(valid).toBe(false)
+    expect(errors.map(e => e.option).toSorted()).toEqual(['contrast', 'numColors', 'pixelSize', 'targetSize'])
+    expect(options).toEqual({ pixelSize: 2, targetSize: 64, numColors: 2 })
+  })
+
+  it('warns about out-of-range and fractional values', () => {
+    const { valid, warnings, options } = validateOptions({ pixelSize: 40, thickness: 2.4, saturation: 0.2 })
+    expect(valid).toBe(true)
+    expect(warnings.map(w => w.option).toSorted()).toEqual(['pixelSize', 'saturation', 'thickness'])
+    expect(options).toMatchObject({ pixelSize: 16, thickness: 2, saturation: 0.5 })
+  })
+
+  it('rejects unknown choices and palette use without a palette', () => {
+    const { errors, options } = validateOptions({ ditherMethod: 'floyd' as never, usePalette: true })
+    expect(errors.map(e => e.option)).toEqual(['ditherMethod', 'usePalette'])
+    expect(options).toEqual({ usePalette: false })
+  })
+})
+
+describe('serializeoptions / deserializeoptions', () => {
+  it('stores predefined palettes by name and round-trips through json', () => {
+    const options = { ...BASE_OPTIONS, usePalette: true, selectedPalette: getPaletteByName('Gameboy')!, logger: console }
+    const serialized = serializeOptions(options)
+    expect(serialized.selectedPalette).toBe('Gameboy')
+    expect(serialized).not.toHaveProperty('logger')
+
+    const restored = deserializeOptions(JSON.stringify(serialized))
+    expect(restored.selectedPalette).toBe(getPaletteByName('Gameboy'))
+    const { logger: _, ...rest } = options
+    expect(restored).toEqual(rest)
+  })
+
+  it('inlines custom palettes', () => {
+    const custom = { name: 'Duo', description: 'two tones', colors: [[0, 0, 0], [255, 128, 0]] }
+    const serialized = serializeOptions({ selectedPalette: custom })
+    expect(serialized.selectedPalette).toEqual(custom)
+    expect(deserializeOptions(serialized).selectedPalette).toEqual(custom)
+  })
+
+  it('throws on malformed input', () => {
+    expect(() => deserializeOptions('[1, 2]')).toThrow(TypeError)
+    expect(() => deserializeOptions({ selectedPalette: 'Nope' })).toThrow('Unknown palette: Nope')
+    expect(() => deserializeOptions({ selectedPalette: { name: 'Bad', description: '', colors: [[300, 0, 0]] } })).toThrow(TypeError)
+  })
+})
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import { PixelImageData } from '../src/core/imageData'
+import { extractPalette } from '../src/core/paletteExtraction'
+import { PixelOE } from '../src/pixeloe'
+
+/** Horizontal bands of the given colors, `rows` rows each */
+function bands(colors: number[][], width: number, rows: number): PixelImageData {
+  const image = new PixelImageData(width, colors.length * rows)
+  for (const [i, color] of colors.entries()) {
+    for (let p = i * rows * width; p < (i + 1) * rows * width; p++) {
+      image.data.set(color, p * 4)
+    }
+  }
+  return image
+}
+
+/** Gradient with noise: many distinct colors clustering around the band colors */
+function noisyBands(colors: number[][], width: number, rows: number): PixelImageData {
+  const image = bands(colors, width, rows)
+  for (let p = 0; p < image.data.length; p += 4) {
+    const jitter = (p / 4) % 7 - 3
+    for (let c = 0; c < 3; c++) {
+      image.data[p + c] += jitter
+    }
+  }
+  return image
+}
+
+const colors = [[240, 230, 200, 255], [20, 30, 60, 255], [200, 40, 40, 255], [40, 160, 80, 255]]
+
+describe('extractpalette', () => {
+  it('keeps the exact colors of images that fit, sorted dark to light', () => {
+    const palette = extractPalette(bands(colors, 8, 2), 8, { name: 'Reference' })
+    expect(palette.name).toBe('Reference')
+    expect(palette.colors).toEqual([[20, 30, 60], [200, 40, 40], [40, 160, 80], [240, 230, 200]])
+  })
+
+  it('clusters images with more colors with k-means', () => {
+    const palette = extractPalette(noisyBands(colors, 64, 16), 4)
+    expect(palette.colors).toHaveLength(4)
+    const luma = palette.colors.map(([r, g, b]) => 0.299 * r + 0.587 * g + 0.114 * b)
+    expect(luma).toEqual(luma.toSorted((a, b) => a - b))
+    for (const [r, g, b] of colors) {
+      const nearest = Math.min(...palette.colors.map(color => Math.hypot(color[0] - r, color[1] - g, color[2] - b)))
+      expect(nearest).toBeLessThan(8)
+    }
+  })
+
+  it('orders by coverage, samples large images and ignores transparent pixels', () => {
+    const image = noisyBands([[250, 250, 250, 255], [0, 0, 0, 0], [10, 10, 10, 255], [10, 10, 10, 255]], 300, 100)
+    const palette = extractPalette(image, 2, { sort: 'frequency', maxSamples: 1000 })
+    expect(palette.colors).toHaveLength(2)
+    expect(palette.colors[0][0]).toBeLessThan(20)
+    expect(palette.colors[1][0]).toBeGreaterThan(240)
+  })
+
+  it('drops duplicate centroids and rejects empty input', () => {
+    expect(extractPalette(bands([[9, 9, 9, 255]], 4, 4), 3).colors).toEqual([[9, 9, 9]])
+    expect(() => extractPalette(new PixelImageData(4, 4), 3)).toThrow('no visible pixels')
+    expect(() => extractPalette(bands(colors, 4, 1), 0)).toThrow('positive integer')
+  })
+
+  it('works as the selected palette of a pixelize run', () => {
+    const reference = bands(colors, 8, 2)
+    const selectedPalette = extractPalette(reference, 4)
+    const { palette } = new PixelOE({ pixelSize: 4, thickness: 1, targetSize: 16, usePalette: true, selectedPalette, colorMatching: false, silent: true })
+      .pixelize(noisyBands(colors, 64, 16))
+    expect(palette).toEqual(selectedPalette.colors)
+  })
+})
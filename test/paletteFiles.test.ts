@@ -0,0 +1,167 @@
+import type { ColorPalette } from '../src/core/palettes'
+import { describe, expect, it } from 'vitest'
+import { PixelImageData } from '../src/core/imageData'
+import { detectPaletteFormat, encodePaletteFile, parseAsePalette, parsePaletteFile, parseRiffPalette, writeGplPalette, writeHexPalette, writeJascPalette, writePaletteSwatch } from '../src/core/paletteFiles'
+import { getPaletteByName } from '../src/core/palettes'
+import { decodePng } from '../src/core/png'
+import { PixelOE } from '../src/pixeloe'
+
+function syntheticImage(width: number, height: number): PixelImageData {
+  const image = new PixelImageData(width, height)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      image.setPixel(x, y, [x * 5 % 256, y * 3 % 256, (x + y) % 2 ? 200 : 40, 255])
+    }
+  }
+  return image
+}
+
+/** Distinct visible colors of an image, sorted */
+function distinctColors(image: PixelImageData): string[] {
+  const colors = new Set<string>()
+  for (let p = 0; p < image.data.length; p += 4) {
+    if (image.data[p + 3] !== 0) {
+      colors.add([...image.data.subarray(p, p + 3)].join(','))
+    }
+  }
+  return [...colors].toSorted()
+}
+
+/** Microsoft RIFF palette with the given entries */
+function riffPalette(entries: number[][]): Uint8Array {
+  const bytes = new Uint8Array(24 + entries.length * 4)
+  const view = new DataView(bytes.buffer)
+  bytes.set(new TextEncoder().encode('RIFF'), 0)
+  view.setUint32(4, bytes.length - 8, true)
+  bytes.set(new TextEncoder().encode('PAL data'), 8)
+  view.setUint32(16, 4 + entries.length * 4, true)
+  view.setUint16(20, 0x03_00, true)
+  view.setUint16(22, entries.length, true)
+  for (const [i, [r, g, b]] of entries.entries()) {
+    bytes.set([r, g, b, 0], 24 + i * 4)
+  }
+  return bytes
+}
+
+/** Adobe swatch exchange file: a named group around `[model, ...values]` swatches */
+function asePalette(group: string, swatches: [string, ...number[]][]): Uint8Array {
+  const parts: number[] = []
+  const u16 = (value: number): void => {
+    parts.push(value >> 8, value & 0xFF)
+  }
+  const u32 = (value: number): void => {
+    u16(value >>> 16)
+    u16(value & 0xFF_FF)
+  }
+  const block = (type: number, name: string, body: number[] = []): void => {
+    const text = [...name].flatMap(ch => [ch.charCodeAt(0) >> 8, ch.charCodeAt(0) & 0xFF])
+    u16(type)
+    u32(2 + text.length + 2 + body.length)
+    u16(name.length + 1)
+    parts.push(...text, 0, 0, ...body)
+  }
+  parts.push(...new TextEncoder().encode('ASEF'), 0, 1, 0, 0)
+  u32(swatches.length + 2)
+  block(0xC0_01, group)
+  for (const [i, [model, ...values]] of swatches.entries()) {
+    const floats = new Uint8Array(values.length * 4)
+    for (const [j, value] of values.entries()) {
+      new DataView(floats.buffer).setFloat32(j * 4, value)
+    }
+    block(0x00_01, `Swatch ${i}`, [...new TextEncoder().encode(model), ...floats, 0, 2])
+  }
+  u16(0xC0_02)
+  u32(0)
+  return new Uint8Array(parts)
+}
+
+function parseText(text: string, fileName?: string): ColorPalette {
+  return parsePaletteFile(new TextEncoder().encode(text), fileName)
+}
+
+const colors = [[255, 0, 0], [8, 64, 200]]
+
+describe('palette files', () => {
+  it('writes gpl, jasc-pal and hex palettes', () => {
+    expect(writeGplPalette(colors, 'Test')).toBe('GIMP Palette\nName: Test\n#\n255   0   0\t#ff0000\n  8  64 200\t#0840c8\n')
+    expect(writeJascPalette(colors)).toBe('JASC-PAL\r\n0100\r\n2\r\n255 0 0\r\n8 64 200\r\n')
+    expect(writeHexPalette(colors)).toBe('ff0000\n0840c8\n')
+    expect(new TextDecoder().decode(encodePaletteFile(colors, 'hex'))).toBe('ff0000\n0840c8\n')
+  })
+
+  it('writes a one-row png swatch in palette order', () => {
+    const swatch = decodePng(writePaletteSwatch(colors))
+    expect([swatch.width, swatch.height]).toEqual([2, 1])
+    expect([...swatch.data]).toEqual([255, 0, 0, 255, 8, 64, 200, 255])
+    expect(encodePaletteFile(colors, 'png')).toEqual(writePaletteSwatch(colors))
+    expect(() => writePaletteSwatch([])).toThrow('no colors')
+  })
+})
+
+describe('palette file import', () => {
+  it('reads back what the writers produce', () => {
+    for (const format of ['gpl', 'pal', 'hex', 'png'] as const) {
+      const palette = parsePaletteFile(encodePaletteFile(colors, format, 'House'), `studio.${format}`)
+      expect(palette.colors).toEqual(colors)
+      expect(palette.name).toBe(format === 'gpl' ? 'House' : 'studio')
+    }
+  })
+
+  it('reads paint.net, riff and adobe swatch palettes', () => {
+    const paintNet = new TextEncoder().encode('; paint.net Palette File\r\n; Colors: 2\r\nFFFF0000\r\nff0840C8\r\nFFFFFFFF\r\nFFFFFFFF\r\n')
+    expect(detectPaletteFormat(paintNet)).toBe('paintnet')
+    expect(parsePaletteFile(paintNet, 'house.txt').colors).toEqual([...colors, [255, 255, 255]])
+
+    expect(parseRiffPalette(riffPalette(colors)).colors).toEqual(colors)
+
+    const ase = asePalette('Studio', [['RGB ', 1, 0, 0], ['Gray', 0.5], ['CMYK', 0, 1, 1, 0], ['LAB ', 1, 0, 0]])
+    expect(parseAsePalette(ase)).toEqual({ colors: [[255, 0, 0], [128, 128, 128], [255, 255, 255]], name: 'Studio' })
+    expect(parsePaletteFile(ase, 'swatches.ase').name).toBe('Studio')
+  })
+
+  it('skips comments and duplicate colors', () => {
+    const gpl = 'GIMP Palette\nName: Dup\nColumns: 4\n# comment\n  0   0   0\tBlack\n0 0 0 Black again\n255 255 255\n'
+    expect(parseText(gpl)).toMatchObject({ name: 'Dup', colors: [[0, 0, 0], [255, 255, 255]] })
+    expect(parseText('#ABCDEF\n\nabcdef\n', 'list.hex').colors).toEqual([[171, 205, 239]])
+  })
+
+  it('rejects malformed palettes', () => {
+    expect(() => parseText('GIMP Palette\n300 0 0\n')).toThrow('line 2')
+    expect(() => parseText('JASC-PAL\r\n0100\r\n3\r\n1 2 3\r\n')).toThrow('declares 3 colors')
+    expect(() => parseText('12345g\n')).toThrow('Invalid hex color')
+    expect(() => parseText('; empty\n', 'empty.txt')).toThrow('has no colors')
+    expect(() => parseRiffPalette(riffPalette(colors).subarray(0, 26))).toThrow('Truncated')
+  })
+})
+
+describe('pixelize palette', () => {
+  it('returns the k-means colors the result uses, after color matching and styling', () => {
+    const input = syntheticImage(96, 96)
+    for (const options of [{ ditherMethod: 'none' as const }, { ditherMethod: 'ordered' as const, saturation: 1.3, contrast: 0.9 }]) {
+      const { result, palette } = new PixelOE({ pixelSize: 4, thickness: 1, targetSize: 24, doQuantization: true, numColors: 6, silent: true, ...options })
+        .pixelize(input)
+      expect(palette!.length).toBeLessThanOrEqual(6)
+      expect(palette!.map(color => color.join(',')).toSorted()).toEqual(distinctColors(result))
+    }
+  })
+
+  it('returns the used palette colors in palette order', () => {
+    const gameboy = getPaletteByName('Gameboy')!
+    const { result, palette } = new PixelOE({ pixelSize: 4, thickness: 1, targetSize: 24, usePalette: true, selectedPalette: gameboy, silent: true })
+      .pixelize(syntheticImage(96, 96))
+    expect(palette).toEqual(gameboy.colors.filter(color => distinctColors(result).includes(color.join(','))))
+    expect(palette!.length).toBeGreaterThan(1)
+  })
+
+  it('matches the colors of a result with default options', () => {
+    const nes = getPaletteByName('NES')!
+    for (const options of [{ usePalette: true, selectedPalette: nes }, { doQuantization: true }]) {
+      const { result, palette } = new PixelOE({ silent: true, ...options }).pixelize(syntheticImage(128, 128))
+      expect(palette!.map(color => color.join(',')).toSorted()).toEqual(distinctColors(result))
+    }
+  })
+
+  it('has no palette without quantization', () => {
+    expect(new PixelOE({ pixelSize: 4, thickness: 1, targetSize: 16, silent: true }).pixelize(syntheticImage(64, 64)).palette).toBeUndefined()
+  })
+})
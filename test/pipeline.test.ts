@@ -1,5 +1,7 @@
-import { describe, expect, it } from 'vitest'
+import { describe, expect, it, vi } from 'vitest'
+import { PixelOEAbortError } from '../src/core/cancellation'
 import { PixelImageData } from '../src/core/imageData'
+import { StageCache } from '../src/core/stageCache'
 import { PixelOE } from '../src/pixeloe'
 
 /**
@@ -119,3 +121,300 @@ describe('pixeloe pipeline benchmark', () => {
     expect(elapsed).toBeLessThan(5000)
   }, 30_000)
 })
+
+describe('pixeloe pipeline cancellation and progress', () => {
+  it('reports stage progress in pipeline order', () => {
+    const input = syntheticImage(128, 128)
+    const events: [string, number][] = []
+    new PixelOE({ pixelSize: 4, thickness: 1, targetSize: 32, doQuantization: true, numColors: 8, contrast: 1.2 })
+      .pixelize(input, { onProgress: (stage, fraction) => events.push([stage, fraction]) })
+
+    const started = events.filter(([, fraction]) => fraction === 0).map(([stage]) => stage)
+    expect(started).toEqual(['preprocess', 'outline', 'colorMatch', 'downscale', 'quantize', 'styling', 'upscale'])
+    for (const stage of started) {
+      expect(events).toContainEqual([stage, 1])
+    }
+  })
+
+  it('throws a typed error when aborted mid-run', () => {
+    const input = syntheticImage(128, 128)
+    const controller = new AbortController()
+    const pixelOE = new PixelOE({ pixelSize: 4, thickness: 1, targetSize: 32 })
+
+    expect(() => pixelOE.pixelize(input, {
+      signal: controller.signal,
+      onProgress: (stage) => {
+        if (stage === 'downscale') {
+          controller.abort()
+        }
+      },
+    })).toThrow(PixelOEAbortError)
+  })
+
+  it('rejects the async path when the signal is already aborted', async () => {
+    const input = syntheticImage(64, 64)
+    const controller = new AbortController()
+    controller.abort('superseded')
+
+    const run = new PixelOE({ pixelSize: 4, thickness: 1, targetSize: 16 }).pixelizeAsync(input, { signal: controller.signal })
+    await expect(run).rejects.toBeInstanceOf(PixelOEAbortError)
+    await expect(run).rejects.toMatchObject({ cause: 'superseded' })
+  })
+})
+
+describe('pixeloe pipeline stages', () => {
+  it('exposes the default stage order', () => {
+    expect(new PixelOE().pipeline.names).toEqual(['outline', 'sharpen', 'colorMatch', 'downscale', 'quantize', 'styling', 'upscale'])
+  })
+
+  it('logs only to a given logger', () => {
+    const input = syntheticImage(32, 32)
+    const debug = vi.spyOn(console, 'debug').mockImplementation(() => {})
+    try {
+      new PixelOE({ pixelSize: 4, thickness: 1, targetSize: 8 }).pixelize(input)
+      expect(debug).not.toHaveBeenCalled()
+    }
+    finally {
+      debug.mockRestore()
+    }
+    const lines: string[] = []
+    new PixelOE({ pixelSize: 4, thickness: 1, targetSize: 8, logger: { debug: line => lines.push(line), warn: () => {} } }).pixelize(input)
+    expect(lines.some(line => line.startsWith('[PixelOE] total:'))).toBe(true)
+  })
+
+  it('runs inserted stages on both paths at the requested position', async () => {
+    const input = syntheticImage(96, 96)
+    const pixelOE = new PixelOE({ pixelSize: 4, thickness: 1, targetSize: 24, noPostUpscale: true, colorMatching: false })
+    const seen: number[] = []
+    pixelOE.pipeline.insertBefore('downscale', {
+      name: 'keyOut',
+      run: (image) => {
+        seen.push(image.width)
+        const out = new PixelImageData(image.width, image.height)
+        for (let i = 0; i < out.data.length; i += 4) {
+          out.data.set([10, 200, 30, 255], i)
+        }
+        return out
+      },
+    })
+    expect(pixelOE.pipeline.names.indexOf('keyOut')).toBe(pixelOE.pipeline.names.indexOf('downscale') - 1)
+
+    const sync = pixelOE.pixelize(input).result
+    const { result: async_ } = await pixelOE.pixelizeAsync(input)
+
+    // Ran before downscale, i.e. on the full-resolution image
+    expect(seen).toEqual([96, 96])
+    expect([...async_.data]).toEqual([...sync.data])
+    for (let i = 0; i < sync.data.length; i += 4) {
+      expect(Math.abs(sync.data[i] - 10)).toBeLessThanOrEqual(2)
+      expect(Math.abs(sync.data[i + 1] - 200)).toBeLessThanOrEqual(2)
+    }
+  })
+
+  it('replaces and removes stages', () => {
+    const input = syntheticImage(64, 64)
+    const pixelOE = new PixelOE({ pixelSize: 4, thickness: 1, targetSize: 16 })
+    pixelOE.pipeline
+      .replace('downscale', { name: 'downscale', run: image => new PixelImageData(image.width >> 2, image.height >> 2) })
+      .remove('upscale')
+
+    const { result } = pixelOE.pixelize(input)
+    expect(result.width).toBe(16)
+    expect(result.getPixel(0, 0)).toEqual([0, 0, 0, 0])
+  })
+
+  it('rejects unknown anchors and duplicate names', () => {
+    const { pipeline } = new PixelOE()
+    const stage = { name: 'extra', run: (image: PixelImageData) => image }
+    expect(() => pipeline.insertBefore('nope', stage)).toThrow(/Unknown pipeline stage/)
+    expect(() => pipeline.insertAfter('outline', { ...stage, name: 'downscale' })).toThrow(/Duplicate pipeline stage/)
+  })
+})
+
+describe('pixeloe pipeline diagnostics', () => {
+  it('returns per-stage timings for the stages that ran', () => {
+    const input = syntheticImage(96, 96)
+    const { timings } = new PixelOE({ pixelSize: 4, thickness: 1, targetSize: 24, silent: true }).pixelize(input)
+
+    expect(Object.keys(timings).toSorted()).toEqual(['colorMatch', 'downscale', 'outline', 'preprocess', 'total', 'upscale'])
+    const stageSum = Object.entries(timings)
+      .filter(([key]) => key !== 'total')
+      .reduce((sum, [, ms]) => sum + (ms ?? 0), 0)
+    expect(timings.total).toBeGreaterThanOrEqual(stageSum)
+  })
+
+  it('routes log lines to the configured logger, or nowhere when silent', () => {
+    const input = syntheticImage(64, 64)
+    const lines: string[] = []
+    const logger = { debug: (message: string) => lines.push(message), warn: (message: string) => lines.push(message) }
+
+    new PixelOE({ pixelSize: 4, thickness: 1, targetSize: 16, logger }).pixelize(input)
+    expect(lines.some(line => line.includes('downscale'))).toBe(true)
+
+    lines.length = 0
+    new PixelOE({ pixelSize: 4, thickness: 1, targetSize: 16, logger, silent: true }).pixelize(input)
+    expect(lines).toEqual([])
+  })
+})
+
+describe('pixeloe pipeline stage capture', () => {
+  it('snapshots only the requested stages', () => {
+    const input = syntheticImage(96, 96)
+    const { result, stages } = new PixelOE({ pixelSize: 4, thickness: 1, targetSize: 24, doQuantization: true, numColors: 4, silent: true })
+      .pixelize(input, { capture: ['outline', 'downscale', 'quantize'] })
+
+    expect(Object.keys(stages ?? {}).toSorted()).toEqual(['downscale', 'outline', 'quantize'])
+    // Downscale snapshot is the grid before quantization and upscale
+    expect(stages!.downscale!.width * 4).toBe(result.width)
+    expect(stages!.quantize!.width).toBe(stages!.downscale!.width)
+  })
+
+  it('captures every stage, skipped ones included, with "all"', async () => {
+    const input = syntheticImage(64, 64)
+    const pixelOE = new PixelOE({ pixelSize: 4, thickness: 1, targetSize: 16, silent: true })
+    const { stages } = await pixelOE.pixelizeAsync(input, { capture: 'all' })
+
+    expect(Object.keys(stages ?? {})).toEqual(['preprocess', ...pixelOE.pipeline.names])
+    // Sharpen is disabled by default: its snapshot is the outline output unchanged
+    expect([...stages!.sharpen!.data]).toEqual([...stages!.outline!.data])
+  })
+
+  it('omits stages when nothing is captured', () => {
+    const { stages } = new PixelOE({ pixelSize: 4, thickness: 1, targetSize: 16, silent: true }).pixelize(syntheticImage(64, 64))
+    expect(stages).toBeUndefined()
+  })
+})
+
+describe('pixeloe pipeline drafts', () => {
+  it('emits a draft on the final output grid before the result', async () => {
+    const input = syntheticImage(300, 200)
+    for (const options of [{ targetSize: 40 }, { targetWidth: 30, targetHeight: 30, fit: 'crop' as const }, { noUpscale: true }]) {
+      const pixelOE = new PixelOE({ pixelSize: 6, thickness: 2, ditherMethod: 'ordered', doQuantization: true, numColors: 8, silent: true, ...options })
+      const events: string[] = []
+      let draft: PixelImageData | undefined
+      const { result } = await pixelOE.pixelizeAsync(input, {
+        onDraft: ({ result }) => {
+          draft = result
+          events.push('draft')
+        },
+        onProgress: (stage, fraction) => fraction === 0 && events.push(stage),
+      })
+
+      expect(events.slice(0, 3)).toEqual(['preprocess', 'draft', 'outline'])
+      expect([draft!.width, draft!.height]).toEqual([result.width, result.height])
+      // A fresh instance: the cached stages would make the draft redundant
+      expect(new PixelOE(pixelOE.getOptions()).pixelize(input, { onDraft: ({ result }) => (draft = result) }).result.width).toBe(draft!.width)
+    }
+  })
+
+  it('skips drafts for region runs and without a downscale', () => {
+    const input = syntheticImage(64, 64)
+    let drafts = 0
+    const onDraft = (): void => {
+      drafts++
+    }
+    new PixelOE({ pixelSize: 4, thickness: 1, noDownscale: true, silent: true }).pixelize(input, { onDraft })
+    new PixelOE({ pixelSize: 4, thickness: 1, targetSize: 16, silent: true })
+      .pixelize(input, { onDraft, regions: [{ mask: new Uint8Array(64 * 64).fill(1), options: { thickness: 0 } }] })
+    expect(drafts).toBe(0)
+  })
+})
+
+/** Custom stage inverting the colors of its input in place */
+function invertInPlace(image: PixelImageData): PixelImageData {
+  for (let p = 0; p < image.data.length; p += 4) {
+    for (let c = 0; c < 3; c++) {
+      image.data[p + c] = 255 - image.data[p + c]
+    }
+  }
+  return image
+}
+
+/** Run `pixelOE` on `input`, collecting the stages logged as cached */
+function loggedRun(pixelOE: PixelOE, input: PixelImageData): { result: PixelImageData, cached: string[] } {
+  const cached: string[] = []
+  pixelOE.setOptions({
+    logger: {
+      debug: (message) => {
+        const match = /^\[PixelOE\] (\w+): cached$/.exec(message)
+        if (match) {
+          cached.push(match[1])
+        }
+      },
+      warn: () => {},
+    },
+  })
+  return { result: pixelOE.pixelize(input).result, cached }
+}
+
+describe('pixeloe pipeline stage cache', () => {
+  const options = { pixelSize: 4, thickness: 2, targetSize: 24, doQuantization: true, numColors: 6, cacheStages: true }
+
+  it('reruns only the stages after the first changed option', () => {
+    const input = syntheticImage(96, 96)
+    const pixelOE = new PixelOE(options)
+    expect(loggedRun(pixelOE, input).cached).toEqual([])
+
+    pixelOE.setOptions({ saturation: 1.4 })
+    const styled = loggedRun(pixelOE, input)
+    expect(styled.cached).toEqual(['outline', 'colorMatch', 'downscale', 'quantize'])
+    expect(styled.result.data).toEqual(new PixelOE({ ...options, saturation: 1.4, cacheStages: false, silent: true }).pixelize(input).result.data)
+
+    pixelOE.setOptions({ numColors: 4 })
+    expect(loggedRun(pixelOE, input).cached).toEqual(['outline', 'colorMatch', 'downscale'])
+  })
+
+  it('misses on another input, after clearcache and with cachestages off', () => {
+    const input = syntheticImage(64, 64)
+    const pixelOE = new PixelOE(options)
+    loggedRun(pixelOE, input)
+
+    expect(loggedRun(pixelOE, input.clone()).cached).toEqual([])
+    pixelOE.clearCache()
+    expect(loggedRun(pixelOE, input).cached).toEqual([])
+    pixelOE.setOptions({ cacheStages: false })
+    expect(loggedRun(pixelOE, input).cached).toEqual([])
+  })
+
+  it('is off by default and in tiled mode', () => {
+    const input = syntheticImage(64, 64)
+    const cache = new StageCache()
+    new PixelOE({ ...options, cacheStages: undefined, silent: true }, undefined, cache).pixelize(input)
+    expect(cache.size).toBe(0)
+
+    const pixelOE = new PixelOE(options, undefined, cache)
+    pixelOE.pixelize(input)
+    expect(cache.size).toBeGreaterThan(0)
+    pixelOE.setOptions({ tiled: true })
+    expect(loggedRun(pixelOE, input).cached).toEqual([])
+    expect(cache.size).toBe(0)
+  })
+
+  it('keeps cached images away from stages working in place', () => {
+    const input = syntheticImage(64, 64)
+    const invert = (pixelOE: PixelOE): PixelOE => {
+      pixelOE.pipeline.insertAfter('outline', { name: 'invert', dependsOn: ['contrast'], run: invertInPlace })
+      return pixelOE
+    }
+    const pixelOE = invert(new PixelOE(options))
+    pixelOE.pixelize(input)
+    pixelOE.setOptions({ contrast: 1.3 })
+    const rerun = loggedRun(pixelOE, input)
+    expect(rerun.cached).toEqual(['outline'])
+    const fresh = invert(new PixelOE({ ...options, contrast: 1.3, cacheStages: false, silent: true })).pixelize(input)
+    expect(rerun.result.data).toEqual(fresh.result.data)
+  })
+
+  it('hands out copies of cached images', async () => {
+    const input = syntheticImage(64, 64)
+    const pixelOE = new PixelOE({ ...options, silent: true })
+    const first = pixelOE.pixelize(input, true)
+    const expected = first.result.clone()
+    first.result.data.fill(0)
+    first.weights!.fill(0)
+
+    const second = await pixelOE.pixelizeAsync(input, true)
+    expect(second.result.data).toEqual(expected.data)
+    expect(second.weights!.some(weight => weight > 0)).toBe(true)
+  })
+})
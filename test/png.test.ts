@@ -0,0 +1,247 @@
+import { readFileSync } from 'node:fs'
+import { describe, expect, it } from 'vitest'
+import pkg from '../package.json'
+import { PixelImageData } from '../src/core/imageData'
+import { embedPngMetadata, hashImage, readPngMetadata } from '../src/core/metadata'
+import { getPaletteByName } from '../src/core/palettes'
+import { crc32, createITxtChunk, createTextChunk, decodePng, encodeIndexedPng, encodePng, readPngChunks, readPngText, writePngChunks } from '../src/core/png'
+import { deflate, inflate } from '../src/core/zlib'
+import { PixelOE } from '../src/pixeloe'
+import { VERSION } from '../src/version'
+
+/** 1×1 PNG skeleton; the IDAT payload is never decoded here. */
+function minimalPng(): Uint8Array {
+  const ihdr = new Uint8Array([0, 0, 0, 1, 0, 0, 0, 1, 8, 6, 0, 0, 0])
+  return writePngChunks([
+    { type: 'IHDR', data: ihdr },
+    { type: 'IDAT', data: new Uint8Array([1, 2, 3]) },
+    { type: 'IEND', data: new Uint8Array(0) },
+  ])
+}
+
+describe('png chunks', () => {
+  it('computes the standard crc-32', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xCB_F4_39_26)
+  })
+
+  it('round-trips chunks and detects corruption', () => {
+    const png = minimalPng()
+    expect(readPngChunks(png).map(chunk => chunk.type)).toEqual(['IHDR', 'IDAT', 'IEND'])
+
+    const corrupt = new Uint8Array(png)
+    corrupt[8 + 8 + 3] ^= 1
+    expect(() => readPngChunks(corrupt)).toThrow('CRC')
+    expect(() => readPngChunks(new Uint8Array(16))).toThrow('Not a PNG')
+  })
+
+  it('reads text and utf-8 itxt chunks', () => {
+    const png = writePngChunks([
+      createTextChunk('Title', 'Pixel art'),
+      createITxtChunk('Comment', 'ドット絵 ✓'),
+      { type: 'IEND', data: new Uint8Array(0) },
+    ])
+    expect(readPngText(png)).toEqual({ Title: 'Pixel art', Comment: 'ドット絵 ✓' })
+  })
+})
+
+/** PNG from unfiltered scanlines (filter byte 0 is added per row). */
+function buildPng(width: number, height: number, bitDepth: number, colorType: number, rows: number[][], extra: { type: string, data: Uint8Array }[] = [], interlace = 0): Uint8Array {
+  const ihdr = new Uint8Array(13)
+  new DataView(ihdr.buffer).setUint32(0, width)
+  new DataView(ihdr.buffer).setUint32(4, height)
+  ihdr.set([bitDepth, colorType, 0, 0, interlace], 8)
+  const raw = new Uint8Array(rows.flatMap(row => [0, ...row]))
+  return writePngChunks([
+    { type: 'IHDR', data: ihdr },
+    ...extra,
+    { type: 'IDAT', data: deflate(raw) },
+    { type: 'IEND', data: new Uint8Array(0) },
+  ])
+}
+
+function syntheticImage(width: number, height: number, alpha: boolean): PixelImageData {
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4
+      data[i] = (x * 37 + y * 11) & 0xFF
+      data[i + 1] = (x * y) & 0xFF
+      data[i + 2] = x > y ? 200 : 40
+      data[i + 3] = alpha ? (x + y) * 9 & 0xFF : 255
+    }
+  }
+  return new PixelImageData(width, height, data)
+}
+
+describe('png codec', () => {
+  it('round-trips opaque images as rgb and transparent ones as rgba', () => {
+    for (const alpha of [false, true]) {
+      const image = syntheticImage(23, 17, alpha)
+      const png = encodePng(image)
+      expect(readPngChunks(png)[0].data[9]).toBe(alpha ? 6 : 2)
+      const decoded = decodePng(png)
+      expect([decoded.width, decoded.height]).toEqual([23, 17])
+      expect(decoded.data).toEqual(image.data)
+    }
+  })
+
+  it('decodes 1-bit grayscale with packed rows', () => {
+    const decoded = decodePng(buildPng(10, 2, 1, 0, [[0b1010_1010, 0b1100_0000], [0b0000_0000, 0b0100_0000]]))
+    const gray = Array.from({ length: 20 }, (_, i) => decoded.data[i * 4])
+    expect(gray).toEqual([255, 0, 255, 0, 255, 0, 255, 0, 255, 255, 0, 0, 0, 0, 0, 0, 0, 0, 0, 255])
+  })
+
+  it('decodes indexed color with trns alpha', () => {
+    const plte = { type: 'PLTE', data: new Uint8Array([255, 0, 0, 0, 255, 0, 0, 0, 255]) }
+    const trns = { type: 'tRNS', data: new Uint8Array([0, 128]) }
+    const decoded = decodePng(buildPng(3, 1, 2, 3, [[0b0001_1000]], [plte, trns]))
+    expect([...decoded.data]).toEqual([255, 0, 0, 0, 0, 255, 0, 128, 0, 0, 255, 255])
+  })
+
+  it('reduces 16-bit samples and applies the trns color key', () => {
+    const trns = { type: 'tRNS', data: new Uint8Array([0x12, 0x34, 0, 0, 0xFF, 0xFF]) }
+    const decoded = decodePng(buildPng(2, 1, 16, 2, [[0x12, 0x34, 0, 0, 0xFF, 0xFF, 0xAB, 0xCD, 0x80, 0, 0x7F, 0xFF]], [trns]))
+    expect([...decoded.data]).toEqual([0x12, 0, 0xFF, 0, 0xAB, 0x80, 0x7F, 255])
+  })
+
+  it('decodes adam7 interlaced images', () => {
+    const image = syntheticImage(11, 9, true)
+    const passes = [[0, 0, 8, 8], [4, 0, 8, 8], [0, 4, 4, 8], [2, 0, 4, 4], [0, 2, 2, 4], [1, 0, 2, 2], [0, 1, 1, 2]]
+    const rows: number[][] = []
+    for (const [x0, y0, dx, dy] of passes) {
+      for (let y = y0; y < image.height; y += dy) {
+        const row: number[] = []
+        for (let x = x0; x < image.width; x += dx) {
+          row.push(...image.getPixel(x, y))
+        }
+        if (row.length > 0) {
+          rows.push(row)
+        }
+      }
+    }
+    expect(decodePng(buildPng(11, 9, 8, 6, rows, [], 1)).data).toEqual(image.data)
+  })
+
+  it('decodes a palette png written by another encoder', () => {
+    const decoded = decodePng(new Uint8Array(readFileSync('test/python-logo.png')))
+    const ppm = readFileSync('test/python-logo.ppm')
+    const rgb = ppm.subarray(ppm.length - 16 * 16 * 3)
+    expect([decoded.width, decoded.height]).toEqual([16, 16])
+    for (let i = 0; i < 16 * 16; i++) {
+      if (decoded.data[i * 4 + 3] === 255) {
+        expect([...decoded.data.subarray(i * 4, i * 4 + 3)]).toEqual([...rgb.subarray(i * 3, i * 3 + 3)])
+      }
+    }
+  })
+})
+
+/** Image cycling through `colors` (RGBA) pixel by pixel */
+function paletteImage(width: number, height: number, colors: number[][]): PixelImageData {
+  const image = new PixelImageData(width, height)
+  for (let i = 0; i < width * height; i++) {
+    image.data.set(colors[i % colors.length], i * 4)
+  }
+  return image
+}
+
+describe('indexed png', () => {
+  it('picks the smallest bit depth and round-trips', () => {
+    for (const [count, bitDepth] of [[2, 1], [3, 2], [16, 4], [17, 8], [256, 8]]) {
+      const colors = Array.from({ length: count }, (_, i) => [i, 255 - i, (i * 37) % 256, 255])
+      const image = paletteImage(29, 9, colors)
+      const png = encodeIndexedPng(image)!
+      const [ihdr, plte] = readPngChunks(png)
+      expect([ihdr.data[8], ihdr.data[9]]).toEqual([bitDepth, 3])
+      expect(plte.data.length).toBe(count * 3)
+      expect(decodePng(png).data).toEqual(image.data)
+    }
+  })
+
+  it('writes palette colors first, in order, even when unused', () => {
+    const palette = getPaletteByName('Gameboy')!.colors
+    const image = paletteImage(8, 8, [[...palette[2], 255], [9, 9, 9, 255], [...palette[0], 255]])
+    const [, plte] = readPngChunks(encodeIndexedPng(image, palette)!)
+    expect([...plte.data]).toEqual([...palette.flat(), 9, 9, 9])
+  })
+
+  it('keeps duplicate palette slots so indices match the palette', () => {
+    const nes = getPaletteByName('NES')!.colors
+    const colors = [nes[40], [0, 0, 0], nes[60]]
+    const image = paletteImage(8, 8, colors.map(color => [...color, 255]))
+    const png = encodeIndexedPng(image, nes)!
+    const [, plte, idat] = readPngChunks(png)
+    expect([...plte.data]).toEqual(nes.flat())
+    // 8-bit rows: filter byte, then one index per pixel; repeated colors take their first slot
+    expect([...inflate(idat.data).subarray(1, 4)]).toEqual(colors.map(color => nes.findIndex(entry => entry.join(',') === color.join(','))))
+    expect(inflate(idat.data)[1]).toBe(40)
+    expect(decodePng(png).data).toEqual(image.data)
+  })
+
+  it('stores alpha in trns and shares one entry between transparent pixels', () => {
+    const image = paletteImage(6, 6, [[10, 20, 30, 255], [1, 2, 3, 0], [40, 50, 60, 128], [4, 5, 6, 0]])
+    const chunks = readPngChunks(encodeIndexedPng(image)!)
+    expect(chunks.map(chunk => chunk.type)).toEqual(['IHDR', 'PLTE', 'tRNS', 'IDAT', 'IEND'])
+    expect([...chunks[2].data]).toEqual([255, 0, 128])
+    const decoded = decodePng(writePngChunks(chunks))
+    for (let p = 0; p < image.data.length; p += 4) {
+      expect(decoded.data[p + 3]).toBe(image.data[p + 3])
+    }
+  })
+
+  it('returns null past 256 colors', () => {
+    const colors = Array.from({ length: 257 }, (_, i) => [i % 256, i >> 8, 0, 255])
+    expect(encodeIndexedPng(paletteImage(257, 1, colors))).toBeNull()
+  })
+
+  it('exports quantized results indexed and others as rgb', () => {
+    const image = syntheticImage(48, 48, false)
+    for (const [doQuantization, colorType] of [[true, 3], [false, 2]] as const) {
+      const pixelOE = new PixelOE({ pixelSize: 4, thickness: 1, targetSize: 12, doQuantization, numColors: 6, silent: true })
+      const { result } = pixelOE.pixelize(image)
+      const png = pixelOE.toPng(result)
+      expect(readPngChunks(png)[0].data[9]).toBe(colorType)
+      expect(decodePng(png).data).toEqual(result.data)
+    }
+  })
+
+  it('exports palette and quantized results indexed with the default color matching', () => {
+    const nes = getPaletteByName('NES')!
+    for (const options of [{ usePalette: true, selectedPalette: nes }, { doQuantization: true }]) {
+      const pixelOE = new PixelOE({ silent: true, ...options })
+      const { result } = pixelOE.pixelize(syntheticImage(128, 128, false))
+      const chunks = readPngChunks(pixelOE.toPng(result))
+      expect(chunks.map(chunk => chunk.type)).toContain('PLTE')
+      // Byte comparison; toEqual is slow on full-size results
+      expect(Buffer.from(decodePng(writePngChunks(chunks)).data).equals(Buffer.from(result.data))).toBe(true)
+    }
+  })
+})
+
+describe('png metadata', () => {
+  it('embeds options, version and source hash before iend', async () => {
+    const source = new PixelImageData(2, 1, new Uint8ClampedArray([255, 0, 0, 255, 0, 0, 255, 255]))
+    const options = { pixelSize: 4, usePalette: true, selectedPalette: getPaletteByName('Gameboy') }
+    const sourceHash = await hashImage(source)
+    const png = embedPngMetadata(minimalPng(), { options, sourceHash })
+
+    expect(readPngChunks(png).at(-1)?.type).toBe('IEND')
+    expect(readPngText(png).Software).toBe(`PixelOE.js ${VERSION}`)
+    expect(readPngMetadata(png)).toEqual({ options, version: VERSION, sourceHash })
+  })
+
+  it('returns null without metadata', () => {
+    expect(readPngMetadata(minimalPng())).toBeNull()
+    expect(readPngMetadata(new Uint8Array([1, 2, 3]))).toBeNull()
+  })
+
+  it('hashes pixels and dimensions', async () => {
+    const data = new Uint8ClampedArray(16).fill(7)
+    const hash = await hashImage(new PixelImageData(2, 2, data))
+    expect(hash).toMatch(/^[0-9a-f]{64}$/)
+    expect(await hashImage(new PixelImageData(4, 1, data))).not.toBe(hash)
+  })
+
+  it('keeps version in sync with package.json', () => {
+    expect(VERSION).toBe(pkg.version)
+  })
+})
@@ -6,6 +6,7 @@ import { dilateWithKernel, erodeWithKernel } from '../src/core/morphology'
 import { outlineExpansionOptimized } from '../src/core/outline'
 import { rgbaToLabLuminance01, rgbaToLabPlanes } from '../src/core/planes'
 import { quantize01ToU8, slidingMax, slidingMedianU8, slidingMin } from '../src/core/slidingStats'
+import { PixelOE } from '../src/pixeloe'
 
 function syntheticImage(width: number, height: number): PixelImageData {
   const image = new PixelImageData(width, height)
@@ -66,4 +67,12 @@ describe('profile at user resolution (informational)', () => {
     time('contrastDownscale -> 256', () => contrastDownscale(image, 256))
     expect(true).toBe(true)
   }, 120_000)
+
+  it('profiles the full pipeline per stage', () => {
+    const { timings } = new PixelOE({ pixelSize: 8, thickness: 3, targetSize: 256, silent: true }).pixelize(image)
+    for (const [stage, ms] of Object.entries(timings)) {
+      console.log(`[profile] pipeline ${stage}: ${ms!.toFixed(1)}ms`)
+    }
+    expect(timings.total).toBeGreaterThan(0)
+  }, 120_000)
 })
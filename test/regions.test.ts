@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import { PixelImageData } from '../src/core/imageData'
+import { compositeRegions, regionMaskToGrid } from '../src/core/regions'
+import { PixelOE } from '../src/pixeloe'
+
+/** Left half dark red, right half light blue with a checker texture */
+function scene(width: number, height: number): PixelImageData {
+  const image = new PixelImageData(width, height)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const shade = (x + y) % 2 === 0 ? 0 : 40
+      image.setPixel(x, y, x < width / 2 ? [120 + shade, 20, 20, 255] : [60, 120 + shade, 220, 255])
+    }
+  }
+  return image
+}
+
+function leftHalfMask(width: number, height: number): Uint8Array {
+  const mask = new Uint8Array(width * height)
+  for (let y = 0; y < height; y++) {
+    mask.fill(1, y * width, y * width + width / 2)
+  }
+  return mask
+}
+
+describe('region masks', () => {
+  it('reduces masks to grid cells by majority coverage', () => {
+    const cells = regionMaskToGrid(leftHalfMask(8, 4), 8, 4, 4, 2)
+    expect([...cells]).toEqual([1, 1, 0, 0, 1, 1, 0, 0])
+
+    const white = new PixelImageData(8, 4)
+    for (let i = 0; i < white.data.length; i += 4) {
+      white.data.set([255, 255, 255, 255], i)
+    }
+    expect([...regionMaskToGrid(white, 8, 4, 2, 2)]).toEqual([1, 1, 1, 1])
+    expect(() => regionMaskToGrid(new Uint8Array(3), 8, 4, 2, 2)).toThrow('expected 32')
+  })
+
+  it('samples coarser layers at base cell centers', () => {
+    const base = new PixelImageData(4, 1)
+    const layer = new PixelImageData(2, 1, new Uint8ClampedArray([10, 0, 0, 255, 20, 0, 0, 255]))
+    const out = compositeRegions(base, [{ image: layer, cells: new Uint8Array([0, 1, 1, 1]) }])
+    expect([0, 1, 2, 3].map(x => out.getPixel(x, 0)[0])).toEqual([0, 10, 20, 20])
+  })
+
+  it('composites region overrides on the base grid', () => {
+    const input = scene(128, 128)
+    const options = { pixelSize: 4, thickness: 1, targetSize: 32, colorMatching: false, silent: true }
+    const pixelOE = new PixelOE(options)
+    const plain = pixelOE.pixelize(input).result
+    const { result } = pixelOE.pixelize(input, {
+      regions: [{ mask: leftHalfMask(128, 128), options: { targetSize: 8, doQuantization: true, numColors: 2 } }],
+    })
+
+    expect([result.width, result.height]).toEqual([plain.width, plain.height])
+    // Right half untouched
+    expect(result.getPixel(100, 64)).toEqual(plain.getPixel(100, 64))
+    // Left half painted from the 8-cell grid: 16px output blocks of one color
+    expect(result.getPixel(16, 16)).toEqual(result.getPixel(31, 31))
+    expect(result.getPixel(16, 16)[0]).toBeGreaterThan(result.getPixel(16, 16)[2])
+  })
+
+  it('scales the grid of regions overriding the pixel size', () => {
+    const input = scene(64, 64)
+    for (const target of [{ targetSize: 16 }, { targetWidth: 16, targetHeight: 16, fit: 'fill' as const }]) {
+      const pixelOE = new PixelOE({ pixelSize: 4, thickness: 1, colorMatching: false, silent: true, ...target })
+      const plain = pixelOE.pixelize(input).result
+      const { result } = pixelOE.pixelize(input, { regions: [{ mask: leftHalfMask(64, 64), options: { pixelSize: 8 } }] })
+      expect([result.width, result.height]).toEqual([plain.width, plain.height])
+      // Left half from an 8-cell grid: 8px output blocks of one color
+      for (let y = 0; y < 64; y += 8) {
+        for (let x = 0; x < 32; x += 8) {
+          expect(result.getPixel(x + 7, y + 7)).toEqual(result.getPixel(x, y))
+          expect(result.getPixel(x + 4, y)).toEqual(result.getPixel(x, y))
+        }
+      }
+      expect(result.getPixel(48, 32)).toEqual(plain.getPixel(48, 32))
+    }
+  })
+
+  it('matches between sync and async runs', async () => {
+    const input = scene(64, 64)
+    const run = { regions: [{ mask: leftHalfMask(64, 64), options: { pixelSize: 8 } }] }
+    const pixelOE = new PixelOE({ pixelSize: 4, thickness: 1, targetSize: 16, silent: true })
+    const { result: sync } = pixelOE.pixelize(input, run)
+    const { result: async_ } = await pixelOE.pixelizeAsync(input, run)
+    expect([...async_.data]).toEqual([...sync.data])
+  })
+})
@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest'
+import { PixelImageData } from '../src/core/imageData'
+import { getPaletteByName } from '../src/core/palettes'
+import { encodeSvg } from '../src/core/svg'
+import { PixelOE } from '../src/pixeloe'
+
+/** Class name to `fill` hex and opacity, from the `<style>` block */
+function parseStyle(svg: string): Map<string, { fill: string, opacity: number }> {
+  const classes = new Map<string, { fill: string, opacity: number }>()
+  for (const [, name, fill, opacity] of svg.matchAll(/\.(c\d+)\{fill:(#[\da-f]{6})(?:;fill-opacity:([\d.]+))?\}/g)) {
+    classes.set(name, { fill, opacity: opacity === undefined ? 1 : Number(opacity) })
+  }
+  return classes
+}
+
+/** Closed loops of a path of `M x y`, `h`, `v` and `z` commands */
+function pathLoops(d: string): [number, number][][] {
+  const loops: [number, number][][] = []
+  for (const [, command, rest] of d.matchAll(/([Mhvz])([^Mhvz]*)/g)) {
+    const args = rest.trim().split(' ').map(Number)
+    const loop = loops.at(-1)!
+    const [x, y] = loop?.at(-1) ?? [0, 0]
+    switch (command) {
+      case 'M': {
+        loops.push([[args[0], args[1]]])
+        break
+      }
+      case 'h': {
+        loop.push([x + args[0], y])
+        break
+      }
+      case 'v': {
+        loop.push([x, y + args[0]])
+        break
+      }
+    }
+  }
+  return loops
+}
+
+/** Even-odd test of a cell center against the loops' vertical edges */
+function insideLoops(loops: [number, number][][], x: number, y: number): boolean {
+  let inside = false
+  for (const loop of loops) {
+    for (const [i, [x0, y0]] of loop.entries()) {
+      const [x1, y1] = loop[(i + 1) % loop.length]
+      if (x0 === x1 && x0 > x && (y0 > y) !== (y1 > y)) {
+        inside = !inside
+      }
+    }
+  }
+  return inside
+}
+
+/** Rasterize the SVG the encoder writes back into a grid of class names */
+function rasterize(svg: string, width: number, height: number): (string | null)[] {
+  const grid: (string | null)[] = Array.from<string | null>({ length: width * height }).fill(null)
+  for (const [, name, body] of svg.matchAll(/<g class="(c\d+)">\n([\s\S]*?)<\/g>/g)) {
+    for (const [, x, y, w, h] of body.matchAll(/<rect x="(\d+)" y="(\d+)" width="(\d+)" height="(\d+)"\/>/g)) {
+      for (let row = Number(y); row < Number(y) + Number(h); row++) {
+        for (let col = Number(x); col < Number(x) + Number(w); col++) {
+          expect(grid[row * width + col]).toBeNull()
+          grid[row * width + col] = name
+        }
+      }
+    }
+  }
+  for (const [, name, d] of svg.matchAll(/<path class="(c\d+)" fill-rule="evenodd" d="([^"]*)"\/>/g)) {
+    const loops = pathLoops(d)
+    for (let i = 0; i < width * height; i++) {
+      if (insideLoops(loops, i % width + 0.5, Math.floor(i / width) + 0.5)) {
+        expect(grid[i]).toBeNull()
+        grid[i] = name
+      }
+    }
+  }
+  return grid
+}
+
+function expectSameGrid(svg: string, image: PixelImageData): void {
+  const classes = parseStyle(svg)
+  const grid = rasterize(svg, image.width, image.height)
+  for (let i = 0; i < image.width * image.height; i++) {
+    const [r, g, b, a] = image.data.subarray(i * 4, i * 4 + 4)
+    const cell = grid[i] === null ? null : classes.get(grid[i]!)
+    if (a === 0) {
+      expect(cell).toBeNull()
+      continue
+    }
+    expect(cell?.fill).toBe(`#${[r, g, b].map(c => c.toString(16).padStart(2, '0')).join('')}`)
+    expect(cell?.opacity).toBeCloseTo(a / 255, 3)
+  }
+}
+
+/** Blobs, holes and diagonal contacts from a few colors */
+function patternImage(width: number, height: number, colors: number[][]): PixelImageData {
+  const image = new PixelImageData(width, height)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      image.setPixel(x, y, colors[((x >> 1) * 3 + (y >> 1) * 5 + ((x ^ y) & 1)) % colors.length])
+    }
+  }
+  return image
+}
+
+const colors = [[200, 30, 30, 255], [30, 200, 30, 255], [0, 0, 0, 0], [20, 20, 200, 128]]
+
+describe('svg export', () => {
+  it('merges a solid block into one rect and scales by pixel size', () => {
+    const image = new PixelImageData(3, 2)
+    image.data.fill(255)
+    const svg = encodeSvg(image, { pixelSize: 10 })
+    expect(svg).toContain('width="30" height="20" viewBox="0 0 3 2"')
+    expect(svg).toContain('.c0{fill:#ffffff}')
+    expect(svg.match(/<rect /g)).toHaveLength(1)
+    expect(encodeSvg(image, { shape: 'paths' })).toContain('d="M0 0h3v2h-3z"')
+  })
+
+  it('reproduces the grid with rects and with traced paths', () => {
+    const image = patternImage(13, 9, colors)
+    for (const shape of ['rects', 'paths'] as const) {
+      expectSameGrid(encodeSvg(image, { shape }), image)
+    }
+  })
+
+  it('traces holes and diagonal contacts', () => {
+    const ring = patternImage(5, 5, [[9, 9, 9, 255]])
+    ring.setPixel(2, 2, [0, 0, 0, 0])
+    ring.setPixel(0, 0, [1, 2, 3, 255])
+    ring.setPixel(1, 1, [1, 2, 3, 255])
+    const svg = encodeSvg(ring, { shape: 'paths' })
+    expect(svg.match(/<path /g)).toHaveLength(2)
+    expectSameGrid(svg, ring)
+  })
+
+  it('orders classes by the palette and draws the background', () => {
+    const palette = getPaletteByName('Gameboy')!.colors
+    const image = patternImage(4, 4, [[...palette[3], 255], [...palette[1], 255]])
+    const svg = encodeSvg(image, { colors: palette, background: '#fff"' })
+    expect([...parseStyle(svg).values()].map(({ fill }) => fill)).toEqual([palette[1], palette[3]].map(([r, g, b]) => `#${[r, g, b].map(c => c.toString(16).padStart(2, '0')).join('')}`))
+    expect(svg).toContain('<rect width="4" height="4" fill="#fff&quot;"/>')
+    expectSameGrid(svg, image)
+  })
+
+  it('exports a pixelize result on its grid', () => {
+    const input = patternImage(64, 64, colors.filter(color => color[3] === 255))
+    const pixelOE = new PixelOE({ pixelSize: 4, thickness: 1, targetSize: 16, doQuantization: true, numColors: 4, silent: true })
+    const { result } = pixelOE.pixelize(input)
+    const svg = pixelOE.toSvg(result)
+    const grid = new PixelImageData(result.width / 4, result.height / 4)
+    for (let y = 0; y < grid.height; y++) {
+      for (let x = 0; x < grid.width; x++) {
+        grid.setPixel(x, y, result.getPixel(x * 4, y * 4))
+      }
+    }
+    expect(svg).toContain(`width="${result.width}" height="${result.height}" viewBox="0 0 ${grid.width} ${grid.height}"`)
+    expectSameGrid(svg, grid)
+  })
+})
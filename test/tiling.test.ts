@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+import { contrastDownscale, contrastDownscaleTiled } from '../src/core/downscale'
+import { PixelImageData } from '../src/core/imageData'
+import { calculateExpansionWeight, calculateExpansionWeightTiled, outlineExpansionOptimized, outlineExpansionTiled } from '../src/core/outline'
+import { planBands } from '../src/core/outlineBand'
+import { PixelOE } from '../src/pixeloe'
+
+function syntheticImage(width: number, height: number): PixelImageData {
+  const image = new PixelImageData(width, height)
+  const data = image.data
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = (y * width + x) * 4
+      const cx = x - width / 2
+      const cy = y - height / 2
+      const inCircle = cx * cx + cy * cy < (width / 4) ** 2
+      const stripe = Math.floor(x / 8) % 2 === 0
+      data[idx] = inCircle ? 220 : Math.floor((x / width) * 255)
+      data[idx + 1] = stripe ? 180 : Math.floor((y / height) * 255)
+      data[idx + 2] = inCircle && stripe ? 40 : 128
+      data[idx + 3] = y < 6 ? 0 : 255
+    }
+  }
+  return image
+}
+
+describe('tiled processing', () => {
+  it('plans bands covering every row once', () => {
+    const bands = planBands(100, 30, 5)
+    expect(bands.map(b => [b.y0, b.y1])).toEqual([[0, 25], [25, 50], [50, 75], [75, 100]])
+    expect(bands[1]).toMatchObject({ top: 20, bottom: 55 })
+    expect(bands[3].bottom).toBe(100)
+  })
+
+  it('computes identical expansion weights', () => {
+    const image = syntheticImage(80, 150)
+    for (const patchSize of [2, 3, 6, 10, 16]) {
+      const stride = Math.floor(patchSize / 4) * 2
+      const whole = calculateExpansionWeight(image, patchSize, stride, 9, 4)
+      const tiled = calculateExpansionWeightTiled(image, patchSize, stride, 9, 4, 16)
+      expect(tiled).toEqual(whole)
+    }
+  })
+
+  it('expands outlines identically', () => {
+    const image = syntheticImage(80, 150)
+    const whole = outlineExpansionOptimized(image, 2, 2, 3, 9, 4)
+    const progress: number[] = []
+    const tiled = outlineExpansionTiled(image, 2, 2, 3, 9, 4, true, 24, { onProgress: f => progress.push(f) })
+    expect([...tiled.result.data]).toEqual([...whole.result.data])
+    expect(tiled.weights).toEqual(whole.weights)
+    expect(progress.at(-1)).toBe(1)
+  })
+
+  it('downscales identically', () => {
+    const image = syntheticImage(96, 130)
+    for (const target of [24, { targetWidth: 17, targetHeight: 23, fit: 'fill' } as const]) {
+      const whole = contrastDownscale(image, target)
+      const tiled = contrastDownscaleTiled(image, target, 10)
+      expect([...tiled.data]).toEqual([...whole.data])
+    }
+  })
+
+  it('honors maxpixels unless tiled', () => {
+    const warnings: string[] = []
+    const logger = { debug: () => {}, warn: (message: string) => warnings.push(message) }
+    const input = syntheticImage(120, 120)
+    const options = { pixelSize: 2, thickness: 1, targetSize: 60, maxPixels: 4000, logger }
+
+    new PixelOE(options).pixelize(input)
+    expect(warnings).toHaveLength(1)
+
+    const { result } = new PixelOE({ ...options, tiled: true, tileRows: 32 }).pixelize(input)
+    expect(warnings).toHaveLength(1)
+    const { result: untiled } = new PixelOE({ ...options, maxPixels: 1_000_000 }).pixelize(input)
+    expect([...result.data]).toEqual([...untiled.data])
+  })
+})
@@ -0,0 +1,189 @@
+import type { WorkerPixelizeRequest, WorkerPixelizeResponse } from '../src/core/pipelineWorker'
+import { describe, expect, it } from 'vitest'
+import { PixelOEAbortError } from '../src/core/cancellation'
+import { PixelImageData } from '../src/core/imageData'
+import { createWorkerSession, runPixelizeRequest } from '../src/core/pipelineWorker'
+import { PixelOE } from '../src/pixeloe'
+import { PixelOEWorkerClient } from '../src/workerClient'
+
+function syntheticImage(width: number, height: number): PixelImageData {
+  const image = new PixelImageData(width, height)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const inSquare = x > width / 4 && x < width * 3 / 4 && y > height / 4 && y < height * 3 / 4
+      image.setPixel(x, y, inSquare ? [220, 40, 60] : [x * 4 % 256, y * 4 % 256, 128])
+    }
+  }
+  return image
+}
+
+/**
+ * In-process stand-in for the pipeline worker: messages are structured
+ * clones with real transfers, and requests run on the next macrotask.
+ */
+class FakeWorker {
+  static created: FakeWorker[] = []
+  terminated = false
+  received: number[] = []
+  /** Whether each request carried the input */
+  withImage: boolean[] = []
+  private readonly session = createWorkerSession()
+  private listeners: ((event: { data: WorkerPixelizeResponse }) => void)[] = []
+
+  constructor() {
+    FakeWorker.created.push(this)
+  }
+
+  addEventListener(type: string, listener: (event: { data: WorkerPixelizeResponse }) => void): void {
+    if (type === 'message') {
+      this.listeners.push(listener)
+    }
+  }
+
+  postMessage(message: WorkerPixelizeRequest, transfer: ArrayBuffer[]): void {
+    const request = structuredClone(message, { transfer })
+    this.received.push(request.id)
+    this.withImage.push(request.image !== undefined)
+    setTimeout(() => {
+      void runPixelizeRequest(request, (reply, replyTransfer = []) => {
+        if (!this.terminated) {
+          const data = structuredClone(reply, { transfer: replyTransfer })
+          for (const listener of this.listeners) listener({ data })
+        }
+      }, this.session)
+    })
+  }
+
+  terminate(): void {
+    this.terminated = true
+  }
+}
+
+function createClient(options = {}): PixelOEWorkerClient {
+  FakeWorker.created = []
+  return new PixelOEWorkerClient({ silent: true, pixelSize: 4, targetSize: 32, ...options }, () => new FakeWorker() as unknown as Worker)
+}
+
+describe('pixeloeworkerclient', () => {
+  it('matches the in-thread pipeline and forwards progress', async () => {
+    const input = syntheticImage(64, 64)
+    const client = createClient()
+    const stages = new Set<string>()
+
+    const result = await client.pixelize(input, { returnIntermediate: true, capture: ['downscale'], onProgress: stage => stages.add(stage) })
+    const expected = new PixelOE({ silent: true, pixelSize: 4, targetSize: 32 }).pixelize(input, true)
+
+    expect(result.result.data).toEqual(expected.result.data)
+    expect(result.weights).toEqual(expected.weights)
+    expect(result.stages?.downscale?.width).toBe(expected.result.width / 4)
+    expect(stages.has('downscale')).toBe(true)
+    // The input was copied, not transferred
+    expect(input.data.length).toBe(64 * 64 * 4)
+  })
+
+  it('forwards the quantized palette', async () => {
+    const input = syntheticImage(64, 64)
+    const options = { doQuantization: true, numColors: 4 }
+    const result = await createClient(options).pixelize(input)
+    expect(result.palette).toEqual(new PixelOE({ silent: true, pixelSize: 4, targetSize: 32, ...options }).pixelize(input).palette)
+    expect(result.palette!.length).toBeGreaterThan(1)
+  })
+
+  it('forwards the draft before resolving', async () => {
+    const input = syntheticImage(64, 64)
+    const drafts: PixelImageData[] = []
+    const result = await createClient().pixelize(input, { onDraft: draft => drafts.push(draft.result) })
+
+    expect(drafts).toHaveLength(1)
+    expect([drafts[0].width, drafts[0].height]).toEqual([result.result.width, result.result.height])
+  })
+
+  it('detaches the input with transferinput', async () => {
+    const input = syntheticImage(32, 32)
+    await createClient().pixelize(input, { transferInput: true })
+    expect(input.data.length).toBe(0)
+  })
+
+  it('runs queued requests one at a time in order', async () => {
+    const client = createClient()
+    const first = client.pixelize(syntheticImage(32, 32))
+    const second = client.pixelize(syntheticImage(48, 48))
+    expect(client.pending).toBe(2)
+    expect(FakeWorker.created[0].received).toEqual([0])
+
+    await first
+    expect(FakeWorker.created[0].received).toEqual([0, 1])
+    const { result } = await second
+    expect(result.width).toBeGreaterThan(0)
+    expect(client.pending).toBe(0)
+  })
+
+  it('drops aborted queued requests and restarts the worker for the running one', async () => {
+    const client = createClient()
+    const running = new AbortController()
+    const queued = new AbortController()
+    const first = client.pixelize(syntheticImage(32, 32), { signal: running.signal })
+    const second = client.pixelize(syntheticImage(32, 32), { signal: queued.signal })
+    const third = client.pixelize(syntheticImage(32, 32))
+
+    queued.abort()
+    await expect(second).rejects.toBeInstanceOf(PixelOEAbortError)
+    running.abort('stale')
+    await expect(first).rejects.toBeInstanceOf(PixelOEAbortError)
+    expect(FakeWorker.created[0].terminated).toBe(true)
+
+    await third
+    expect(FakeWorker.created).toHaveLength(2)
+    expect(FakeWorker.created[1].received).toEqual([2])
+  })
+
+  it('reuses the worker\'s stage cache for the same input until clearcache', async () => {
+    const cachedStages: string[] = []
+    const logger = {
+      debug: (message: string) => message.endsWith(': cached') && cachedStages.push(message),
+      warn: () => {},
+    }
+    const input = syntheticImage(64, 64)
+    const client = createClient({ silent: false, logger, cacheStages: true })
+    await client.pixelize(input)
+    client.setOptions({ contrast: 1.3 })
+    const restyled = await client.pixelize(input)
+
+    expect(cachedStages).toEqual(['[PixelOE] outline: cached', '[PixelOE] colorMatch: cached', '[PixelOE] downscale: cached'])
+    expect(restyled.result.data).toEqual(new PixelOE({ silent: true, pixelSize: 4, targetSize: 32, contrast: 1.3 }).pixelize(input).result.data)
+
+    cachedStages.length = 0
+    client.clearCache()
+    await client.pixelize(input)
+    expect(cachedStages).toEqual([])
+    // The input is only sent when the worker doesn't hold it yet
+    expect(FakeWorker.created[0].withImage).toEqual([true, false, true])
+
+    await client.pixelize(input, { signal: AbortSignal.abort() }).catch(() => {})
+    const running = new AbortController()
+    const aborted = client.pixelize(input, { signal: running.signal })
+    running.abort()
+    await expect(aborted).rejects.toBeInstanceOf(PixelOEAbortError)
+    await client.pixelize(input)
+    expect(FakeWorker.created[1].withImage).toEqual([true])
+  })
+
+  it('posts log lines only for a client with a logger', async () => {
+    const input = syntheticImage(32, 32)
+    const lines: string[] = []
+    await createClient({ silent: false, logger: { debug: (line: string) => lines.push(line), warn: () => {} } }).pixelize(input)
+    expect(lines.some(line => line.startsWith('[PixelOE] total:'))).toBe(true)
+
+    const types: string[] = []
+    const request = { id: 0, options: { pixelSize: 4, targetSize: 8 }, image: { width: 32, height: 32, data: input.clone().data.buffer }, progress: false }
+    await runPixelizeRequest(request, reply => types.push(reply.type))
+    expect(types).toEqual(['result'])
+  })
+
+  it('rejects pipeline errors', async () => {
+    const client = createClient({ pixelSize: 4 })
+    await expect(client.pixelize(syntheticImage(32, 32), { regions: [{ mask: new Uint8Array(3), options: {} }] }))
+      .rejects
+      .toThrow('Region mask')
+  })
+})
@@ -0,0 +1,220 @@
+import type { PoolWorkerFactory } from '../src/core/workerPool'
+import type { WorkerTaskRequest } from '../src/core/workerTasks'
+import { createRequire } from 'node:module'
+import path from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { describe, expect, it } from 'vitest'
+import { PixelOEAbortError } from '../src/core/cancellation'
+import { contrastDownscale, contrastDownscaleAsync } from '../src/core/downscale'
+import { PixelImageData } from '../src/core/imageData'
+import { calculateExpansionWeight, calculateExpansionWeightAsync, outlineExpansionOptimized, outlineExpansionOptimizedAsync } from '../src/core/outline'
+import { WorkerPool } from '../src/core/workerPool'
+import { runWorkerTask } from '../src/core/workerTasks'
+import { createNodeWorkerPool } from '../src/node/workerPool'
+import { PixelOE } from '../src/pixeloe'
+
+// Lets worker threads load the TypeScript sources: resolve extensionless
+// relative imports to .ts and transpile those with esbuild (vite's copy)
+const ESBUILD_URL = pathToFileURL(createRequire(createRequire(import.meta.url).resolve('vite')).resolve('esbuild')).href
+const TS_HOOKS = `import { readFile } from 'node:fs/promises'
+import esbuild from ${JSON.stringify(ESBUILD_URL)}
+export async function resolve(specifier, context, next) {
+  try { return await next(specifier, context) }
+  catch (error) {
+    if (specifier.startsWith('.') && !${String.raw`/\.\w+$/`}.test(specifier)) return next(specifier + '.ts', context)
+    throw error
+  }
+}
+export async function load(url, context, next) {
+  if (!url.endsWith('.ts')) return next(url, context)
+  const { code } = await esbuild.transform(await readFile(new URL(url), 'utf8'), { loader: 'ts', format: 'esm' })
+  return { format: 'module', source: code, shortCircuit: true }
+}`
+const REGISTER_HOOKS = `import { register } from 'node:module'; register(${JSON.stringify(`data:text/javascript,${encodeURIComponent(TS_HOOKS)}`)})`
+const TS_EXEC_ARGV = ['--import', `data:text/javascript,${encodeURIComponent(REGISTER_HOOKS)}`]
+
+function syntheticImage(width: number, height: number): PixelImageData {
+  const image = new PixelImageData(width, height)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const ring = Math.hypot(x - width / 2, y - height / 2) % 40 < 6
+      image.setPixel(x, y, ring ? [20, 30, 40] : [(x * 3) % 256, (y * 5) % 256, 180])
+    }
+  }
+  return image
+}
+
+interface FakeWorkers {
+  factory: PoolWorkerFactory
+  started: number
+  terminated: number
+  posted: number[][]
+}
+
+/** In-process workers answering on a later macrotask; `hold` keeps replies back */
+function fakeWorkers(hold = false): FakeWorkers {
+  const fakes: FakeWorkers = {
+    started: 0,
+    terminated: 0,
+    posted: [],
+    factory: (onMessage) => {
+      const slot = fakes.started++
+      fakes.posted[slot] = []
+      let alive = true
+      return {
+        postMessage: (message: WorkerTaskRequest) => {
+          fakes.posted[slot].push(message.id)
+          if (!hold) {
+            setTimeout(() => alive && onMessage(runWorkerTask(message).response))
+          }
+        },
+        terminate: () => {
+          alive = false
+          fakes.terminated++
+        },
+      }
+    },
+  }
+  return fakes
+}
+
+function bandTask(rows: number): Parameters<WorkerPool['runAll']>[0][number] {
+  const width = 8
+  return {
+    task: 'outlineBand',
+    input: {
+      src: new Uint8ClampedArray(width * rows * 4).fill(200).buffer,
+      weights: new Float32Array(width * rows).fill(0.5).buffer,
+      width,
+      rows,
+      erodeIters: 1,
+      dilateIters: 1,
+      trimTop: 0,
+      trimBottom: 0,
+    },
+  }
+}
+
+describe('workerpool', () => {
+  it('spreads tasks round-robin and resolves in order with progress', async () => {
+    const fakes = fakeWorkers()
+    const pool = new WorkerPool(fakes.factory, 2)
+    const progress: number[] = []
+    const outputs = await pool.runAll([bandTask(4), bandTask(5), bandTask(6)], { onProgress: f => progress.push(f) })
+
+    expect(outputs.map(out => out.byteLength)).toEqual([4, 5, 6].map(rows => rows * 8 * 4))
+    expect(fakes.posted).toEqual([[0, 2], [1]])
+    expect(progress.at(-1)).toBe(1)
+    expect(pool.busy).toBe(0)
+  })
+
+  it('rejects failed tasks and keeps the pool usable', async () => {
+    const fakes = fakeWorkers()
+    const pool = new WorkerPool(fakes.factory, 2)
+    const bad = { ...bandTask(4), task: 'nope' as 'outlineBand' }
+    await expect(pool.runAll([bad])).rejects.toThrow('Unknown worker task')
+
+    await pool.runAll([bandTask(4), bandTask(4)])
+    expect(fakes.started).toBe(2)
+  })
+
+  it('terminates busy workers on abort and on dispose', async () => {
+    const fakes = fakeWorkers(true)
+    const pool = new WorkerPool(fakes.factory, 2)
+    const controller = new AbortController()
+    const run = pool.runAll([bandTask(4), bandTask(4)], { signal: controller.signal })
+    controller.abort()
+    await expect(run).rejects.toBeInstanceOf(PixelOEAbortError)
+    expect(fakes.terminated).toBe(2)
+
+    const pending = pool.runAll([bandTask(4)])
+    pool.dispose()
+    await expect(pending).rejects.toThrow('disposed')
+    await expect(pool.runAll([bandTask(4)])).rejects.toThrow('disposed')
+    expect(() => new WorkerPool(fakes.factory, 0)).toThrow(RangeError)
+  })
+
+  it('aborts one batch without touching a concurrent one', async () => {
+    const fakes = fakeWorkers()
+    const pool = new WorkerPool(fakes.factory, 2)
+    const controller = new AbortController()
+    const aborted = pool.runAll([bandTask(4), bandTask(4)], { signal: controller.signal })
+    const other = pool.runAll([bandTask(5), bandTask(6)])
+    controller.abort()
+    await expect(aborted).rejects.toBeInstanceOf(PixelOEAbortError)
+    const outputs = await other
+    expect(outputs.map(out => out.byteLength)).toEqual([5 * 8 * 4, 6 * 8 * 4])
+    expect(fakes.terminated).toBe(0)
+    expect(pool.busy).toBe(0)
+  })
+
+  it('fails one batch without touching a concurrent one', async () => {
+    const fakes = fakeWorkers()
+    const pool = new WorkerPool(fakes.factory, 2)
+    const bad = { ...bandTask(4), task: 'nope' as 'outlineBand' }
+    const failed = pool.runAll([bad, bandTask(4)])
+    const other = pool.runAll([bandTask(5), bandTask(6)])
+    await expect(failed).rejects.toThrow('Unknown worker task')
+    const outputs = await other
+    expect(outputs.map(out => out.byteLength)).toEqual([5 * 8 * 4, 6 * 8 * 4])
+    expect(pool.busy).toBe(0)
+  })
+})
+
+describe('parallel bands', () => {
+  it('computes expansion weights identical to the sync path at every stride', async () => {
+    const pool = new WorkerPool(fakeWorkers().factory, 3)
+    const image = syntheticImage(203, 157)
+    for (const [patchSize, stride] of [[3, 1], [6, 2], [9, 4], [8, 3]]) {
+      const expected = calculateExpansionWeight(image, patchSize, stride, 9, 4)
+      expect(await calculateExpansionWeightAsync(image, pool, patchSize, stride, 9, 4)).toEqual(expected)
+    }
+  })
+
+  it('downscales identically to the sync path, with transparency', async () => {
+    const pool = new WorkerPool(fakeWorkers().factory, 3)
+    const image = syntheticImage(800, 640)
+    for (let y = 0; y < 200; y++) {
+      for (let x = 0; x < 300; x++) {
+        image.data[(y * 800 + x) * 4 + 3] = (x + y) % 3 === 0 ? 0 : 255
+      }
+    }
+    for (const target of [128, { targetWidth: 97, targetHeight: 61 }]) {
+      const expected = contrastDownscale(image, target)
+      const actual = await contrastDownscaleAsync(image, target, {}, pool)
+      expect([actual.width, actual.height]).toEqual([expected.width, expected.height])
+      expect(actual.data).toEqual(expected.data)
+    }
+  })
+
+  it('runs the async pipeline on a pool with the sync output', async () => {
+    const fakes = fakeWorkers()
+    const pool = new WorkerPool(fakes.factory, 2)
+    const image = syntheticImage(800, 640)
+    const pixelOE = new PixelOE({ pixelSize: 6, thickness: 2, colorMatching: false, doQuantization: false, workerPool: pool, silent: true, cacheStages: false })
+    const expected = pixelOE.pixelize(image)
+    const actual = await pixelOE.pixelizeAsync(image)
+    expect(actual.result.data).toEqual(expected.result.data)
+    expect(fakes.posted.flat().length).toBe(6)
+  }, 60_000)
+})
+
+describe('node worker pool', () => {
+  it('runs outline bands on worker threads with identical output', async () => {
+    const pool = createNodeWorkerPool({
+      size: 2,
+      workerUrl: pathToFileURL(path.resolve('src/node/workerPool.ts')),
+      execArgv: TS_EXEC_ARGV,
+    })
+    try {
+      const image = syntheticImage(800, 640)
+      const expected = outlineExpansionOptimized(image, 2, 2, 6, 9, 4)
+      const actual = await outlineExpansionOptimizedAsync(image, 2, 2, 6, 9, 4, 0.1, true, true, {}, pool)
+      expect(actual.result.data).toEqual(expected.result.data)
+      expect(actual.weights).toEqual(expected.weights)
+    }
+    finally {
+      pool.dispose()
+    }
+  }, 60_000)
+})
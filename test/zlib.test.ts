@@ -0,0 +1,54 @@
+import { deflateSync, inflateSync } from 'node:zlib'
+import { describe, expect, it } from 'vitest'
+import { adler32, deflate, inflate } from '../src/core/zlib'
+
+function samples(): Uint8Array[] {
+  let seed = 12_345
+  const random = (): number => {
+    seed ^= seed << 13
+    seed ^= seed >>> 17
+    seed ^= seed << 5
+    return (seed >>> 0) / 4_294_967_296
+  }
+  const noisy = new Uint8Array(50_000).map((_, i) => (random() < 0.7 ? (i % 13) * 3 : Math.floor(random() * 256)))
+  const fourSymbols = new Uint8Array(70_000).map(() => Math.floor(random() * 4))
+  return [new Uint8Array(0), new Uint8Array([42]), new Uint8Array(100_000).fill(7), noisy, fourSymbols]
+}
+
+describe('zlib', () => {
+  it('computes adler-32', () => {
+    expect(adler32(new TextEncoder().encode('Wikipedia'))).toBe(0x11_E6_03_98)
+  })
+
+  it('inflates streams written by node:zlib at every level', () => {
+    for (const input of samples()) {
+      for (const level of [0, 1, 6, 9]) {
+        expect(inflate(new Uint8Array(deflateSync(input, { level })))).toEqual(input)
+      }
+    }
+  })
+
+  it('deflates to streams node:zlib and inflate read back', () => {
+    for (const input of samples()) {
+      const compressed = deflate(input)
+      expect(new Uint8Array(inflateSync(compressed))).toEqual(input)
+      expect(inflate(compressed)).toEqual(input)
+    }
+  })
+
+  it('compresses runs and small alphabets', () => {
+    const [, , run, , fourSymbols] = samples()
+    expect(deflate(run).length).toBeLessThan(200)
+    // Two bits of entropy per byte: close to 1/4 with dynamic Huffman codes
+    expect(deflate(fourSymbols).length).toBeLessThan(fourSymbols.length * 0.3)
+  })
+
+  it('rejects corrupt data', () => {
+    const compressed = deflate(new TextEncoder().encode('pixel art '.repeat(50)))
+    const corrupt = new Uint8Array(compressed)
+    corrupt[corrupt.length - 1] ^= 1
+    expect(() => inflate(corrupt)).toThrow('checksum')
+    expect(() => inflate(new Uint8Array([0x78, 0x9C, 0xFF, 0xFF, 0xFF, 0xFF]))).toThrow()
+    expect(() => inflate(compressed.subarray(0, 10))).toThrow()
+  })
+})
@@ -0,0 +1,18 @@
+import { defineConfig } from 'vite'
+
+// Bundles the `pixeloe` command-line tool into a single Node script
+export default defineConfig({
+  // The demo's public/ assets don't belong next to the script
+  publicDir: false,
+  build: {
+    ssr: 'src/cli/main.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'pixeloe.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+})